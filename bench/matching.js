@@ -0,0 +1,95 @@
+/**
+ * Consent check cost as a ledger grows.
+ *
+ *   npm run bench               1,000,000 actions
+ *   npm run bench -- 100000     a smaller run
+ *
+ * A million actions needs a larger heap than Node's default:
+ *   NODE_OPTIONS=--max-old-space-size=4096 npm run bench
+ *
+ * At each size the most recent actions are checked uncached (windowed counts and
+ * budget totals come from the index), then again from the match cache, and a
+ * proposal is put through requestAction(). The per-check times should stay flat
+ * while the ledger grows by orders of magnitude.
+ */
+
+'use strict';
+
+const { ConsentLedger } = require('../dist');
+
+const total = Number(process.argv[2] ?? 1000000);
+const sample = 1000;
+const sizes = [];
+for (let n = 1000; n < total; n *= 10) sizes.push(n);
+sizes.push(total);
+
+const ledger = new ConsentLedger('user-1');
+const authorisations = [];
+for (let i = 0; i < 10; i++) {
+  authorisations.push(
+    ledger.authorise({
+      principal_id: 'user-1',
+      agent_id: `agent-${i}`,
+      scope: 'categorical',
+      description: 'Purchases within limits',
+      constraints: [
+        { type: 'monetary_limit', description: 'Max 500 GBP', parameter: '500 GBP' },
+        { type: 'frequency_limit', description: 'Rate limit', parameter: '100000/hour' },
+        { type: 'budget', description: 'Daily budget', parameter: '1000000 GBP/day' },
+      ],
+      expires_at: null,
+    })
+  );
+}
+
+function record(i) {
+  const auth = authorisations[i % authorisations.length];
+  return ledger.recordAction({
+    agent_id: auth.agent_id,
+    authorisation_id: auth.id,
+    action_type: 'purchase',
+    description: 'Purchase',
+    parameters: { amount: 1 + (i % 400), currency: 'GBP' },
+  });
+}
+
+function micros(run) {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < sample; i++) run(i);
+  return Number(process.hrtime.bigint() - start) / 1000 / sample;
+}
+
+const rows = [];
+let recorded = 0;
+for (const size of sizes) {
+  // The last sample is recorded apart so the timed checks start uncached
+  const from = recorded;
+  const start = process.hrtime.bigint();
+  while (recorded < size - sample) record(recorded++);
+  const appendMicros = Number(process.hrtime.bigint() - start) / 1000 / Math.max(1, recorded - from);
+  const fresh = [];
+  while (recorded < size) fresh.push(record(recorded++));
+  const uncached = micros((i) => ledger.checkConsent(fresh[i].id));
+  const cached = micros((i) => ledger.checkConsent(fresh[i].id));
+  const auth = authorisations[0];
+  // Over the monetary limit, so the proposal is refused and the ledger does not grow
+  const gate = micros(() =>
+    ledger.requestAction({
+      agent_id: auth.agent_id,
+      authorisation_id: auth.id,
+      action_type: 'purchase',
+      description: 'Purchase',
+      parameters: { amount: 900, currency: 'GBP' },
+    })
+  );
+  rows.push({
+    actions: size.toLocaleString('en-GB'),
+    'append µs': appendMicros.toFixed(1),
+    'check µs': uncached.toFixed(1),
+    'cached µs': cached.toFixed(2),
+    'requestAction µs': gate.toFixed(1),
+    'heap MB': Math.round(process.memoryUsage().heapUsed / 1048576),
+  });
+}
+
+console.table(rows);
@@ -0,0 +1,187 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — incremental action index
+ * Maintained as actions are appended: the actions under each authorisation
+ * (including delegated descendants), prefix counts of performed actions and
+ * running totals per budget currency, started the first time a budget in that
+ * currency is checked. Window counts and budget totals are then answered by
+ * binary search instead of a scan.
+ */
+
+import type { ActionRecord, BudgetUsage } from './types';
+import { calendarBucketStart, type FrequencyLimit } from './period';
+import { summariseBudgetUsage, type Budget } from './budget';
+import { actionMoney, convertMoney, type RateProvider } from './currency';
+
+interface AuthorisationActions {
+  actions: ActionRecord[];
+  /** Chain position of each action, ascending */
+  sequence: number[];
+  times: number[];
+  /** performed[k] = performed actions among the first k */
+  performed: number[];
+  /** False once a timestamp goes backwards; window queries then fall back to a scan */
+  ordered: boolean;
+  /** Running totals per budget currency: spent and unconverted among the first k. Keyed '' for no currency */
+  totals: Map<string, { spent: number[]; unconverted: number[] }>;
+}
+
+export class ActionIndex {
+  /** Actions per authorisation ID in chain order, shaped for MatcherContext.actionsByAuthorisation */
+  readonly byAuthorisation = new Map<string, ActionRecord[]>();
+  private entries = new Map<string, AuthorisationActions>();
+  private sequenceById = new Map<string, number>();
+  private next = 0;
+  private lastAdded: { action: ActionRecord; authorisation_ids: string[] } | null = null;
+
+  constructor(private readonly rateProvider?: RateProvider) {}
+
+  /**
+   * Index an action under its authorisation and each delegation ancestor.
+   */
+  add(action: ActionRecord, authorisation_ids: string[]): void {
+    const seq = this.next++;
+    const t = new Date(action.timestamp).getTime();
+    this.sequenceById.set(action.id, seq);
+    for (const id of authorisation_ids) {
+      let entry = this.entries.get(id);
+      if (!entry) {
+        entry = { actions: [], sequence: [], times: [], performed: [0], ordered: true, totals: new Map() };
+        this.entries.set(id, entry);
+        this.byAuthorisation.set(id, entry.actions);
+      }
+      const last = entry.times[entry.times.length - 1];
+      if (Number.isNaN(t) || (last !== undefined && t < last)) entry.ordered = false;
+      entry.actions.push(action);
+      entry.sequence.push(seq);
+      entry.times.push(t);
+      entry.performed.push(entry.performed[entry.performed.length - 1] + (action.outcome === 'denied' ? 0 : 1));
+      for (const [key, totals] of entry.totals) this.extend(entry, totals, key || null, entry.actions.length);
+    }
+    this.lastAdded = { action, authorisation_ids };
+  }
+
+  /**
+   * Undo the most recent add(), e.g. after matching a proposed action that was not recorded.
+   */
+  removeLast(): void {
+    if (!this.lastAdded) return;
+    const { action, authorisation_ids } = this.lastAdded;
+    for (const id of authorisation_ids) {
+      const entry = this.entries.get(id)!;
+      entry.actions.pop();
+      entry.sequence.pop();
+      entry.times.pop();
+      entry.performed.pop();
+      for (const totals of entry.totals.values()) {
+        if (totals.spent.length > entry.actions.length + 1) {
+          totals.spent.pop();
+          totals.unconverted.pop();
+        }
+      }
+      if (entry.actions.length === 0) {
+        this.entries.delete(id);
+        this.byAuthorisation.delete(id);
+      }
+    }
+    this.sequenceById.delete(action.id);
+    this.next--;
+    this.lastAdded = null;
+  }
+
+  /** Actions under the authorisation up to and including the given one */
+  actionsUpTo(authorisation_id: string, action: ActionRecord): ActionRecord[] {
+    const entry = this.entries.get(authorisation_id);
+    const i = entry ? this.position(entry, action) : -1;
+    return entry && i >= 0 ? entry.actions.slice(0, i + 1) : [action];
+  }
+
+  /**
+   * Performed actions under the authorisation in the window ending at the action,
+   * up to and including it. Null if the answer needs a scan.
+   */
+  countInWindow(authorisation_id: string, action: ActionRecord, limit: Pick<FrequencyLimit, 'period' | 'window'>): number | null {
+    const entry = this.entries.get(authorisation_id);
+    const i = entry ? this.position(entry, action) : -1;
+    if (!entry || i < 0 || !entry.ordered) return null;
+    const j = this.windowStart(entry, i, limit);
+    return entry.performed[i + 1] - entry.performed[j];
+  }
+
+  /**
+   * Budget usage as computeBudgetUsage() would report it for the action. Null if
+   * the answer needs a scan.
+   */
+  budgetUsage(
+    authorisation_id: string,
+    action: ActionRecord,
+    budget: Budget
+  ): (BudgetUsage & { unconverted: number }) | null {
+    const entry = this.entries.get(authorisation_id);
+    const i = entry ? this.position(entry, action) : -1;
+    if (!entry || i < 0 || !entry.ordered) return null;
+    const totals = this.totals(entry, budget.limit.currency, i + 1);
+    const j = budget.period ? this.windowStart(entry, i, { period: budget.period, window: budget.window }) : 0;
+    return summariseBudgetUsage(
+      budget,
+      totals.spent[i + 1] - totals.spent[j],
+      totals.unconverted[i + 1] - totals.unconverted[j]
+    );
+  }
+
+  private position(entry: AuthorisationActions, action: ActionRecord): number {
+    const seq = this.sequenceById.get(action.id);
+    if (seq === undefined) return -1;
+    let lo = 0;
+    let hi = entry.sequence.length - 1;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (entry.sequence[mid] === seq) return mid;
+      if (entry.sequence[mid] < seq) lo = mid + 1;
+      else hi = mid - 1;
+    }
+    return -1;
+  }
+
+  /** First index in [0, i] inside the window ending at action i (see inWindow) */
+  private windowStart(entry: AuthorisationActions, i: number, limit: Pick<FrequencyLimit, 'period' | 'window'>): number {
+    const end = entry.times[i];
+    const calendar = limit.window === 'calendar';
+    const start = calendar ? calendarBucketStart(limit.period, end) : end - limit.period.ms;
+    let lo = 0;
+    let hi = i;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const inside = calendar ? entry.times[mid] >= start : entry.times[mid] > start;
+      if (inside) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  /** Running totals in the currency; once started they are kept up to date by add() */
+  private totals(entry: AuthorisationActions, currency: string | null, length: number): { spent: number[]; unconverted: number[] } {
+    const key = currency ?? '';
+    let totals = entry.totals.get(key);
+    if (!totals) {
+      totals = { spent: [0], unconverted: [0] };
+      entry.totals.set(key, totals);
+    }
+    this.extend(entry, totals, currency, length);
+    return totals;
+  }
+
+  private extend(
+    entry: AuthorisationActions,
+    totals: { spent: number[]; unconverted: number[] },
+    currency: string | null,
+    length: number
+  ): void {
+    for (let k = totals.spent.length - 1; k < length; k++) {
+      const a = entry.actions[k];
+      const money = a.outcome === 'denied' ? null : actionMoney(a.parameters);
+      const amount = money ? convertMoney(money, currency, this.rateProvider, a.timestamp) : 0;
+      totals.spent.push(totals.spent[k] + Math.max(amount ?? 0, 0));
+      totals.unconverted.push(totals.unconverted[k] + (amount === null ? 1 : 0));
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — agent identities
+ * Applications register the agents allowed to act, who owns each one, and the
+ * authority level it was granted; action types can require a minimum level.
+ * With a registry, the matcher rejects actions from unknown or suspended agents
+ * and flags actions above the agent's level, and the drift detector reports
+ * agents that keep acting above it. Level changes, required levels included, are
+ * timestamped like suspensions, so each action is judged by the levels in force
+ * when it was taken.
+ */
+
+import type { ActionRecord, ConsentViolation } from './types';
+
+export type AgentStatus = 'active' | 'suspended';
+
+export interface AgentSuspension {
+  suspended_at: string;
+  /** Null while the suspension lasts */
+  reactivated_at: string | null;
+  reason: string | null;
+}
+
+export interface AgentLevelChange {
+  authority_level: number;
+  /** Level held until the change */
+  previous_level: number;
+  changed_at: string;
+}
+
+export interface AgentIdentity {
+  agent_id: string;
+  /** Person or organisation responsible for the agent */
+  owner: string;
+  /** Higher levels may take more sensitive action types */
+  authority_level: number;
+  status: AgentStatus;
+  registered_at: string;
+  /** Every suspension, oldest first; actions inside one stay violations after reactivation */
+  suspensions: AgentSuspension[];
+  /** Every change of authority_level, oldest first; actions are judged at the level in force when taken */
+  level_changes: AgentLevelChange[];
+}
+
+export interface AgentRegistration {
+  agent_id: string;
+  owner: string;
+  authority_level: number;
+  /** When the agent may start acting; defaults to now */
+  registered_at?: string;
+}
+
+export interface AgentRegistryOptions {
+  /** Minimum authority level per action type, in force from the start */
+  requiredLevels?: Record<string, number>;
+  /** Level required by action types not listed; defaults to 0 */
+  defaultRequiredLevel?: number;
+}
+
+function assertLevel(name: string, level: number): void {
+  if (!(Number.isInteger(level) && level >= 0)) throw new Error(`Invalid ${name}: ${level}`);
+}
+
+/** The time a change takes effect, defaulting to now */
+function changeTime(name: string, at: string | undefined): string {
+  const time = at ?? new Date().toISOString();
+  if (Number.isNaN(Date.parse(time))) throw new Error(`Invalid ${name} time: ${time}`);
+  return time;
+}
+
+interface RequiredLevelChange {
+  required_level: number;
+  previous_level: number;
+  changed_at: string;
+}
+
+export class AgentRegistry {
+  private identities = new Map<string, AgentIdentity>();
+  private requiredLevels = new Map<string, number>();
+  private requiredLevelChanges = new Map<string, RequiredLevelChange[]>();
+  private defaultRequiredLevel: number;
+  private changes = 0;
+
+  constructor(options: AgentRegistryOptions = {}) {
+    this.defaultRequiredLevel = options.defaultRequiredLevel ?? 0;
+    assertLevel('defaultRequiredLevel', this.defaultRequiredLevel);
+    for (const [action_type, level] of Object.entries(options.requiredLevels ?? {})) {
+      assertLevel(`required level for ${action_type}`, level);
+      this.requiredLevels.set(action_type, level);
+    }
+  }
+
+  /** Incremented by every change, so ledgers know when cached matches are stale */
+  get revision(): number {
+    return this.changes;
+  }
+
+  register(registration: AgentRegistration): AgentIdentity {
+    const { agent_id, owner, authority_level } = registration;
+    if (this.identities.has(agent_id)) throw new Error(`Agent already registered: ${agent_id}`);
+    assertLevel('authority_level', authority_level);
+    const registered_at = changeTime('registration', registration.registered_at);
+    const identity: AgentIdentity = {
+      agent_id,
+      owner,
+      authority_level,
+      status: 'active',
+      registered_at,
+      suspensions: [],
+      level_changes: [],
+    };
+    this.identities.set(agent_id, identity);
+    this.changes++;
+    return identity;
+  }
+
+  get(agent_id: string): AgentIdentity | undefined {
+    return this.identities.get(agent_id);
+  }
+
+  has(agent_id: string): boolean {
+    return this.identities.has(agent_id);
+  }
+
+  /** Registered agent IDs, sorted */
+  agents(): string[] {
+    return [...this.identities.keys()].sort();
+  }
+
+  /**
+   * Change the agent's level for actions timestamped at or after `at` (default
+   * now); earlier actions keep the level in force when they were taken.
+   */
+  setAuthorityLevel(agent_id: string, authority_level: number, at?: string): AgentIdentity {
+    const identity = this.require(agent_id);
+    assertLevel('authority_level', authority_level);
+    const changed_at = changeTime('level change', at);
+    const last = identity.level_changes[identity.level_changes.length - 1];
+    if (last && Date.parse(changed_at) < Date.parse(last.changed_at)) {
+      throw new Error(`Level change precedes the previous one: ${changed_at}`);
+    }
+    identity.level_changes.push({ authority_level, previous_level: identity.authority_level, changed_at });
+    identity.authority_level = authority_level;
+    this.changes++;
+    return identity;
+  }
+
+  /**
+   * Stop the agent acting: its actions timestamped at or after `at` (default now)
+   * are violations until it is reactivated.
+   */
+  suspend(agent_id: string, reason?: string, at?: string): AgentIdentity {
+    const identity = this.require(agent_id);
+    if (identity.status === 'suspended') throw new Error(`Agent already suspended: ${agent_id}`);
+    const suspended_at = changeTime('suspension', at);
+    identity.status = 'suspended';
+    identity.suspensions.push({ suspended_at, reactivated_at: null, reason: reason ?? null });
+    this.changes++;
+    return identity;
+  }
+
+  reactivate(agent_id: string, at?: string): AgentIdentity {
+    const identity = this.require(agent_id);
+    if (identity.status !== 'suspended') throw new Error(`Agent not suspended: ${agent_id}`);
+    const suspension = identity.suspensions[identity.suspensions.length - 1];
+    const reactivated_at = changeTime('reactivation', at);
+    if (Date.parse(reactivated_at) < Date.parse(suspension.suspended_at)) {
+      throw new Error(`Reactivation precedes the suspension: ${reactivated_at}`);
+    }
+    identity.status = 'active';
+    suspension.reactivated_at = reactivated_at;
+    this.changes++;
+    return identity;
+  }
+
+  /**
+   * Set the minimum level for actions of the type timestamped at or after `at`
+   * (default now); earlier actions keep the requirement in force when they were taken.
+   */
+  requireLevel(action_type: string, level: number, at?: string): this {
+    assertLevel(`required level for ${action_type}`, level);
+    const history = this.requiredLevelChanges.get(action_type) ?? [];
+    const last = history[history.length - 1];
+    const changed_at = changeTime('required level change', at);
+    if (last && Date.parse(changed_at) < Date.parse(last.changed_at)) {
+      throw new Error(`Required level change precedes the previous one: ${changed_at}`);
+    }
+    history.push({ required_level: level, previous_level: this.requiredLevel(action_type), changed_at });
+    this.requiredLevelChanges.set(action_type, history);
+    this.requiredLevels.set(action_type, level);
+    this.changes++;
+    return this;
+  }
+
+  /** Minimum authority level for the action type, now or when an action at `timestamp` was taken */
+  requiredLevel(action_type: string, timestamp?: string): number {
+    const current = this.requiredLevels.get(action_type) ?? this.defaultRequiredLevel;
+    const history = this.requiredLevelChanges.get(action_type);
+    if (timestamp === undefined || !history) return current;
+    const t = Date.parse(timestamp);
+    let level = history[0].previous_level;
+    for (const c of history) {
+      if (t >= Date.parse(c.changed_at)) level = c.required_level;
+    }
+    return level;
+  }
+
+  /** The suspension in force when the action was taken, if any */
+  suspensionAt(agent_id: string, timestamp: string): AgentSuspension | null {
+    const t = Date.parse(timestamp);
+    for (const s of this.identities.get(agent_id)?.suspensions ?? []) {
+      if (t >= Date.parse(s.suspended_at) && (s.reactivated_at === null || t < Date.parse(s.reactivated_at))) return s;
+    }
+    return null;
+  }
+
+  /** The agent's authority level when the action was taken; null for unknown agents */
+  levelAt(agent_id: string, timestamp: string): number | null {
+    const identity = this.identities.get(agent_id);
+    if (!identity) return null;
+    const t = Date.parse(timestamp);
+    let level = identity.level_changes[0]?.previous_level ?? identity.authority_level;
+    for (const c of identity.level_changes) {
+      if (t >= Date.parse(c.changed_at)) level = c.authority_level;
+    }
+    return level;
+  }
+
+  /**
+   * Violation for an action by an agent that was not registered or was suspended
+   * at the time, otherwise null.
+   */
+  checkAgent(action: ActionRecord): ConsentViolation | null {
+    const identity = this.identities.get(action.agent_id);
+    // Acting before registration is no better than acting unregistered
+    if (!identity || Date.parse(action.timestamp) < Date.parse(identity.registered_at)) {
+      return {
+        constraint_type: 'agent',
+        expected: 'registered agent',
+        actual: `unknown agent ${action.agent_id}`,
+        severity: 'critical',
+        description: 'Action taken by an agent missing from the agent registry',
+      };
+    }
+    const suspension = this.suspensionAt(action.agent_id, action.timestamp);
+    if (suspension) {
+      return {
+        constraint_type: 'agent',
+        expected: 'active agent',
+        actual: `suspended at ${suspension.suspended_at}`,
+        severity: 'critical',
+        description: suspension.reason ?? 'Action taken while the agent was suspended',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Violation for an action whose type requires a higher level than the agent
+   * held when it acted, otherwise null.
+   */
+  checkAuthority(action: ActionRecord): ConsentViolation | null {
+    const level = this.levelAt(action.agent_id, action.timestamp);
+    const required = this.requiredLevel(action.action_type, action.timestamp);
+    if (level === null || level >= required) return null;
+    return {
+      constraint_type: 'agent',
+      expected: `authority level ${required}`,
+      actual: `authority level ${level}`,
+      severity: 'major',
+      description: `${action.action_type} requires a higher authority level than the agent held`,
+    };
+  }
+
+  private require(agent_id: string): AgentIdentity {
+    const identity = this.identities.get(agent_id);
+    if (!identity) throw new Error(`Agent not found: ${agent_id}`);
+    return identity;
+  }
+}
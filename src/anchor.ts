@@ -0,0 +1,134 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — chain-head anchors
+ * An anchor records the head hash and length of every chain. Kept outside the
+ * ledger, it lets verify() detect entries deleted from the end (truncation),
+ * an older snapshot swapped in (rollback) or history rewritten (fork).
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import type { AnchorChain, AnchorFinding, ChainHead, LedgerAnchor, SignerKey } from './types';
+import { anchorPayload } from './hash';
+import { verifyWithKeys } from './signing';
+
+const GENESIS = '0';
+
+export const ANCHOR_CHAINS: readonly AnchorChain[] = ['authorisation', 'event', 'action', 'approval'];
+
+export type ChainEntries = Record<AnchorChain, ReadonlyArray<{ hash: string }>>;
+
+/**
+ * Current head of every chain.
+ */
+export function chainHeads(chains: ChainEntries): Record<AnchorChain, ChainHead> {
+  const heads = {} as Record<AnchorChain, ChainHead>;
+  for (const chain of ANCHOR_CHAINS) {
+    const entries = chains[chain];
+    heads[chain] = {
+      count: entries.length,
+      head_hash: entries.length === 0 ? GENESIS : entries[entries.length - 1].hash,
+    };
+  }
+  return heads;
+}
+
+function sameHeads(a: Record<AnchorChain, ChainHead>, b: Record<AnchorChain, ChainHead>): boolean {
+  return ANCHOR_CHAINS.every((c) => a[c].count === b[c].count && a[c].head_hash === b[c].head_hash);
+}
+
+/**
+ * Compare the chains with earlier anchors. A chain shorter than an anchor is a
+ * rollback when the ledger exactly matches another, older anchor (a stale
+ * snapshot), otherwise truncation; a chain whose entry at the anchored position
+ * has a different hash is a fork. Signed anchors must verify against `keys`.
+ */
+export function checkAnchors(
+  anchors: LedgerAnchor[],
+  chains: ChainEntries,
+  principal_id: string,
+  keys: SignerKey[]
+): { findings: AnchorFinding[]; signatures_checked: number } {
+  const findings: AnchorFinding[] = [];
+  let signatures_checked = 0;
+  const current = chainHeads(chains);
+  for (const anchor of anchors) {
+    const invalid = (expected: string, actual: string): void => {
+      findings.push({ kind: 'invalid_anchor', anchor_timestamp: anchor.timestamp, chain: null, expected, actual });
+    };
+    if (anchor.principal_id !== principal_id) {
+      invalid(`anchor for ${principal_id}`, `anchor for ${anchor.principal_id}`);
+      continue;
+    }
+    if (anchor.signature !== undefined) {
+      signatures_checked++;
+      if (!verifyWithKeys(anchorPayload(anchor), anchor.signature, principal_id, keys)) {
+        invalid('valid signature', keys.some((k) => k.signer_id === principal_id) ? 'invalid' : 'unknown_key');
+        continue;
+      }
+    }
+    const stale = anchors.some(
+      (other) => other !== anchor && other.timestamp < anchor.timestamp && sameHeads(other.chains, current)
+    );
+    for (const chain of ANCHOR_CHAINS) {
+      const head = anchor.chains[chain];
+      const entries = chains[chain];
+      if (entries.length < head.count) {
+        findings.push({
+          kind: stale ? 'rollback' : 'truncation',
+          anchor_timestamp: anchor.timestamp,
+          chain,
+          expected: `≥ ${head.count} entries`,
+          actual: `${entries.length} entries`,
+        });
+      } else {
+        const at = head.count === 0 ? GENESIS : entries[head.count - 1].hash;
+        if (at !== head.head_hash) {
+          findings.push({
+            kind: 'fork',
+            anchor_timestamp: anchor.timestamp,
+            chain,
+            expected: `entry ${head.count} hash ${head.head_hash}`,
+            actual: at,
+          });
+        }
+      }
+    }
+  }
+  return { findings, signatures_checked };
+}
+
+/** Somewhere to keep anchors out of reach of whoever can rewrite the ledger */
+export interface AnchorStore {
+  append(anchor: LedgerAnchor): void;
+  list(): LedgerAnchor[];
+}
+
+export class MemoryAnchorStore implements AnchorStore {
+  private anchors: LedgerAnchor[] = [];
+
+  append(anchor: LedgerAnchor): void {
+    this.anchors.push(anchor);
+  }
+
+  list(): LedgerAnchor[] {
+    return this.anchors.slice();
+  }
+}
+
+/**
+ * Anchors appended to a local file, one JSON object per line.
+ */
+export class FileAnchorStore implements AnchorStore {
+  constructor(readonly path: string) {}
+
+  append(anchor: LedgerAnchor): void {
+    appendFileSync(this.path, JSON.stringify(anchor) + '\n', 'utf8');
+  }
+
+  list(): LedgerAnchor[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as LedgerAnchor);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — ledger-backed approvals
+ * approval_required constraints are satisfied only by an approval recorded in
+ * the ledger before the action, never by flags in the action's own parameters.
+ */
+
+import type { ActionRecord, ApprovalDecision, ApprovalRecord, ApprovalRequest } from './types';
+import { canonicalParameters } from './hash';
+
+/**
+ * True if an approval request covers exactly this action: same authorisation,
+ * agent, action type and parameters.
+ */
+export function requestCoversAction(
+  request: ApprovalRequest,
+  action: Pick<ActionRecord, 'authorisation_id' | 'agent_id' | 'action_type' | 'parameters'>
+): boolean {
+  return (
+    request.authorisation_id === action.authorisation_id &&
+    request.agent_id === action.agent_id &&
+    request.action_type === action.action_type &&
+    canonicalParameters(request.parameters) === canonicalParameters(action.parameters)
+  );
+}
+
+/**
+ * Latest decision per request ID. Decisions by the requesting agent itself are
+ * ignored, so a self-approval written into the chain never satisfies anything.
+ */
+export function approvalDecisions(approvals: ApprovalRecord[]): Map<string, ApprovalDecision> {
+  const requesters = new Map<string, string>();
+  const decisions = new Map<string, ApprovalDecision>();
+  for (const r of approvals) {
+    if (r.record_type === 'request') requesters.set(r.id, r.agent_id);
+    else if (requesters.get(r.request_id) !== r.approver_id) decisions.set(r.request_id, r);
+  }
+  return decisions;
+}
+
+/**
+ * Assign approvals to actions in chain order. Each approval is used at most once,
+ * by the first performed action it covers that is timestamped at or after the approval.
+ */
+export function assignApprovals(
+  approvals: ApprovalRecord[],
+  actions: ActionRecord[]
+): Map<string, ApprovalDecision> {
+  const decisions = approvalDecisions(approvals);
+  const available: Array<{ request: ApprovalRequest; decision: ApprovalDecision }> = [];
+  for (const r of approvals) {
+    if (r.record_type !== 'request') continue;
+    const decision = decisions.get(r.id);
+    if (decision?.record_type === 'approved') available.push({ request: r, decision });
+  }
+  const assigned = new Map<string, ApprovalDecision>();
+  for (const action of actions) {
+    if (action.outcome === 'denied') continue;
+    const t = new Date(action.timestamp).getTime();
+    const idx = available.findIndex(
+      (x) => requestCoversAction(x.request, action) && new Date(x.decision.timestamp).getTime() <= t
+    );
+    if (idx < 0) continue;
+    assigned.set(action.id, available[idx].decision);
+    available.splice(idx, 1);
+  }
+  return assigned;
+}
+
+/**
+ * Approval requests nobody has answered yet, oldest first.
+ */
+export function pendingApprovalRequests(approvals: ApprovalRecord[]): ApprovalRequest[] {
+  const decisions = approvalDecisions(approvals);
+  return approvals.filter((r): r is ApprovalRequest => r.record_type === 'request' && !decisions.has(r.id));
+}
@@ -0,0 +1,96 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — cumulative budget constraints
+ * A budget caps the running total of action amounts under one authorisation,
+ * over its lifetime or over a rolling or calendar period.
+ */
+
+import type { ActionRecord, BudgetUsage } from './types';
+import { parseMoney, actionMoney, convertMoney, type Money, type RateProvider } from './currency';
+import { parsePeriod, inWindow, type PeriodDefinition, type WindowMode } from './period';
+
+export interface Budget {
+  limit: Money;
+  /** null for a lifetime budget */
+  period: PeriodDefinition | null;
+  window: WindowMode;
+}
+
+/**
+ * Parse a budget parameter: "<money>[/<period>] [rolling|calendar]", e.g.
+ * "5000 GBP" (lifetime), "2000 GBP/month calendar", "£300/7d".
+ */
+export function parseBudget(parameter: string): Budget | null {
+  let rest = parameter.trim();
+  let window: WindowMode = 'rolling';
+  const modeMatch = /^(.*?)\s+(rolling|calendar)$/i.exec(rest);
+  if (modeMatch) {
+    rest = modeMatch[1];
+    window = modeMatch[2].toLowerCase() as WindowMode;
+  }
+  const [moneySpec, periodSpec, ...extra] = rest.split('/');
+  if (extra.length > 0) return null;
+  const limit = parseMoney(moneySpec);
+  if (!limit) return null;
+  if (periodSpec === undefined) return { limit, period: null, window };
+  const period = parsePeriod(periodSpec);
+  return period ? { limit, period, window } : null;
+}
+
+export function describeBudget(budget: Budget): string {
+  const amount = budget.limit.currency ? `${budget.limit.amount} ${budget.limit.currency}` : String(budget.limit.amount);
+  return budget.period ? `${amount} per ${budget.period.label} (${budget.window})` : `${amount} total`;
+}
+
+/**
+ * Running total of performed actions in the budget window ending at `end`.
+ * Actions are in chain order; counting stops after `lastActionId` when given.
+ * Amounts that cannot be converted into the budget currency are skipped and counted;
+ * negative amounts are skipped so they cannot offset earlier spend.
+ * `carried` is spend already totalled from actions no longer in the list.
+ */
+export function computeBudgetUsage(
+  budget: Budget,
+  actions: ActionRecord[],
+  end: number,
+  rateProvider?: RateProvider,
+  lastActionId?: string,
+  carried = 0
+): BudgetUsage & { unconverted: number } {
+  let spent = carried;
+  let unconverted = 0;
+  for (const a of actions) {
+    const t = new Date(a.timestamp).getTime();
+    const counted = a.outcome !== 'denied' && (budget.period ? inWindow({ period: budget.period, window: budget.window }, t, end) : t <= end);
+    if (counted) {
+      const money = actionMoney(a.parameters);
+      if (money) {
+        const amount = convertMoney(money, budget.limit.currency, rateProvider, a.timestamp);
+        if (amount === null) unconverted++;
+        else spent += Math.max(amount, 0);
+      }
+    }
+    if (a.id === lastActionId) break;
+  }
+  return summariseBudgetUsage(budget, spent, unconverted);
+}
+
+/**
+ * Usage figures for a budget from its running total, rounded to cents.
+ */
+export function summariseBudgetUsage(
+  budget: Budget,
+  total: number,
+  unconverted: number
+): BudgetUsage & { unconverted: number } {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const spent = round(total);
+  return {
+    limit: budget.limit.amount,
+    currency: budget.limit.currency,
+    period: budget.period?.label ?? null,
+    spent,
+    remaining: round(Math.max(0, budget.limit.amount - spent)),
+    overspend: round(Math.max(0, spent - budget.limit.amount)),
+    unconverted,
+  };
+}
@@ -0,0 +1,264 @@
+#!/usr/bin/env node
+/**
+ * Consent Ledger Protocol (CNL-1.0) — command-line tool
+ * Inspects ledger files without writing to them: toJSON() snapshots, or NDJSON
+ * storage files (.ndjson, .jsonl). Every command takes --json for machine output.
+ * Exit codes: 0 clean, 1 the check failed (invalid ledger, violations, scope
+ * creep), 2 usage or input error.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { ConsentLedger } from './consent-ledger';
+import { FileStorageAdapter, MemoryStorageAdapter, type TornRecord } from './storage';
+import { FileAnchorStore } from './anchor';
+import { buildAuditReport, buildComplianceReport, reportToMarkdown } from './reporter';
+import type { ActionRecord, ConsentMatch, ConsentStatus, LedgerSnapshot } from './types';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliIO {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+const USAGE = `Usage: consent-ledger <command> <file> [options]
+
+Commands:
+  verify <file>   Check every hash chain, signature and checkpoint (exit 1 if invalid)
+                    --anchors <file>   also check anchors kept in this file
+  check <file>    Match every action against its authorisation (exit 1 on violations)
+                    --violations       list only actions with violations
+  drift <file>    Detect scope creep (exit 1 if any pattern is found)
+  report <file>   Compliance report in Markdown
+                    --audit            full audit report (JSON only)
+  query <file>    List actions
+                    --agent <id>  --authorisation <id>  --status <status>
+                    --type <action_type>  --since <iso>  --until <iso>
+
+Options:
+  --json          machine-readable output
+  --help          show this message
+`;
+
+const STATUSES: ConsentStatus[] = [
+  'authorised',
+  'exceeded',
+  'within_bounds',
+  'revoked',
+  'expired',
+  'pending_ratification',
+  'denied',
+];
+
+/** Flags each command accepts; true means the flag takes a value */
+const FLAGS: Record<string, Record<string, boolean>> = {
+  verify: { json: false, anchors: true },
+  check: { json: false, violations: false },
+  drift: { json: false },
+  report: { json: false, audit: false },
+  query: { json: false, agent: true, authorisation: true, status: true, type: true, since: true, until: true },
+};
+
+class UsageError extends Error {}
+
+const has = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+interface ParsedArgs {
+  command: string;
+  file: string;
+  flags: Map<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const accepted = has(FLAGS, command) ? FLAGS[command] : null;
+  if (!accepted) throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  const flags = new Map<string, string | true>();
+  const positional: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const name = arg.slice(2, eq < 0 ? undefined : eq);
+    if (!has(accepted, name)) throw new UsageError(`Unknown option for ${command}: --${name}`);
+    if (!accepted[name]) {
+      if (eq >= 0) throw new UsageError(`Option takes no value: --${name}`);
+      flags.set(name, true);
+      continue;
+    }
+    const value = eq >= 0 ? arg.slice(eq + 1) : rest[++i];
+    if (value === undefined || value === '') throw new UsageError(`Missing value for --${name}`);
+    flags.set(name, value);
+  }
+  if (positional.length !== 1) throw new UsageError(positional.length === 0 ? 'Missing ledger file' : `Unexpected argument: ${positional[1]}`);
+  return { command, file: positional[0], flags };
+}
+
+/**
+ * Load a snapshot or an NDJSON storage file. A torn final NDJSON line is
+ * skipped and returned; the file is never modified.
+ */
+function loadLedger(path: string): { ledger: ConsentLedger; torn: TornRecord | null } {
+  if (!existsSync(path)) throw new Error(`Ledger file not found: ${path}`);
+  if (!/\.(ndjson|jsonl)$/i.test(path)) return { ledger: ConsentLedger.fromJSON(readFileSync(path, 'utf8')), torn: null };
+  const { records, torn } = new FileStorageAdapter(path, { tornTail: 'keep' }).load();
+  const header = records[0];
+  if (!header || header.kind !== 'ledger') throw new Error('Storage does not start with a ledger record');
+  const memory = new MemoryStorageAdapter();
+  for (const record of records) memory.append(record);
+  return { ledger: ConsentLedger.open(memory, header.entry.principal_id), torn };
+}
+
+function snapshotOf(ledger: ConsentLedger): LedgerSnapshot {
+  return JSON.parse(ledger.toJSON()) as LedgerSnapshot;
+}
+
+function timeFilter(name: string, value: string | true | undefined): number | null {
+  if (typeof value !== 'string') return null;
+  const t = Date.parse(value);
+  if (Number.isNaN(t)) throw new UsageError(`Invalid --${name}: ${value}`);
+  return t;
+}
+
+function describeMatch(m: ConsentMatch): string {
+  const lines = [`${m.action_id}  ${m.status}`];
+  for (const v of m.violations) lines.push(`  ${v.severity} ${v.constraint_type}: expected ${v.expected}, got ${v.actual}`);
+  return lines.join('\n');
+}
+
+function runCommand(args: ParsedArgs, io: CliIO): number {
+  const json = args.flags.has('json');
+  const print = (value: unknown, text: () => string): void => {
+    io.out(json ? JSON.stringify(value, null, 2) + '\n' : text() + '\n');
+  };
+  if (args.command === 'report' && args.flags.has('audit') && !json) throw new UsageError('--audit needs --json');
+  const { ledger, torn } = loadLedger(args.file);
+  if (torn && !json) io.err(`Ignored torn record at line ${torn.line}\n`);
+
+  switch (args.command) {
+    case 'verify': {
+      const anchorsPath = args.flags.get('anchors');
+      if (typeof anchorsPath === 'string' && !existsSync(anchorsPath)) throw new Error(`Anchor file not found: ${anchorsPath}`);
+      const anchors = typeof anchorsPath === 'string' ? new FileAnchorStore(anchorsPath).list() : undefined;
+      const result = ledger.verify({ anchors });
+      const valid = result.valid && !torn;
+      print({ ...result, valid, torn }, () => {
+        const lines = [
+          `${valid ? 'VALID' : 'INVALID'}: ${result.authorisations_checked} authorisations, ${result.events_checked} events, ` +
+            `${result.actions_checked} actions, ${result.approvals_checked} approvals, ${result.checkpoints_checked} checkpoints`,
+        ];
+        for (const f of result.findings) lines.push(`  ${f.chain}[${f.index}] ${f.kind}: expected ${f.expected}, got ${f.actual}`);
+        for (const f of result.signature_failures) lines.push(`  ${f.chain} ${f.entry_id}: signature ${f.reason}`);
+        for (const f of result.anchor_findings) lines.push(`  anchor ${f.anchor_timestamp} ${f.kind}: expected ${f.expected}, got ${f.actual}`);
+        if (torn) lines.push(`  torn record at line ${torn.line}`);
+        return lines.join('\n');
+      });
+      return valid ? EXIT_OK : EXIT_FAILED;
+    }
+
+    case 'check': {
+      const matches = ledger.checkAllActions();
+      const violations = matches.filter((m) => m.violations.length > 0);
+      const summary: Record<string, number> = {};
+      for (const m of matches) summary[m.status] = (summary[m.status] ?? 0) + 1;
+      const listed = args.flags.has('violations') ? violations : matches;
+      print({ total: matches.length, with_violations: violations.length, summary, matches: listed }, () =>
+        [
+          `${matches.length} actions, ${violations.length} with violations`,
+          ...Object.entries(summary).map(([status, n]) => `  ${status}: ${n}`),
+          ...listed.map(describeMatch),
+        ].join('\n')
+      );
+      return violations.length > 0 ? EXIT_FAILED : EXIT_OK;
+    }
+
+    case 'drift': {
+      const patterns = ledger.detectScopeCreep();
+      print({ patterns }, () =>
+        [
+          `${patterns.length} scope creep pattern${patterns.length === 1 ? '' : 's'}`,
+          ...patterns.map((p) => `  ${p.pattern_type} (severity ${p.severity}): ${p.description}`),
+        ].join('\n')
+      );
+      return patterns.length > 0 ? EXIT_FAILED : EXIT_OK;
+    }
+
+    case 'report': {
+      const snapshot = snapshotOf(ledger);
+      const matches = ledger.checkAllActions();
+      const scopeCreep = ledger.detectScopeCreep();
+      const integrity = ledger.verify();
+      if (args.flags.has('audit')) {
+        print(buildAuditReport(snapshot, matches, scopeCreep, integrity), () => '');
+        return EXIT_OK;
+      }
+      const compliance = buildComplianceReport(snapshot, matches, scopeCreep, integrity);
+      print(compliance, () => reportToMarkdown(compliance, { includeScopeCreep: true, scopeCreepPatterns: scopeCreep }));
+      return EXIT_OK;
+    }
+
+    case 'query': {
+      const status = args.flags.get('status');
+      if (typeof status === 'string' && !STATUSES.includes(status as ConsentStatus)) {
+        throw new UsageError(`Invalid --status: ${status} (one of ${STATUSES.join(', ')})`);
+      }
+      const since = timeFilter('since', args.flags.get('since'));
+      const until = timeFilter('until', args.flags.get('until'));
+      const type = args.flags.get('type');
+      const statusById = new Map(ledger.checkAllActions().map((m) => [m.action_id, m.status]));
+      const actions = ledger
+        .getActions({
+          agent_id: args.flags.get('agent') as string | undefined,
+          authorisation_id: args.flags.get('authorisation') as string | undefined,
+          status: status as ConsentStatus | undefined,
+        })
+        .filter((a: ActionRecord) => {
+          const t = Date.parse(a.timestamp);
+          return (type === undefined || a.action_type === type) && (since === null || t >= since) && (until === null || t < until);
+        });
+      print({ count: actions.length, actions: actions.map((a) => ({ ...a, status: statusById.get(a.id) })) }, () =>
+        [
+          `${actions.length} action${actions.length === 1 ? '' : 's'}`,
+          ...actions.map((a) => `${a.timestamp}  ${a.id}  ${a.agent_id}  ${a.action_type}  ${statusById.get(a.id)}  ${a.description}`),
+        ].join('\n')
+      );
+      return EXIT_OK;
+    }
+  }
+  return EXIT_USAGE;
+}
+
+/**
+ * Run the tool with the arguments after the program name; returns the exit code.
+ */
+export function runCli(argv: string[], io?: CliIO): number {
+  const output: CliIO = io ?? {
+    out: (text) => process.stdout.write(text),
+    err: (text) => process.stderr.write(text),
+  };
+  if (argv.length === 0) {
+    output.err(USAGE);
+    return EXIT_USAGE;
+  }
+  if (argv.includes('--help') || argv[0] === 'help') {
+    output.out(USAGE);
+    return EXIT_OK;
+  }
+  try {
+    return runCommand(parseArgs(argv), output);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    output.err(`consent-ledger: ${message}\n`);
+    if (error instanceof UsageError) output.err(`Run consent-ledger --help for usage.\n`);
+    return EXIT_USAGE;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
@@ -4,39 +4,182 @@
 
 import type {
   AuthorisationEntry,
+  AuthorisationEvent,
+  AuthorisationEventType,
   ActionRecord,
   ConsentMatch,
   ConsentStatus,
+  ActionDecision,
+  ApprovalRecord,
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalDecisionType,
+  PendingRatification,
+  LedgerOptions,
+  EnforcementMode,
   ScopeCreepPattern,
   LedgerSnapshot,
   VerifyResult,
+  VerifyOptions,
+  SignerKey,
+  SignatureFailure,
+  IntegrityChain,
+  IntegrityFinding,
+  IntegrityFindingKind,
   ActionFilters,
+  CheckOptions,
+  LedgerAnchor,
+  MerkleChain,
+  MerkleCheckpoint,
+  InclusionProof,
+  CheckpointConsistency,
 } from './types';
 import { schema } from './types';
-import { generateId, chainHash, authorisationPayload, actionPayload } from './hash';
-import { matchConsent, type MatcherContext } from './matcher';
+import {
+  generateId,
+  chainHash,
+  authorisationPayload,
+  eventPayload,
+  actionPayload,
+  approvalPayload,
+  checkpointPayload,
+  anchorPayload,
+} from './hash';
+import { chainHeads, checkAnchors, type ChainEntries } from './anchor';
+import { merkleRoot, inclusionPath, consistencyPath } from './merkle';
+import { applyAuthorisationEvent, replayAuthorisations } from './lifecycle';
+import type { RateProvider } from './currency';
+import { delegationAncestors, validateAttenuation } from './delegation';
+import {
+  DEFAULT_RATIFICATION_PERIOD,
+  ledgerClock,
+  pendingRatifications,
+  ratificationDeadline,
+  ratificationDecisions,
+} from './ratification';
+import { parsePeriod } from './period';
+import {
+  approvalDecisions,
+  assignApprovals,
+  pendingApprovalRequests,
+  requestCoversAction,
+} from './approval';
+import { signPayload, toPublicKeyPem, verifyWithKeys, type KeyInput, type SignOptions } from './signing';
+import { matchConsent, decideAction, type MatcherContext } from './matcher';
+import { ActionIndex } from './action-index';
 import { detectScopeCreep, type DriftDetectorInput } from './drift-detector';
-import { buildComplianceReport, reportToMarkdown } from './reporter';
+import { ConstraintRegistry, type ConstraintTypeDefinition } from './constraint-registry';
+import { assertParameterSchema } from './parameter-schema';
+import type { DomainTaxonomy } from './domain';
+import type { AgentRegistry } from './agent-registry';
+import { buildComplianceReport, reportToMarkdown, type ComplianceReport } from './reporter';
+import type { StorageAdapter, StorageReport, StoredRecord } from './storage';
+import { LedgerHooks, type LedgerEventHandler, type LedgerEventName } from './hooks';
 
 const GENESIS = '0';
 
 export class ConsentLedger {
   readonly principal_id: string;
   private authorisations: AuthorisationEntry[] = [];
+  private events: AuthorisationEvent[] = [];
   private actions: ActionRecord[] = [];
+  private approvals: ApprovalRecord[] = [];
+  /** Grants as originally recorded (immutable) */
   private authById: Map<string, AuthorisationEntry> = new Map();
+  /** Current state per authorisation, derived by replaying events */
+  private stateById: Map<string, AuthorisationEntry> = new Map();
   private actionById: Map<string, ActionRecord> = new Map();
+  private keys: SignerKey[] = [];
+  private enforcement: EnforcementMode;
+  private rateProvider?: RateProvider;
+  private constraintRegistry: ConstraintRegistry;
+  private taxonomy?: DomainTaxonomy;
+  private agentRegistry?: AgentRegistry;
+  private readonly approvers: Set<string>;
+  /** Registry revision the cached matches were computed against */
+  private agentRevision = 0;
+  private checkpoints: MerkleCheckpoint[] = [];
+  private checkpointEvery?: number;
+  private storage?: StorageAdapter;
+  private storageReport: StorageReport | null = null;
+  /** Maintained as entries are appended so a consent check does not rescan the ledger */
+  private actionIndex: ActionIndex;
+  private ratifications: Map<string, AuthorisationEvent> = new Map();
+  private approvalsByAction: Map<string, ApprovalDecision> = new Map();
+  /** Approved requests not yet used by an action, in request order */
+  private availableApprovals: Array<{ request: ApprovalRequest; decision: ApprovalDecision }> = [];
+  /** Match per action, dropped when an event, approval or registered type could change it */
+  private matchCache: Map<string, ConsentMatch> = new Map();
+  private latestActionTime = -Infinity;
+  /** Latest entry timestamp on any chain; ratification deadlines are judged against it */
+  private latestEntryTime = -Infinity;
+  private hooks: LedgerHooks;
+  private scopeCreepEvery?: number;
+  /** Evidence already reported by scopeCreepDetected, per pattern type */
+  private reportedEvidence: Map<string, Set<string>> = new Map();
 
-  constructor(principal_id: string) {
+  constructor(principal_id: string, options?: LedgerOptions) {
     this.principal_id = principal_id;
+    this.enforcement = options?.enforcement ?? 'reject';
+    this.rateProvider = options?.rateProvider;
+    this.actionIndex = new ActionIndex(this.rateProvider);
+    this.constraintRegistry = options?.constraintRegistry ?? new ConstraintRegistry();
+    this.taxonomy = options?.taxonomy;
+    this.agentRegistry = options?.agentRegistry;
+    this.agentRevision = this.agentRegistry?.revision ?? 0;
+    this.approvers = new Set(options?.approvers);
+    const every = options?.checkpointEvery;
+    if (every !== undefined && !(Number.isInteger(every) && every > 0)) {
+      throw new Error(`Invalid checkpointEvery: ${every}`);
+    }
+    this.checkpointEvery = every;
+    const scopeEvery = options?.detectScopeCreepEvery;
+    if (scopeEvery !== undefined && !(Number.isInteger(scopeEvery) && scopeEvery > 0)) {
+      throw new Error(`Invalid detectScopeCreepEvery: ${scopeEvery}`);
+    }
+    this.scopeCreepEvery = scopeEvery;
+    this.hooks = new LedgerHooks(options?.onHookError);
+  }
+
+  /**
+   * Subscribe to ledger events; returns a function that unsubscribes. Handlers run
+   * after the entry is appended. Errors they throw or reject with go to
+   * LedgerOptions.onHookError and never affect the ledger.
+   */
+  on<K extends LedgerEventName>(event: K, handler: LedgerEventHandler<K>): () => void {
+    return this.hooks.on(event, handler);
+  }
+
+  off<K extends LedgerEventName>(event: K, handler: LedgerEventHandler<K>): void {
+    this.hooks.off(event, handler);
+  }
+
+  /** Resolves once every async handler started so far has finished */
+  hooksSettled(): Promise<void> {
+    return this.hooks.settled();
   }
 
   authorise(
     entry: Omit<
       AuthorisationEntry,
-      'id' | 'timestamp' | 'hash' | 'previous_hash' | 'revoked' | 'revoked_at'
-    >
+      'id' | 'timestamp' | 'hash' | 'previous_hash' | 'revoked' | 'revoked_at' | 'signature'
+    >,
+    options?: SignOptions
   ): AuthorisationEntry {
+    for (const c of entry.constraints) this.constraintRegistry.validate(c);
+    if (entry.parameter_schema !== undefined) assertParameterSchema(entry.parameter_schema);
+    if (entry.scope === 'delegated' || entry.parent_authorisation_id !== undefined) {
+      this.assertDelegation(entry);
+    }
+    if (entry.ratification_period !== undefined && entry.scope !== 'emergency') {
+      throw new Error('ratification_period is only valid on emergency authorisations');
+    }
+    const ratification_period = entry.scope === 'emergency'
+      ? entry.ratification_period ?? DEFAULT_RATIFICATION_PERIOD
+      : undefined;
+    if (ratification_period !== undefined && !parsePeriod(ratification_period)) {
+      throw new Error(`Invalid ratification_period: ${ratification_period}`);
+    }
     const id = generateId();
     const timestamp = new Date().toISOString();
     const previous_hash = this.authorisations.length === 0
@@ -44,6 +187,7 @@ export class ConsentLedger {
       : this.authorisations[this.authorisations.length - 1].hash;
     const full: AuthorisationEntry = {
       ...entry,
+      ...(ratification_period !== undefined ? { ratification_period } : {}),
       id,
       timestamp,
       revoked: false,
@@ -51,95 +195,729 @@ export class ConsentLedger {
       previous_hash,
       hash: '',
     };
+    if (options) full.signature = signPayload(authorisationPayload(full), options.privateKey);
     full.hash = chainHash(previous_hash, authorisationPayload(full));
+    this.persist({ kind: 'authorisation', entry: full });
     this.authorisations.push(full);
     this.authById.set(id, full);
+    this.stateById.set(id, full);
+    this.hooks.emit('authorised', { authorisation: full });
     return full;
   }
 
-  revoke(authorisation_id: string): AuthorisationEntry {
-    const auth = this.authById.get(authorisation_id);
-    if (!auth) throw new Error(`Authorisation not found: ${authorisation_id}`);
-    if (auth.revoked) return auth;
-    const revoked_at = new Date().toISOString();
-    const updated: AuthorisationEntry = {
-      ...auth,
-      revoked: true,
-      revoked_at,
+  private assertDelegation(
+    entry: Pick<AuthorisationEntry, 'scope' | 'parent_authorisation_id' | 'principal_id' | 'constraints' | 'expires_at'>
+  ): void {
+    if (entry.scope !== 'delegated') {
+      throw new Error('parent_authorisation_id is only valid on delegated authorisations');
+    }
+    if (!entry.parent_authorisation_id) {
+      throw new Error('Delegated authorisation requires parent_authorisation_id');
+    }
+    const parent = this.stateById.get(entry.parent_authorisation_id);
+    if (!parent) throw new Error(`Authorisation not found: ${entry.parent_authorisation_id}`);
+    if (parent.revoked) throw new Error(`Authorisation already revoked: ${parent.id}`);
+    // A delegate would hold emergency power without ever being ratified
+    if (parent.scope === 'emergency') throw new Error(`Emergency authorisation cannot be delegated: ${parent.id}`);
+    if (parent.expires_at && new Date(parent.expires_at) <= new Date()) {
+      throw new Error(`Authorisation expired: ${parent.id}`);
+    }
+    if (parent.principal_id !== entry.principal_id) {
+      throw new Error(`Delegation must keep principal ${parent.principal_id}`);
+    }
+    const issues = validateAttenuation(parent, entry, this.rateProvider, this.taxonomy);
+    if (issues.length > 0) {
+      throw new Error(`Delegation broadens parent authorisation ${parent.id}: ${issues.join('; ')}`);
+    }
+  }
+
+  /**
+   * Revoke an authorisation by appending a revocation event. The original grant
+   * is left untouched. Every delegated descendant is revoked with it.
+   * Returns the derived (revoked) state.
+   */
+  revoke(authorisation_id: string, reason?: string, options?: SignOptions): AuthorisationEntry {
+    const current = this.stateById.get(authorisation_id);
+    if (!current) throw new Error(`Authorisation not found: ${authorisation_id}`);
+    if (current.revoked) return current;
+    this.appendEvent(authorisation_id, 'revocation', { reason: reason ?? null }, options);
+    for (const descendant of this.getDelegatedDescendants(authorisation_id)) {
+      if (descendant.revoked) continue;
+      this.appendEvent(
+        descendant.id,
+        'revocation',
+        { reason: reason ?? null, cascaded_from: authorisation_id },
+        options
+      );
+    }
+    return this.stateById.get(authorisation_id)!;
+  }
+
+  /**
+   * Every authorisation delegated (directly or transitively) from the given one, in chain order.
+   */
+  getDelegatedDescendants(authorisation_id: string): AuthorisationEntry[] {
+    const inTree = new Set([authorisation_id]);
+    const result: AuthorisationEntry[] = [];
+    // Children always follow their parent in the chain, so one pass suffices
+    for (const a of this.authorisations) {
+      if (a.parent_authorisation_id && inTree.has(a.parent_authorisation_id) && !inTree.has(a.id)) {
+        inTree.add(a.id);
+        result.push(this.stateById.get(a.id) ?? a);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The authorisation followed by its ancestors up to the original grant.
+   */
+  getDelegationChain(authorisation_id: string): AuthorisationEntry[] {
+    const auth = this.stateById.get(authorisation_id);
+    if (!auth) return [];
+    return [auth, ...delegationAncestors(auth, this.stateById).ancestors];
+  }
+
+  /**
+   * Change (or remove, with null) the expiry of an active authorisation. The new
+   * expiry must be in the future and applies to actions taken from now on.
+   */
+  setExpiry(
+    authorisation_id: string,
+    expires_at: string | null,
+    reason?: string,
+    options?: SignOptions
+  ): AuthorisationEntry {
+    const current = this.stateById.get(authorisation_id);
+    if (!current) throw new Error(`Authorisation not found: ${authorisation_id}`);
+    if (current.revoked) throw new Error(`Authorisation already revoked: ${authorisation_id}`);
+    const now = Date.now();
+    if (current.expires_at && new Date(current.expires_at).getTime() <= now) {
+      throw new Error(`Authorisation already expired: ${authorisation_id}`);
+    }
+    if (expires_at !== null) {
+      const t = Date.parse(expires_at);
+      if (Number.isNaN(t)) throw new Error(`Invalid expires_at: ${expires_at}`);
+      if (t <= now) throw new Error(`Expiry must be in the future: ${expires_at}`);
+    }
+    this.appendEvent(authorisation_id, 'expiry_change', { reason: reason ?? null, expires_at }, options);
+    return this.stateById.get(authorisation_id)!;
+  }
+
+  /**
+   * Principal ratifies an emergency action. The action is then matched against
+   * the grant's constraints like any other. Refused once the deadline has passed.
+   */
+  ratify(action_id: string, reason?: string, options?: SignOptions): AuthorisationEvent {
+    const action = this.assertRatifiable(action_id);
+    const deadline = ratificationDeadline(this.stateById.get(action.authorisation_id)!, action);
+    if (deadline !== null && Date.now() > deadline) {
+      throw new Error(`Ratification deadline passed: ${action_id}`);
+    }
+    return this.appendEvent(action.authorisation_id, 'ratification', { reason: reason ?? null, action_id }, options);
+  }
+
+  /**
+   * Principal rejects an emergency action; it then matches as a critical violation.
+   */
+  reject(action_id: string, reason?: string, options?: SignOptions): AuthorisationEvent {
+    const action = this.assertRatifiable(action_id);
+    return this.appendEvent(action.authorisation_id, 'rejection', { reason: reason ?? null, action_id }, options);
+  }
+
+  private assertRatifiable(action_id: string): ActionRecord {
+    const action = this.actionById.get(action_id);
+    if (!action) throw new Error(`Action not found: ${action_id}`);
+    const auth = this.stateById.get(action.authorisation_id);
+    if (!auth || auth.scope !== 'emergency') {
+      throw new Error(`Action is not under an emergency authorisation: ${action_id}`);
+    }
+    const decision = ratificationDecisions(this.events).get(action_id);
+    if (decision) throw new Error(`Action already ${decision.event_type === 'ratification' ? 'ratified' : 'rejected'}: ${action_id}`);
+    return action;
+  }
+
+  /**
+   * Emergency actions awaiting the principal's decision, flagged when past their
+   * deadline at `at` (default: the latest entry in the ledger).
+   */
+  getPendingRatifications(options?: CheckOptions): PendingRatification[] {
+    return pendingRatifications(this.currentAuthorisations(), this.events, this.actions, this.clock(options));
+  }
+
+  private appendEvent(
+    authorisation_id: string,
+    event_type: AuthorisationEventType,
+    details: { reason: string | null; expires_at?: string | null; cascaded_from?: string; action_id?: string },
+    options?: SignOptions
+  ): AuthorisationEvent {
+    const grant = this.authById.get(authorisation_id)!;
+    const previous_hash = this.events.length === 0
+      ? GENESIS
+      : this.events[this.events.length - 1].hash;
+    const event: AuthorisationEvent = {
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      authorisation_id,
+      authorisation_hash: grant.hash,
+      event_type,
+      principal_id: this.principal_id,
+      reason: details.reason,
+      expires_at: details.expires_at ?? null,
+      ...(details.cascaded_from !== undefined ? { cascaded_from: details.cascaded_from } : {}),
+      ...(details.action_id !== undefined ? { action_id: details.action_id } : {}),
+      previous_hash,
       hash: '',
     };
-    updated.hash = chainHash(auth.previous_hash, authorisationPayload(updated));
-    const idx = this.authorisations.findIndex((a) => a.id === authorisation_id);
-    this.authorisations[idx] = updated;
-    this.authById.set(authorisation_id, updated);
-    return updated;
+    if (options) event.signature = signPayload(eventPayload(event), options.privateKey);
+    event.hash = chainHash(previous_hash, eventPayload(event));
+    this.persist({ kind: 'event', entry: event });
+    this.events.push(event);
+    this.stateById.set(
+      authorisation_id,
+      applyAuthorisationEvent(this.stateById.get(authorisation_id)!, event)
+    );
+    if (event.action_id !== undefined) {
+      this.ratifications.set(event.action_id, event);
+      this.matchCache.delete(event.action_id);
+    } else {
+      // Revocation or expiry change: every action under the grant or its descendants may match differently
+      for (const a of this.actionIndex.byAuthorisation.get(authorisation_id) ?? []) this.matchCache.delete(a.id);
+    }
+    if (event_type === 'revocation') {
+      this.hooks.emit('revoked', { authorisation: this.stateById.get(authorisation_id)!, event });
+    }
+    return event;
   }
 
+  /**
+   * Current state of an authorisation (grant with lifecycle events applied).
+   */
   getAuthorisation(id: string): AuthorisationEntry | null {
-    return this.authById.get(id) ?? null;
+    return this.stateById.get(id) ?? null;
+  }
+
+  /**
+   * The original grant and every lifecycle event recorded against it, in chain order.
+   */
+  getAuthorisationHistory(id: string): { grant: AuthorisationEntry; events: AuthorisationEvent[] } | null {
+    const grant = this.authById.get(id);
+    if (!grant) return null;
+    return { grant, events: this.events.filter((e) => e.authorisation_id === id) };
+  }
+
+  private currentAuthorisations(): AuthorisationEntry[] {
+    return this.authorisations.map((a) => this.stateById.get(a.id) ?? a);
+  }
+
+  /** Current state of every authorisation, in chain order */
+  getAuthorisations(): AuthorisationEntry[] {
+    return this.currentAuthorisations();
   }
 
   getActiveAuthorisations(): AuthorisationEntry[] {
     const now = new Date();
-    return this.authorisations.filter(
+    return this.currentAuthorisations().filter(
       (a) =>
         !a.revoked &&
         (!a.expires_at || new Date(a.expires_at) > now)
     );
   }
 
+  /**
+   * Register an Ed25519 public key for a principal or agent. A signer may hold
+   * several keys (rotation); a signature is accepted if any of them verifies it.
+   */
+  registerKey(signer_id: string, publicKey: KeyInput): SignerKey {
+    const key: SignerKey = {
+      signer_id,
+      algorithm: 'ed25519',
+      public_key: toPublicKeyPem(publicKey),
+      registered_at: new Date().toISOString(),
+    };
+    this.persist({ kind: 'key', entry: key });
+    this.keys.push(key);
+    return key;
+  }
+
+  getKeys(signer_id?: string): SignerKey[] {
+    return signer_id ? this.keys.filter((k) => k.signer_id === signer_id) : this.keys.slice();
+  }
+
+  /**
+   * Register an application-defined constraint type. Register types before
+   * authorising grants that use them, and again after fromJSON().
+   */
+  registerConstraintType(definition: ConstraintTypeDefinition): void {
+    this.constraintRegistry.register(definition);
+    this.matchCache.clear();
+  }
+
   recordAction(
-    action: Omit<ActionRecord, 'id' | 'timestamp' | 'hash' | 'previous_hash'>
+    action: Omit<ActionRecord, 'id' | 'timestamp' | 'hash' | 'previous_hash' | 'signature' | 'outcome'>,
+    options?: SignOptions
   ): ActionRecord {
-    const id = generateId();
-    const timestamp = new Date().toISOString();
-    const previous_hash = this.actions.length === 0
+    return this.appendAction(this.draftAction(action), options);
+  }
+
+  /**
+   * Ask before acting: match a proposed action against its authorisation before
+   * it is appended. Allowed actions are recorded; anything else is refused or,
+   * under the record_denied enforcement mode, recorded as a denied attempt.
+   */
+  requestAction(
+    action: Omit<ActionRecord, 'id' | 'timestamp' | 'hash' | 'previous_hash' | 'signature' | 'outcome'>,
+    options?: SignOptions
+  ): ActionDecision {
+    const proposed = this.draftAction(action);
+    const auth = this.getAuthorisation(proposed.authorisation_id);
+    // Match the proposal as if it were appended, then take it out of the index again
+    this.actionIndex.add(proposed, this.indexedAuthorisationIds(proposed));
+    const approval = this.findApproval(proposed);
+    if (approval >= 0) this.approvalsByAction.set(proposed.id, this.availableApprovals[approval].decision);
+    let match: ConsentMatch;
+    try {
+      match = matchConsent(auth, proposed, this.matcherContext());
+    } finally {
+      this.actionIndex.removeLast();
+      this.approvalsByAction.delete(proposed.id);
+    }
+    const decision = decideAction(match);
+    let record: ActionRecord | null = null;
+    if (decision === 'allow') {
+      record = this.appendAction(proposed, options);
+    } else if (this.enforcement === 'record_denied') {
+      record = this.appendAction({ ...proposed, outcome: 'denied' }, options);
+    }
+    let approval_request: ApprovalRequest | undefined;
+    if (decision === 'needs_approval') {
+      approval_request = pendingApprovalRequests(this.approvals).find((r) => requestCoversAction(r, proposed))
+        ?? this.requestApproval(action, options, record?.id);
+    }
+    return {
+      decision,
+      violations: match.violations,
+      match: record?.outcome === 'denied' ? { ...match, status: 'denied' } : match,
+      record,
+      ...(approval_request ? { approval_request } : {}),
+    };
+  }
+
+  /**
+   * Ask for approval of a specific action. An approval covers one action with the
+   * same authorisation, agent, action type and parameters, performed after it.
+   */
+  requestApproval(
+    action: Pick<ActionRecord, 'authorisation_id' | 'agent_id' | 'action_type' | 'description' | 'parameters'>,
+    options?: SignOptions,
+    action_id?: string
+  ): ApprovalRequest {
+    if (!this.stateById.has(action.authorisation_id)) {
+      throw new Error(`Authorisation not found: ${action.authorisation_id}`);
+    }
+    const request: ApprovalRequest = {
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      record_type: 'request',
+      authorisation_id: action.authorisation_id,
+      agent_id: action.agent_id,
+      action_type: action.action_type,
+      description: action.description,
+      parameters: action.parameters,
+      ...(action_id !== undefined ? { action_id } : {}),
+      previous_hash: '',
+      hash: '',
+    };
+    return this.appendApproval(request, options);
+  }
+
+  /**
+   * Record a human approving a pending request. The approver must be the principal
+   * or one of LedgerOptions.approvers, and never the agent that made the request.
+   */
+  approve(request_id: string, approver_id: string, reason?: string, options?: SignOptions): ApprovalDecision {
+    return this.decideApproval(request_id, 'approved', approver_id, reason, options);
+  }
+
+  /**
+   * Record a human refusing a pending request.
+   */
+  denyApproval(request_id: string, approver_id: string, reason?: string, options?: SignOptions): ApprovalDecision {
+    return this.decideApproval(request_id, 'denied', approver_id, reason, options);
+  }
+
+  private decideApproval(
+    request_id: string,
+    record_type: ApprovalDecisionType,
+    approver_id: string,
+    reason: string | undefined,
+    options?: SignOptions
+  ): ApprovalDecision {
+    const request = this.approvals.find((r): r is ApprovalRequest => r.id === request_id && r.record_type === 'request');
+    if (!request) throw new Error(`Approval request not found: ${request_id}`);
+    if (approver_id === request.agent_id) throw new Error(`Agent cannot approve its own request: ${request_id}`);
+    if (approver_id !== this.principal_id && !this.approvers.has(approver_id)) {
+      throw new Error(`Not an authorised approver: ${approver_id}`);
+    }
+    const existing = approvalDecisions(this.approvals).get(request_id);
+    if (existing) throw new Error(`Approval request already ${existing.record_type}: ${request_id}`);
+    const decision: ApprovalDecision = {
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      record_type,
+      authorisation_id: request.authorisation_id,
+      request_id,
+      approver_id,
+      reason: reason ?? null,
+      previous_hash: '',
+      hash: '',
+    };
+    return this.appendApproval(decision, options);
+  }
+
+  private appendApproval<T extends ApprovalRecord>(record: T, options?: SignOptions): T {
+    const previous_hash = this.approvals.length === 0
       ? GENESIS
-      : this.actions[this.actions.length - 1].hash;
-    const full: ActionRecord = {
+      : this.approvals[this.approvals.length - 1].hash;
+    const full: T = { ...record, previous_hash, hash: '' };
+    if (options) full.signature = signPayload(approvalPayload(full), options.privateKey);
+    full.hash = chainHash(previous_hash, approvalPayload(full));
+    this.persist({ kind: 'approval', entry: full });
+    this.approvals.push(full);
+    if (full.record_type === 'approved') this.makeApprovalAvailable(full);
+    return full;
+  }
+
+  private makeApprovalAvailable(decision: ApprovalDecision): void {
+    if (new Date(decision.timestamp).getTime() <= this.latestActionTime) {
+      // Recorded actions may use this approval (as assignApprovals() would see it): reassign them all
+      const previous = this.approvalsByAction;
+      this.reassignApprovals();
+      for (const a of this.actions) {
+        if (previous.get(a.id) !== this.approvalsByAction.get(a.id)) this.matchCache.delete(a.id);
+      }
+      return;
+    }
+    const request = this.approvals.find((r): r is ApprovalRequest => r.id === decision.request_id && r.record_type === 'request');
+    if (!request) return;
+    this.availableApprovals.push({ request, decision });
+    const order = new Map(this.approvals.map((r, i) => [r.id, i]));
+    this.availableApprovals.sort((x, y) => order.get(x.request.id)! - order.get(y.request.id)!);
+  }
+
+  private reassignApprovals(): void {
+    this.approvalsByAction = assignApprovals(this.approvals, this.actions);
+    const used = new Set(this.approvalsByAction.values());
+    const decisions = approvalDecisions(this.approvals);
+    this.availableApprovals = [];
+    for (const r of this.approvals) {
+      const decision = r.record_type === 'request' ? decisions.get(r.id) : undefined;
+      if (r.record_type === 'request' && decision?.record_type === 'approved' && !used.has(decision)) {
+        this.availableApprovals.push({ request: r, decision });
+      }
+    }
+  }
+
+  /** Index into availableApprovals of the approval the action would use, or -1 */
+  private findApproval(action: ActionRecord): number {
+    if (action.outcome === 'denied') return -1;
+    const t = new Date(action.timestamp).getTime();
+    return this.availableApprovals.findIndex(
+      (x) => requestCoversAction(x.request, action) && new Date(x.decision.timestamp).getTime() <= t
+    );
+  }
+
+  /**
+   * Approval requests nobody has answered, oldest first (an approval inbox).
+   */
+  getPendingApprovals(filters?: { agent_id?: string; authorisation_id?: string }): ApprovalRequest[] {
+    return pendingApprovalRequests(this.approvals).filter(
+      (r) =>
+        (!filters?.agent_id || r.agent_id === filters.agent_id) &&
+        (!filters?.authorisation_id || r.authorisation_id === filters.authorisation_id)
+    );
+  }
+
+  getApprovals(): ApprovalRecord[] {
+    return this.approvals.slice();
+  }
+
+  private draftAction(
+    action: Omit<ActionRecord, 'id' | 'timestamp' | 'hash' | 'previous_hash' | 'signature' | 'outcome'>
+  ): ActionRecord {
+    return {
       ...action,
-      id,
-      timestamp,
-      previous_hash,
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+      previous_hash: '',
       hash: '',
     };
+  }
+
+  private appendAction(draft: ActionRecord, options?: SignOptions): ActionRecord {
+    const previous_hash = this.actions.length === 0
+      ? GENESIS
+      : this.actions[this.actions.length - 1].hash;
+    const full: ActionRecord = { ...draft, previous_hash, hash: '' };
+    if (options) full.signature = signPayload(actionPayload(full), options.privateKey);
     full.hash = chainHash(previous_hash, actionPayload(full));
+    this.persist({ kind: 'action', entry: full });
     this.actions.push(full);
-    this.actionById.set(id, full);
+    this.actionById.set(full.id, full);
+    this.actionIndex.add(full, this.indexedAuthorisationIds(full));
+    this.latestActionTime = Math.max(this.latestActionTime, new Date(full.timestamp).getTime() || -Infinity);
+    const approval = this.findApproval(full);
+    if (approval >= 0) {
+      this.approvalsByAction.set(full.id, this.availableApprovals[approval].decision);
+      this.availableApprovals.splice(approval, 1);
+    }
+    if (this.checkpointEvery && this.actions.length % this.checkpointEvery === 0) this.checkpoint();
+    if (this.hooks.has('actionRecorded') || this.hooks.has('violation')) {
+      // Matched on first read, so handlers that only need the action (such as a registry's index) cost no match
+      let match: ConsentMatch | undefined;
+      const matched = (): ConsentMatch => (match ??= this.matchAction(full, this.matcherContext()));
+      this.hooks.emit('actionRecorded', {
+        action: full,
+        get match() {
+          return matched();
+        },
+      });
+      if (this.hooks.has('violation') && matched().violations.length > 0) {
+        this.hooks.emit('violation', { action: full, match: matched() });
+      }
+    }
+    if (this.scopeCreepEvery && this.actions.length % this.scopeCreepEvery === 0) this.detectScopeCreep();
     return full;
   }
 
-  private buildMatcherContext(): MatcherContext {
-    const periodMs = 24 * 60 * 60 * 1000;
-    const actionCountByAuthorisationInPeriod = new Map<string, number>();
-    for (const a of this.actions) {
-      const bucket = Math.floor(new Date(a.timestamp).getTime() / periodMs) * periodMs;
-      const key = `${a.authorisation_id}:${bucket}`;
-      actionCountByAuthorisationInPeriod.set(
-        a.authorisation_id,
-        (actionCountByAuthorisationInPeriod.get(a.authorisation_id) ?? 0) + 1
-      );
+  /**
+   * Record Merkle roots over the authorisation and action chains as they stand now.
+   * Checkpoints are hash-chained; hand a root to a verifier and later prove
+   * inclusion of single entries, or that the ledger was only appended to since.
+   */
+  checkpoint(): MerkleCheckpoint {
+    const id = generateId();
+    const timestamp = new Date().toISOString();
+    const previous_hash = this.checkpoints.length === 0
+      ? GENESIS
+      : this.checkpoints[this.checkpoints.length - 1].hash;
+    const body = {
+      id,
+      timestamp,
+      authorisation_count: this.authorisations.length,
+      authorisation_root: merkleRoot(this.authorisations.map((a) => a.hash)),
+      action_count: this.actions.length,
+      action_root: merkleRoot(this.actions.map((a) => a.hash)),
+    };
+    const checkpoint: MerkleCheckpoint = {
+      ...body,
+      previous_hash,
+      hash: chainHash(previous_hash, checkpointPayload(body)),
+    };
+    this.persist({ kind: 'checkpoint', entry: checkpoint });
+    this.checkpoints.push(checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * Head hash and length of every chain, optionally signed by the principal.
+   * Store anchors outside the ledger (see FileAnchorStore) and pass them back
+   * to verify() to detect truncation, rollback or a forked history.
+   */
+  anchor(options?: SignOptions): LedgerAnchor {
+    const anchor: LedgerAnchor = {
+      schema,
+      principal_id: this.principal_id,
+      timestamp: new Date().toISOString(),
+      chains: chainHeads(this.chainEntries()),
+    };
+    if (options) anchor.signature = signPayload(anchorPayload(anchor), options.privateKey);
+    return anchor;
+  }
+
+  private chainEntries(): ChainEntries {
+    return {
+      authorisation: this.authorisations,
+      event: this.events,
+      action: this.actions,
+      approval: this.approvals,
+    };
+  }
+
+  getCheckpoints(): MerkleCheckpoint[] {
+    return this.checkpoints.slice();
+  }
+
+  private getCheckpoint(checkpoint_id: string): MerkleCheckpoint {
+    const checkpoint = this.checkpoints.find((c) => c.id === checkpoint_id);
+    if (!checkpoint) throw new Error(`Checkpoint not found: ${checkpoint_id}`);
+    return checkpoint;
+  }
+
+  /**
+   * Inclusion proof for an action or authorisation, against the given checkpoint
+   * or, by default, the tree over the whole chain. Verify with verifyInclusion().
+   */
+  proveInclusion(entry_id: string, checkpoint_id?: string): InclusionProof {
+    const actionIndex = this.actions.findIndex((a) => a.id === entry_id);
+    const chain: MerkleChain = actionIndex >= 0 ? 'action' : 'authorisation';
+    const entries: Array<ActionRecord | AuthorisationEntry> = chain === 'action' ? this.actions : this.authorisations;
+    const leaf_index = actionIndex >= 0 ? actionIndex : this.authorisations.findIndex((a) => a.id === entry_id);
+    if (leaf_index < 0) throw new Error(`Entry not found: ${entry_id}`);
+    const checkpoint = checkpoint_id !== undefined ? this.getCheckpoint(checkpoint_id) : undefined;
+    const tree_size = checkpoint
+      ? chain === 'action' ? checkpoint.action_count : checkpoint.authorisation_count
+      : entries.length;
+    if (leaf_index >= tree_size) throw new Error(`Entry ${entry_id} was appended after checkpoint ${checkpoint_id}`);
+    const hashes = entries.slice(0, tree_size).map((e) => e.hash);
+    const entry = entries[leaf_index];
+    return {
+      chain,
+      entry_id,
+      entry_hash: entry.hash,
+      leaf_index,
+      tree_size,
+      path: inclusionPath(hashes, leaf_index),
+      entry,
+      ...(checkpoint ? { checkpoint_id: checkpoint.id } : {}),
+    };
+  }
+
+  /**
+   * Consistency proofs for both chains between two checkpoints (the later defaults
+   * to the latest). Verify each with verifyConsistency() and the checkpoints' roots.
+   */
+  proveConsistency(from_checkpoint_id: string, to_checkpoint_id?: string): CheckpointConsistency {
+    const from = this.getCheckpoint(from_checkpoint_id);
+    const to = to_checkpoint_id !== undefined
+      ? this.getCheckpoint(to_checkpoint_id)
+      : this.checkpoints[this.checkpoints.length - 1];
+    if (to.authorisation_count < from.authorisation_count || to.action_count < from.action_count) {
+      throw new Error(`Checkpoint ${to.id} precedes ${from.id}`);
     }
-    return { actionCountByAuthorisationInPeriod };
+    const authHashes = this.authorisations.slice(0, to.authorisation_count).map((a) => a.hash);
+    const actionHashes = this.actions.slice(0, to.action_count).map((a) => a.hash);
+    return {
+      from_checkpoint_id: from.id,
+      to_checkpoint_id: to.id,
+      authorisations: {
+        chain: 'authorisation',
+        first_size: from.authorisation_count,
+        second_size: to.authorisation_count,
+        path: consistencyPath(authHashes, from.authorisation_count),
+      },
+      actions: {
+        chain: 'action',
+        first_size: from.action_count,
+        second_size: to.action_count,
+        path: consistencyPath(actionHashes, from.action_count),
+      },
+    };
+  }
+
+  /** The action's authorisation and every delegation ancestor: each counts the action */
+  private indexedAuthorisationIds(action: ActionRecord): string[] {
+    const auth = this.stateById.get(action.authorisation_id);
+    return auth
+      ? [auth.id, ...delegationAncestors(auth, this.stateById).ancestors.map((x) => x.id)]
+      : [action.authorisation_id];
   }
 
-  checkConsent(action_id: string): ConsentMatch {
+  /** Evaluation time for ratification deadlines */
+  private clock(options?: CheckOptions): number {
+    if (options?.at === undefined) return this.latestEntryTime;
+    const t = new Date(options.at).getTime();
+    if (Number.isNaN(t)) throw new Error(`Invalid at: ${options.at}`);
+    return t;
+  }
+
+  private matcherContext(): MatcherContext {
+    // Registering, suspending or re-levelling an agent can change any match
+    if (this.agentRegistry && this.agentRegistry.revision !== this.agentRevision) {
+      this.agentRevision = this.agentRegistry.revision;
+      this.matchCache.clear();
+    }
+    return {
+      actionsByAuthorisation: this.actionIndex.byAuthorisation,
+      actionIndex: this.actionIndex,
+      rateProvider: this.rateProvider,
+      authorisationsById: this.stateById,
+      ratificationsByAction: this.ratifications,
+      approvalsByAction: this.approvalsByAction,
+      constraintRegistry: this.constraintRegistry,
+      taxonomy: this.taxonomy,
+      agentRegistry: this.agentRegistry,
+      now: Number.isFinite(this.latestEntryTime) ? new Date(this.latestEntryTime).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Match from the cache when possible. Pending emergency actions are not cached:
+   * they turn into violations when their ratification deadline passes.
+   */
+  private matchAction(action: ActionRecord, context: MatcherContext): ConsentMatch {
+    const cached = this.matchCache.get(action.id);
+    if (cached) return cached;
+    const match = matchConsent(this.stateById.get(action.authorisation_id) ?? null, action, context);
+    if (match.status !== 'pending_ratification') this.matchCache.set(action.id, match);
+    return match;
+  }
+
+  /** Rebuild the indexes from the chains, after loading a snapshot */
+  private reindex(): void {
+    this.actionIndex = new ActionIndex(this.rateProvider);
+    for (const a of this.actions) this.actionIndex.add(a, this.indexedAuthorisationIds(a));
+    this.ratifications = ratificationDecisions(this.events);
+    this.latestActionTime = this.actions.reduce((t, a) => Math.max(t, new Date(a.timestamp).getTime() || -Infinity), -Infinity);
+    this.latestEntryTime = ledgerClock([...this.authorisations, ...this.events, ...this.actions, ...this.approvals, ...this.checkpoints]);
+    this.reassignApprovals();
+    this.matchCache.clear();
+  }
+
+  /**
+   * Match an action against its authorisation. Ratification deadlines are judged
+   * at the latest entry in the ledger unless `at` is given.
+   */
+  checkConsent(action_id: string, options?: CheckOptions): ConsentMatch {
     const action = this.actionById.get(action_id);
     if (!action) throw new Error(`Action not found: ${action_id}`);
-    const auth = this.getAuthorisation(action.authorisation_id);
-    const context = this.buildMatcherContext();
-    return matchConsent(auth ?? null, action, context);
+    return this.checkAt([action], options)[0];
   }
 
-  checkAllActions(): ConsentMatch[] {
-    const context = this.buildMatcherContext();
-    return this.actions.map((action) => {
-      const auth = this.getAuthorisation(action.authorisation_id);
-      return matchConsent(auth ?? null, action, context);
-    });
+  checkAllActions(options?: CheckOptions): ConsentMatch[] {
+    return this.checkAt(this.actions, options);
+  }
+
+  /** Cached matches are only valid at the ledger's own clock */
+  private checkAt(actions: ActionRecord[], options?: CheckOptions): ConsentMatch[] {
+    const context = this.matcherContext();
+    if (options?.at === undefined) return actions.map((action) => this.matchAction(action, context));
+    const at = { ...context, now: new Date(this.clock(options)).toISOString() };
+    return actions.map((action) => matchConsent(this.stateById.get(action.authorisation_id) ?? null, action, at));
   }
 
+  /**
+   * Scope creep patterns across the ledger. scopeCreepDetected handlers hear of
+   * evidence not reported before.
+   */
   detectScopeCreep(): ScopeCreepPattern[] {
+    const patterns = this.scopeCreepPatterns();
+    const fresh = patterns.filter((p) => {
+      let seen = this.reportedEvidence.get(p.pattern_type);
+      if (!seen) {
+        seen = new Set();
+        this.reportedEvidence.set(p.pattern_type, seen);
+      }
+      const unseen = p.evidence_ids.filter((id) => !seen!.has(id));
+      for (const id of unseen) seen.add(id);
+      return unseen.length > 0;
+    });
+    if (fresh.length > 0) this.hooks.emit('scopeCreepDetected', { patterns: fresh });
+    return patterns;
+  }
+
+  /** detectScopeCreep() without events, for reports */
+  private scopeCreepPatterns(): ScopeCreepPattern[] {
     const matches = this.checkAllActions();
     const violationsByAction = new Map<string, { constraint_type: string; severity: string }[]>();
     const matchStatusByAction = new Map<string, string>();
@@ -153,82 +931,314 @@ export class ConsentLedger {
       }
     }
     const input: DriftDetectorInput = {
-      authorisations: this.authorisations,
+      authorisations: this.currentAuthorisations(),
       actions: this.actions,
       violationsByAction,
       matchStatusByAction,
+      rateProvider: this.rateProvider,
+      constraintRegistry: this.constraintRegistry,
+      taxonomy: this.taxonomy,
+      agentRegistry: this.agentRegistry,
     };
     return detectScopeCreep(input);
   }
 
-  verify(): VerifyResult {
-    let authOk = true;
-    let prev = GENESIS;
-    for (const a of this.authorisations) {
-      if (a.previous_hash !== prev) authOk = false;
-      const expected = chainHash(a.previous_hash, authorisationPayload(a));
-      if (a.hash !== expected) authOk = false;
-      prev = a.hash;
-    }
-    let actionOk = true;
-    let prevAction = GENESIS;
-    for (const a of this.actions) {
-      if (a.previous_hash !== prevAction) actionOk = false;
-      const expected = chainHash(a.previous_hash, actionPayload(a));
-      if (a.hash !== expected) actionOk = false;
-      prevAction = a.hash;
-    }
+  /**
+   * Verify all hash chains and, where keys are known, entry signatures.
+   * integrityFailure handlers hear of an invalid result.
+   */
+  verify(options?: VerifyOptions): VerifyResult {
+    const result = this.checkIntegrity(options);
+    if (!result.valid) this.hooks.emit('integrityFailure', { result });
+    return result;
+  }
+
+  /** verify() without events, for reports */
+  private checkIntegrity(options?: VerifyOptions): VerifyResult {
+    const keys = options?.keys ?? this.keys;
+    const signatureFailures: SignatureFailure[] = [];
+    let signaturesChecked = 0;
+    const checkSignature = (
+      chain: SignatureFailure['chain'],
+      index: number,
+      entry_id: string,
+      signer_id: string,
+      payload: string,
+      signature: string | undefined
+    ): void => {
+      const hasKey = keys.some((k) => k.signer_id === signer_id);
+      if (signature === undefined) {
+        if (hasKey) signatureFailures.push({ chain, index, entry_id, signer_id, reason: 'missing' });
+        return;
+      }
+      signaturesChecked++;
+      if (!hasKey) {
+        signatureFailures.push({ chain, index, entry_id, signer_id, reason: 'unknown_key' });
+      } else if (!verifyWithKeys(payload, signature, signer_id, keys)) {
+        signatureFailures.push({ chain, index, entry_id, signer_id, reason: 'invalid' });
+      }
+    };
+
+    const findings: IntegrityFinding[] = [];
+    const finding = (
+      chain: IntegrityChain,
+      index: number,
+      entry_id: string,
+      kind: IntegrityFindingKind,
+      expected: string,
+      actual: string
+    ): void => {
+      findings.push({ chain, index, entry_id, kind, expected, actual });
+    };
+    // Link, payload hash, duplicate ID and timestamp order are checked on every chain
+    const checkChain = <T extends { id: string; timestamp: string; hash: string; previous_hash: string }>(
+      chain: IntegrityChain,
+      entries: T[],
+      payload: (entry: T) => string,
+      extra: (entry: T, index: number) => void
+    ): void => {
+      const seen = new Set<string>();
+      let prev = GENESIS;
+      let prevTime = -Infinity;
+      for (const [i, e] of entries.entries()) {
+        if (e.previous_hash !== prev) finding(chain, i, e.id, 'broken_link', prev, e.previous_hash);
+        const expected = chainHash(e.previous_hash, payload(e));
+        if (e.hash !== expected) finding(chain, i, e.id, 'hash_mismatch', expected, e.hash);
+        if (seen.has(e.id)) finding(chain, i, e.id, 'duplicate_id', 'unique ID', e.id);
+        seen.add(e.id);
+        const t = new Date(e.timestamp).getTime();
+        if (t < prevTime) {
+          finding(chain, i, e.id, 'timestamp_regression', `≥ ${new Date(prevTime).toISOString()}`, e.timestamp);
+        }
+        if (!Number.isNaN(t)) prevTime = Math.max(prevTime, t);
+        extra(e, i);
+        prev = e.hash;
+      }
+    };
+    const checkPrincipal = (chain: IntegrityChain, index: number, entry_id: string, principal_id: string): void => {
+      if (principal_id !== this.principal_id) {
+        finding(chain, index, entry_id, 'principal_mismatch', this.principal_id, principal_id);
+      }
+    };
+
+    checkChain('authorisation', this.authorisations, authorisationPayload, (a, i) => {
+      checkPrincipal('authorisation', i, a.id, a.principal_id);
+      checkSignature('authorisation', i, a.id, a.principal_id, authorisationPayload(a), a.signature);
+    });
+    checkChain('event', this.events, eventPayload, (e, i) => {
+      checkPrincipal('event', i, e.id, e.principal_id);
+      const grant = this.authById.get(e.authorisation_id);
+      if (!grant) {
+        finding('event', i, e.id, 'unknown_authorisation', 'recorded authorisation', e.authorisation_id);
+      } else if (grant.hash !== e.authorisation_hash) {
+        finding('event', i, e.id, 'authorisation_hash_mismatch', grant.hash, e.authorisation_hash);
+      }
+      checkSignature('event', i, e.id, e.principal_id, eventPayload(e), e.signature);
+    });
+    checkChain('approval', this.approvals, approvalPayload, (r, i) => {
+      const signer = r.record_type === 'request' ? r.agent_id : r.approver_id;
+      checkSignature('approval', i, r.id, signer, approvalPayload(r), r.signature);
+    });
+    checkChain('action', this.actions, actionPayload, (a, i) => {
+      const grant = this.authById.get(a.authorisation_id);
+      if (grant && new Date(grant.timestamp) > new Date(a.timestamp)) {
+        finding('action', i, a.id, 'authorisation_after_action', `authorised by ${a.timestamp}`, grant.timestamp);
+      }
+      checkSignature('action', i, a.id, a.agent_id, actionPayload(a), a.signature);
+    });
+    // Each checkpoint's roots must match the chain prefixes it covers
+    checkChain('checkpoint', this.checkpoints, checkpointPayload, (c, i) => {
+      if (c.authorisation_count > this.authorisations.length || c.action_count > this.actions.length) {
+        finding(
+          'checkpoint',
+          i,
+          c.id,
+          'checkpoint_mismatch',
+          `${c.authorisation_count} authorisations, ${c.action_count} actions`,
+          `${this.authorisations.length} authorisations, ${this.actions.length} actions`
+        );
+        return;
+      }
+      const authRoot = merkleRoot(this.authorisations.slice(0, c.authorisation_count).map((a) => a.hash));
+      const actionRoot = merkleRoot(this.actions.slice(0, c.action_count).map((a) => a.hash));
+      if (authRoot !== c.authorisation_root) {
+        finding('checkpoint', i, c.id, 'checkpoint_mismatch', c.authorisation_root, authRoot);
+      }
+      if (actionRoot !== c.action_root) finding('checkpoint', i, c.id, 'checkpoint_mismatch', c.action_root, actionRoot);
+    });
+    const anchors = options?.anchors ?? [];
+    const anchorCheck = checkAnchors(anchors, this.chainEntries(), this.principal_id, keys);
+    signaturesChecked += anchorCheck.signatures_checked;
     return {
-      valid: authOk && actionOk,
+      valid: findings.length === 0 && signatureFailures.length === 0 && anchorCheck.findings.length === 0,
       authorisations_checked: this.authorisations.length,
+      events_checked: this.events.length,
       actions_checked: this.actions.length,
+      approvals_checked: this.approvals.length,
+      checkpoints_checked: this.checkpoints.length,
+      findings,
+      signatures_checked: signaturesChecked,
+      signature_failures: signatureFailures,
+      anchors_checked: anchors.length,
+      anchor_findings: anchorCheck.findings,
     };
   }
 
-  toJSON(): string {
-    const snapshot: LedgerSnapshot = {
+  private snapshot(): LedgerSnapshot {
+    return {
       schema,
       principal_id: this.principal_id,
+      keys: this.keys,
       authorisations: this.authorisations,
+      events: this.events,
+      approvals: this.approvals,
+      checkpoints: this.checkpoints,
       actions: this.actions,
     };
-    return JSON.stringify(snapshot, null, 2);
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.snapshot(), null, 2);
+  }
+
+  /**
+   * Compliance summary of the whole ledger: match statuses, violations by
+   * severity, budgets, ratifications, scope creep and integrity.
+   */
+  getComplianceReport(): ComplianceReport {
+    return this.complianceReport(this.scopeCreepPatterns());
+  }
+
+  /** Reading a report fires no events: it only reads the ledger */
+  private complianceReport(scopeCreep: ScopeCreepPattern[]): ComplianceReport {
+    return buildComplianceReport(this.snapshot(), this.checkAllActions(), scopeCreep, this.checkIntegrity(), {
+      rateProvider: this.rateProvider,
+    });
   }
 
   toMarkdown(): string {
-    const matches = this.checkAllActions();
-    const scopeCreep = this.detectScopeCreep();
-    const integrity = this.verify();
-    const snapshot: LedgerSnapshot = {
-      schema,
-      principal_id: this.principal_id,
-      authorisations: this.authorisations,
-      actions: this.actions,
-    };
-    const compliance = buildComplianceReport(snapshot, matches, scopeCreep, integrity);
-    return reportToMarkdown(compliance, {
+    const scopeCreep = this.scopeCreepPatterns();
+    return reportToMarkdown(this.complianceReport(scopeCreep), {
       includeScopeCreep: true,
       scopeCreepPatterns: scopeCreep,
     });
   }
 
-  static fromJSON(json: string): ConsentLedger {
-    const snapshot: LedgerSnapshot = JSON.parse(json);
+  static fromJSON(json: string, options?: LedgerOptions): ConsentLedger {
+    return ConsentLedger.fromSnapshot(JSON.parse(json), options);
+  }
+
+  private static fromSnapshot(snapshot: LedgerSnapshot, options?: LedgerOptions): ConsentLedger {
     if (snapshot.schema !== schema) throw new Error(`Invalid schema: expected ${schema}`);
-    const ledger = new ConsentLedger(snapshot.principal_id);
+    const ledger = new ConsentLedger(snapshot.principal_id, options);
     const L = ledger as unknown as {
       authorisations: AuthorisationEntry[];
+      events: AuthorisationEvent[];
       actions: ActionRecord[];
       authById: Map<string, AuthorisationEntry>;
+      stateById: Map<string, AuthorisationEntry>;
       actionById: Map<string, ActionRecord>;
+      approvals: ApprovalRecord[];
+      keys: SignerKey[];
+      checkpoints: MerkleCheckpoint[];
     };
+    // Snapshots from 1.0.x have no event chain (revocations were rewritten in place)
+    const events = snapshot.events ?? [];
     L.authorisations = snapshot.authorisations;
+    L.events = events;
     L.actions = snapshot.actions;
     L.authById = new Map(snapshot.authorisations.map((a) => [a.id, a]));
+    L.stateById = new Map(
+      replayAuthorisations(snapshot.authorisations, events).map((a) => [a.id, a])
+    );
     L.actionById = new Map(snapshot.actions.map((a) => [a.id, a]));
+    L.approvals = snapshot.approvals ?? [];
+    L.keys = snapshot.keys ?? [];
+    L.checkpoints = snapshot.checkpoints ?? [];
+    ledger.reindex();
+    return ledger;
+  }
+
+  /**
+   * Open a ledger backed by a storage adapter. An empty store starts a new ledger
+   * for the principal; otherwise the ledger is rebuilt from the stored records.
+   * From then on every entry is written to the store before it is appended.
+   * A torn final record is dropped and reported by getStorageReport().
+   */
+  static open(storage: StorageAdapter, principal_id: string, options?: LedgerOptions): ConsentLedger {
+    const { records, torn } = storage.load();
+    let ledger: ConsentLedger;
+    if (records.length === 0) {
+      ledger = new ConsentLedger(principal_id, options);
+      storage.append({ kind: 'ledger', entry: { schema, principal_id } });
+    } else {
+      const [header, ...rest] = records;
+      if (header.kind !== 'ledger') throw new Error('Storage does not start with a ledger record');
+      if (header.entry.principal_id !== principal_id) {
+        throw new Error(`Storage belongs to principal: ${header.entry.principal_id}`);
+      }
+      const snapshot: LedgerSnapshot = {
+        schema: header.entry.schema,
+        principal_id,
+        keys: [],
+        authorisations: [],
+        events: [],
+        approvals: [],
+        checkpoints: [],
+        actions: [],
+      };
+      for (const record of rest) {
+        switch (record.kind) {
+          case 'authorisation':
+            snapshot.authorisations.push(record.entry);
+            break;
+          case 'event':
+            snapshot.events.push(record.entry);
+            break;
+          case 'action':
+            snapshot.actions.push(record.entry);
+            break;
+          case 'approval':
+            snapshot.approvals.push(record.entry);
+            break;
+          case 'key':
+            snapshot.keys.push(record.entry);
+            break;
+          case 'checkpoint':
+            snapshot.checkpoints.push(record.entry);
+            break;
+          case 'ledger':
+            throw new Error('Storage contains more than one ledger record');
+        }
+      }
+      ledger = ConsentLedger.fromSnapshot(snapshot, options);
+    }
+    ledger.storage = storage;
+    ledger.storageReport = { records_loaded: records.length, torn };
     return ledger;
   }
 
+  /**
+   * What open() loaded from storage, including any torn record it dropped.
+   * Null for ledgers without storage.
+   */
+  getStorageReport(): StorageReport | null {
+    return this.storageReport;
+  }
+
+  /** Release the storage adapter (closing and, if configured, syncing its file). */
+  close(): void {
+    this.storage?.close();
+  }
+
+  /** Write an entry to storage before it joins the ledger, and advance the ledger's clock */
+  private persist(record: StoredRecord): void {
+    this.storage?.append(record);
+    if (record.kind !== 'key' && record.kind !== 'ledger') {
+      this.latestEntryTime = Math.max(this.latestEntryTime, new Date(record.entry.timestamp).getTime() || -Infinity);
+    }
+  }
+
   getActions(filters?: ActionFilters): ActionRecord[] {
     let list = this.actions.slice();
     if (filters?.agent_id) list = list.filter((a) => a.agent_id === filters.agent_id);
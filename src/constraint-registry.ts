@@ -0,0 +1,192 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — pluggable constraint types
+ * Applications register named constraint types with an evaluator, an optional
+ * parameter validator and a severity policy. The matcher and drift detector
+ * consult the registry for any type that is not built in.
+ */
+
+import type {
+  AuthorisationEntry,
+  ActionRecord,
+  BuiltinConstraintType,
+  ConsentConstraint,
+  ConsentViolation,
+  ScopeCreepPatternType,
+  ViolationSeverity,
+} from './types';
+import type { RateProvider } from './currency';
+import { compilePolicy } from './policy';
+import { parseDomainRestriction } from './domain';
+import { parseTimeWindow } from './time-window';
+import { parseFrequencyLimit } from './period';
+import { parseMoney } from './currency';
+import { parseBudget } from './budget';
+
+export const BUILTIN_CONSTRAINT_TYPES: readonly BuiltinConstraintType[] = [
+  'monetary_limit',
+  'domain_restriction',
+  'time_window',
+  'approval_required',
+  'recipient_restriction',
+  'frequency_limit',
+  'budget',
+  'policy',
+  'custom',
+];
+
+export interface ConstraintEvaluationContext {
+  /** The authorisation that carries the constraint (an ancestor for inherited constraints) */
+  authorisation: AuthorisationEntry;
+  /** Actions under that authorisation and its delegated descendants, in chain order, up to and including this one */
+  actions: ActionRecord[];
+  rateProvider?: RateProvider;
+}
+
+/** What an evaluator reports when an action breaks its constraint */
+export interface ConstraintOutcome {
+  expected: string;
+  actual: string;
+  /** Overrides the type's severity policy for this outcome */
+  severity?: ViolationSeverity;
+}
+
+export type SeverityPolicy =
+  | ViolationSeverity
+  | ((outcome: ConstraintOutcome, constraint: ConsentConstraint, action: ActionRecord) => ViolationSeverity);
+
+export interface ConstraintTypeDefinition {
+  type: string;
+  /** Return null when the action satisfies the constraint */
+  evaluate(
+    constraint: ConsentConstraint,
+    action: ActionRecord,
+    context: ConstraintEvaluationContext
+  ): ConstraintOutcome | null;
+  /** Return an error message for a parameter the evaluator cannot interpret */
+  validateParameter?(parameter: string): string | null;
+  /** Defaults to 'major' */
+  severity?: SeverityPolicy;
+  /** Scope creep pattern raised when three or more actions under one authorisation break the constraint */
+  drift?: ScopeCreepPatternType;
+}
+
+export class ConstraintRegistry {
+  private definitions = new Map<string, ConstraintTypeDefinition>();
+
+  register(definition: ConstraintTypeDefinition): this {
+    if ((BUILTIN_CONSTRAINT_TYPES as readonly string[]).includes(definition.type)) {
+      throw new Error(`Built-in constraint type cannot be replaced: ${definition.type}`);
+    }
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Constraint type already registered: ${definition.type}`);
+    }
+    this.definitions.set(definition.type, definition);
+    return this;
+  }
+
+  get(type: string): ConstraintTypeDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /** Registered (non built-in) type names in registration order */
+  types(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Throw if the constraint's type is unknown or its parameter is rejected by the validator.
+   * Policy expressions, domain restrictions, time windows, monetary and frequency limits
+   * and budgets are parsed here too.
+   */
+  validate(constraint: ConsentConstraint): void {
+    if (constraint.type === 'monetary_limit') {
+      if (!parseMoney(constraint.parameter)) {
+        throw new Error(
+          `Invalid monetary_limit parameter "${constraint.parameter}": expected an amount with an optional currency, e.g. 500 GBP`
+        );
+      }
+      return;
+    }
+    if (constraint.type === 'budget') {
+      if (!parseBudget(constraint.parameter)) {
+        throw new Error(
+          `Invalid budget parameter "${constraint.parameter}": expected <money>[/<period>] [rolling|calendar], e.g. 2000 GBP/month`
+        );
+      }
+      return;
+    }
+    if (constraint.type === 'frequency_limit') {
+      if (!parseFrequencyLimit(constraint.parameter)) {
+        throw new Error(
+          `Invalid frequency_limit parameter "${constraint.parameter}": expected <count>[/<period>] [rolling|calendar]`
+        );
+      }
+      return;
+    }
+    if (constraint.type === 'policy') {
+      compilePolicy(constraint.parameter);
+      return;
+    }
+    if (constraint.type === 'domain_restriction') {
+      parseDomainRestriction(constraint.parameter);
+      return;
+    }
+    if (constraint.type === 'time_window') {
+      parseTimeWindow(constraint.parameter);
+      return;
+    }
+    if ((BUILTIN_CONSTRAINT_TYPES as readonly string[]).includes(constraint.type)) return;
+    const definition = this.definitions.get(constraint.type);
+    if (!definition) throw new Error(`Unknown constraint type: ${constraint.type}`);
+    const error = definition.validateParameter?.(constraint.parameter) ?? null;
+    if (error !== null) {
+      throw new Error(`Invalid ${constraint.type} parameter "${constraint.parameter}": ${error}`);
+    }
+  }
+
+  /**
+   * Evaluate a constraint of a registered type. Unknown types and evaluator errors
+   * are violations: a constraint that cannot be checked must not read as satisfied.
+   */
+  evaluate(
+    constraint: ConsentConstraint,
+    action: ActionRecord,
+    context: ConstraintEvaluationContext
+  ): ConsentViolation | null {
+    const definition = this.definitions.get(constraint.type);
+    if (!definition) {
+      return {
+        constraint_type: constraint.type,
+        expected: 'registered constraint type',
+        actual: `unknown type ${constraint.type}`,
+        severity: 'major',
+        description: constraint.description,
+      };
+    }
+    let outcome: ConstraintOutcome | null;
+    try {
+      outcome = definition.evaluate(constraint, action, context);
+    } catch (err) {
+      return {
+        constraint_type: constraint.type,
+        expected: 'evaluable constraint',
+        actual: (err as Error).message,
+        severity: 'major',
+        description: constraint.description,
+      };
+    }
+    if (!outcome) return null;
+    const policy = definition.severity ?? 'major';
+    return {
+      constraint_type: constraint.type,
+      expected: outcome.expected,
+      actual: outcome.actual,
+      severity: outcome.severity ?? (typeof policy === 'function' ? policy(outcome, constraint, action) : policy),
+      description: constraint.description,
+    };
+  }
+}
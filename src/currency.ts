@@ -0,0 +1,107 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — currency-aware monetary amounts
+ * Shared by monetary constraints in the matcher and the drift detector.
+ */
+
+export interface Money {
+  amount: number;
+  /** ISO 4217 code, or null when no currency was stated */
+  currency: string | null;
+}
+
+/**
+ * Source of exchange rates. Implementations must be synchronous because
+ * matching is synchronous; preload rates for online sources.
+ */
+export interface RateProvider {
+  /** Units of `to` per one unit of `from`, or null if unknown. `at` is the action timestamp. */
+  getRate(from: string, to: string, at?: string): number | null;
+}
+
+/**
+ * Fixed rate table for offline use. Rates are expressed against a base currency:
+ * `new StaticRateProvider('GBP', { USD: 1.27, EUR: 1.17 })` means 1 GBP = 1.27 USD.
+ */
+export class StaticRateProvider implements RateProvider {
+  readonly base: string;
+  private rates: Map<string, number>;
+
+  constructor(base: string, rates: Record<string, number>) {
+    this.base = base.toUpperCase();
+    this.rates = new Map(Object.entries(rates).map(([code, rate]) => [code.toUpperCase(), rate]));
+    this.rates.set(this.base, 1);
+  }
+
+  getRate(from: string, to: string): number | null {
+    const f = this.rates.get(from.toUpperCase());
+    const t = this.rates.get(to.toUpperCase());
+    if (f === undefined || t === undefined || f <= 0) return null;
+    return t / f;
+  }
+}
+
+const SYMBOLS: Record<string, string> = { '£': 'GBP', '$': 'USD', '€': 'EUR', '¥': 'JPY' };
+
+/** Numeric strings in full: "2,000" and "-12.5" parse, "500abc", "1.2.3" and "Infinity" do not */
+const AMOUNT = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+
+function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const s = value.replace(/,/g, '').trim();
+    if (!AMOUNT.test(s)) return null;
+    const n = Number(s);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+/**
+ * Parse a monetary constraint parameter: "500", "500 GBP", "GBP 500", "£500" or "2,000 EUR".
+ * A limit is never negative, whichever form it takes.
+ */
+export function parseMoney(parameter: string): Money | null {
+  const s = parameter.trim();
+  const symbol = SYMBOLS[s.charAt(0)];
+  if (symbol) {
+    const amount = parseAmount(s.slice(1).trim());
+    return amount === null || amount < 0 ? null : { amount, currency: symbol };
+  }
+  const m = /^(?:([A-Za-z]{3})\s+)?([\d.,]+)(?:\s+([A-Za-z]{3}))?$/.exec(s);
+  if (!m || (m[1] && m[3])) return null;
+  const amount = parseAmount(m[2]);
+  if (amount === null || amount < 0) return null;
+  const currency = m[1] ?? m[3];
+  return { amount, currency: currency ? currency.toUpperCase() : null };
+}
+
+/**
+ * Monetary value of an action from its parameters (amount/value/cost plus optional currency).
+ * The amount may be zero or negative: the matcher reports those, and running
+ * totals never let them reduce the spend.
+ */
+export function actionMoney(parameters: Record<string, unknown>): Money | null {
+  const amount = parseAmount(parameters.amount ?? parameters.value ?? parameters.cost);
+  if (amount === null) return null;
+  const currency = typeof parameters.currency === 'string' && parameters.currency.trim()
+    ? parameters.currency.trim().toUpperCase()
+    : null;
+  return { amount, currency };
+}
+
+/**
+ * Express an amount in the target currency; a null target compares bare numbers.
+ * Returns null when a conversion is needed and no rate is known, and for an
+ * amount with no stated currency: it cannot be assumed to be in the target's.
+ */
+export function convertMoney(
+  money: Money,
+  target: string | null,
+  rateProvider?: RateProvider,
+  at?: string
+): number | null {
+  if (target === null || money.currency === target) return money.amount;
+  if (money.currency === null) return null;
+  const rate = rateProvider?.getRate(money.currency, target, at) ?? null;
+  return rate === null ? null : money.amount * rate;
+}
@@ -0,0 +1,130 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — delegation chains
+ * A delegated authorisation names its parent and may only narrow it.
+ */
+
+import type { AuthorisationEntry, ConsentConstraint } from './types';
+import { parseMoney, convertMoney, type RateProvider } from './currency';
+import { parseBudget } from './budget';
+import { parseFrequencyLimit } from './period';
+import { parseDomainRestriction, restrictionExcess, type DomainTaxonomy } from './domain';
+
+/**
+ * Walk parent links from a delegated authorisation up to the original grant.
+ * `broken` is the first parent ID that is missing or repeats (a cycle), else null.
+ */
+export function delegationAncestors(
+  authorisation: AuthorisationEntry,
+  byId: Map<string, AuthorisationEntry> | undefined
+): { ancestors: AuthorisationEntry[]; broken: string | null } {
+  const ancestors: AuthorisationEntry[] = [];
+  const seen = new Set([authorisation.id]);
+  let parentId = authorisation.parent_authorisation_id;
+  while (parentId) {
+    const parent = byId?.get(parentId);
+    if (!parent || seen.has(parentId)) return { ancestors, broken: parentId };
+    seen.add(parentId);
+    ancestors.push(parent);
+    parentId = parent.parent_authorisation_id;
+  }
+  return { ancestors, broken: null };
+}
+
+function listOf(c: ConsentConstraint): string[] {
+  return c.parameter.toLowerCase().split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function compareAmounts(
+  parentParam: string,
+  childParam: string,
+  label: string,
+  rateProvider?: RateProvider
+): string | null {
+  const parent = parseMoney(parentParam);
+  const child = parseMoney(childParam);
+  if (!parent || !child) return null;
+  const childAmount = convertMoney(child, parent.currency, rateProvider);
+  if (childAmount === null) return `${label} ${childParam} cannot be compared with parent ${parentParam}`;
+  return childAmount > parent.amount ? `${label} ${childParam} exceeds parent ${parentParam}` : null;
+}
+
+/**
+ * List the ways a child authorisation would be broader than its parent. Constraint
+ * types the child omits are inherited through the chain and are not reported;
+ * types that cannot be compared (time windows, approvals, custom) are enforced
+ * by walking the chain at match time.
+ */
+export function validateAttenuation(
+  parent: AuthorisationEntry,
+  child: Pick<AuthorisationEntry, 'constraints' | 'expires_at'>,
+  rateProvider?: RateProvider,
+  taxonomy?: DomainTaxonomy
+): string[] {
+  const issues: string[] = [];
+  if (parent.expires_at) {
+    if (!child.expires_at) {
+      issues.push(`expiry: parent expires at ${parent.expires_at} but child does not expire`);
+    } else if (new Date(child.expires_at) > new Date(parent.expires_at)) {
+      issues.push(`expiry: child expires at ${child.expires_at}, after parent ${parent.expires_at}`);
+    }
+  }
+  for (const p of parent.constraints) {
+    for (const c of child.constraints.filter((x) => x.type === p.type)) {
+      switch (p.type) {
+        case 'monetary_limit': {
+          const issue = compareAmounts(p.parameter, c.parameter, 'monetary_limit:', rateProvider);
+          if (issue) issues.push(issue);
+          break;
+        }
+        case 'budget': {
+          const pb = parseBudget(p.parameter);
+          const cb = parseBudget(c.parameter);
+          if (!pb || !cb) break;
+          const issue = compareAmounts(
+            `${pb.limit.amount}${pb.limit.currency ? ` ${pb.limit.currency}` : ''}`,
+            `${cb.limit.amount}${cb.limit.currency ? ` ${cb.limit.currency}` : ''}`,
+            'budget:',
+            rateProvider
+          );
+          if (issue) issues.push(issue);
+          if (pb.period && (!cb.period || cb.period.ms > pb.period.ms)) {
+            issues.push(`budget: child period ${cb.period?.label ?? 'lifetime'} is longer than parent ${pb.period.label}`);
+          }
+          break;
+        }
+        case 'frequency_limit': {
+          const pf = parseFrequencyLimit(p.parameter);
+          const cf = parseFrequencyLimit(c.parameter);
+          if (pf && cf && cf.limit / cf.period.ms > pf.limit / pf.period.ms) {
+            issues.push(`frequency_limit: ${c.parameter} allows more than parent ${p.parameter}`);
+          }
+          break;
+        }
+        case 'domain_restriction': {
+          let excess: string[];
+          try {
+            excess = restrictionExcess(
+              parseDomainRestriction(p.parameter, taxonomy),
+              parseDomainRestriction(c.parameter, taxonomy),
+              taxonomy
+            );
+          } catch (err) {
+            issues.push(`domain_restriction: ${(err as Error).message}`);
+            break;
+          }
+          if (excess.length > 0) issues.push(`domain_restriction: ${excess.join(', ')} not allowed by parent`);
+          break;
+        }
+        case 'recipient_restriction': {
+          const allowed = new Set(listOf(p));
+          const extra = listOf(c).filter((d) => !allowed.has(d));
+          if (extra.length > 0) issues.push(`${p.type}: ${extra.join(', ')} not allowed by parent`);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+  return issues;
+}
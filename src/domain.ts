@@ -0,0 +1,228 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — domain matching
+ * Domains are paths such as `travel/flights/europe`. A domain_restriction
+ * parameter is a comma-separated list with an optional mode prefix:
+ *   "travel/flights"                   hierarchical (default): the domain or any descendant
+ *   "exact: europe, uk"                exact: the listed domains only
+ *   "glob: travel/flights/*, shop/**"   glob: `*` one segment, `**` any depth, `?` one character
+ * A taxonomy resolves aliases and parents for domains that are not written as paths.
+ * The matcher, drift detector and delegation checks all use this module.
+ */
+
+import { LruCache } from './lru';
+
+export type DomainMatchMode = 'exact' | 'hierarchical' | 'glob';
+
+export interface DomainRestriction {
+  mode: DomainMatchMode;
+  /** Normalised domains or glob patterns */
+  domains: string[];
+}
+
+export interface DomainTaxonomy {
+  /** Canonical form of a domain (case, separators, aliases) */
+  normalise(domain: string): string;
+  /** Parent of a normalised domain, or null at the top of the hierarchy */
+  parent(domain: string): string | null;
+}
+
+const MAX_DEPTH = 64;
+const MODES: DomainMatchMode[] = ['exact', 'hierarchical', 'glob'];
+
+function normalisePath(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .split('/')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Slash-separated paths: the parent of `travel/flights/europe` is `travel/flights`.
+ */
+export class PathTaxonomy implements DomainTaxonomy {
+  normalise(domain: string): string {
+    return normalisePath(domain);
+  }
+
+  parent(domain: string): string | null {
+    const i = domain.lastIndexOf('/');
+    return i > 0 ? domain.slice(0, i) : null;
+  }
+}
+
+/**
+ * Fixed parent and alias tables for flat domain names, e.g.
+ * new StaticTaxonomy({ france: 'europe', paris: 'france' }, { eu: 'europe' }).
+ * Domains missing from the table fall back to their path parent.
+ */
+export class StaticTaxonomy extends PathTaxonomy {
+  private parents: Map<string, string>;
+  private aliases: Map<string, string>;
+
+  constructor(parents: Record<string, string>, aliases: Record<string, string> = {}) {
+    super();
+    this.parents = new Map(Object.entries(parents).map(([k, v]) => [normalisePath(k), normalisePath(v)]));
+    this.aliases = new Map(Object.entries(aliases).map(([k, v]) => [normalisePath(k), normalisePath(v)]));
+  }
+
+  normalise(domain: string): string {
+    const path = normalisePath(domain);
+    return this.aliases.get(path) ?? path;
+  }
+
+  parent(domain: string): string | null {
+    return this.parents.get(domain) ?? super.parent(domain);
+  }
+}
+
+export const DEFAULT_TAXONOMY: DomainTaxonomy = new PathTaxonomy();
+
+/**
+ * Parse a domain_restriction parameter. An unknown mode prefix throws.
+ */
+export function parseDomainRestriction(parameter: string, taxonomy: DomainTaxonomy = DEFAULT_TAXONOMY): DomainRestriction {
+  let mode: DomainMatchMode = 'hierarchical';
+  let list = parameter;
+  const prefix = /^\s*([a-z]+)\s*:/i.exec(parameter);
+  if (prefix) {
+    const name = prefix[1].toLowerCase() as DomainMatchMode;
+    if (!MODES.includes(name)) throw new Error(`Unknown domain match mode: ${prefix[1]}`);
+    mode = name;
+    list = parameter.slice(prefix[0].length);
+  }
+  const domains = list
+    .split(',')
+    .map((d) => (mode === 'glob' ? normalisePath(d) : taxonomy.normalise(d)))
+    .filter(Boolean);
+  return { mode, domains };
+}
+
+/**
+ * The domain named by action parameters (domain, category or type), or null.
+ */
+export function actionDomain(parameters: Record<string, unknown>): string | null {
+  const raw = parameters.domain ?? parameters.category ?? parameters.type;
+  if (typeof raw !== 'string') return null;
+  return normalisePath(raw) || null;
+}
+
+/**
+ * The domain followed by its ancestors, nearest first.
+ */
+export function domainLineage(domain: string, taxonomy: DomainTaxonomy = DEFAULT_TAXONOMY): string[] {
+  const lineage = [domain];
+  for (let d = taxonomy.parent(domain); d !== null && lineage.length < MAX_DEPTH; d = taxonomy.parent(d)) {
+    if (lineage.includes(d)) break;
+    lineage.push(d);
+  }
+  return lineage;
+}
+
+const globCache = new LruCache<string, RegExp>(256);
+
+function globRegExp(pattern: string): RegExp {
+  let re = globCache.get(pattern);
+  if (!re) {
+    const body = pattern
+      .split('/')
+      .map((segment) =>
+        segment === '**'
+          ? '\u0000'
+          : segment
+              .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+              .replace(/\*/g, '[^/]*')
+              .replace(/\?/g, '[^/]')
+      )
+      .join('/')
+      // `**` spans zero or more whole segments, including their separators
+      .replace(/\u0000\//g, '(?:[^/]+/)*')
+      .replace(/\/\u0000/g, '(?:/[^/]+)*')
+      .replace(/\u0000/g, '.*');
+    re = new RegExp(`^${body}$`);
+    globCache.set(pattern, re);
+  }
+  return re;
+}
+
+export function hasWildcard(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/**
+ * True if the restriction allows the domain.
+ */
+export function domainAllowed(
+  restriction: DomainRestriction,
+  domain: string,
+  taxonomy: DomainTaxonomy = DEFAULT_TAXONOMY
+): boolean {
+  const d = taxonomy.normalise(domain);
+  if (!d) return false;
+  switch (restriction.mode) {
+    case 'exact':
+      return restriction.domains.includes(d);
+    case 'hierarchical': {
+      const lineage = domainLineage(d, taxonomy);
+      return restriction.domains.some((allowed) => lineage.includes(allowed));
+    }
+    case 'glob':
+      return restriction.domains.some((pattern) => globRegExp(pattern).test(d));
+  }
+}
+
+/**
+ * Entries of the child restriction that allow something the parent does not.
+ * A hierarchical entry covers its descendants, so a glob parent must allow them
+ * through a trailing `/**`; a glob entry is covered by an identical parent
+ * pattern or by a hierarchical parent of its literal prefix.
+ */
+export function restrictionExcess(
+  parent: DomainRestriction,
+  child: DomainRestriction,
+  taxonomy: DomainTaxonomy = DEFAULT_TAXONOMY
+): string[] {
+  return child.domains.filter((d) => {
+    if (child.mode === 'glob' && hasWildcard(d)) {
+      if (parent.mode === 'glob') return !parent.domains.includes(d);
+      if (parent.mode === 'exact') return true;
+      const segments = d.split('/');
+      const literal = segments.slice(0, segments.findIndex((s) => hasWildcard(s))).join('/');
+      return literal === '' || !domainAllowed(parent, literal, taxonomy);
+    }
+    if (!domainAllowed(parent, d, taxonomy)) return true;
+    if (child.mode !== 'hierarchical') return false;
+    if (parent.mode === 'exact') return true;
+    if (parent.mode === 'glob') {
+      const lineage = domainLineage(d, taxonomy);
+      return !parent.domains.some(
+        (p) => p === '**' || (p.endsWith('/**') && lineage.some((a) => globRegExp(p.slice(0, -3)).test(a)))
+      );
+    }
+    return false;
+  });
+}
+
+export interface DomainCheck {
+  allowed: boolean;
+  /** The action's normalised domain, or null if it names none */
+  domain: string | null;
+  restriction: DomainRestriction;
+}
+
+/**
+ * Check action parameters against a domain_restriction parameter. An action that
+ * names no domain is not allowed. Throws if the parameter cannot be parsed.
+ */
+export function evaluateDomainRestriction(
+  parameter: string,
+  parameters: Record<string, unknown>,
+  taxonomy: DomainTaxonomy = DEFAULT_TAXONOMY
+): DomainCheck {
+  const restriction = parseDomainRestriction(parameter, taxonomy);
+  const raw = actionDomain(parameters);
+  const domain = raw === null ? null : taxonomy.normalise(raw);
+  return { allowed: domain !== null && domainAllowed(restriction, domain, taxonomy), domain, restriction };
+}
@@ -5,25 +5,17 @@
 
 import type { AuthorisationEntry, ActionRecord, ScopeCreepPattern } from './types';
 import { generateId } from './hash';
+import { parseMoney, actionMoney, convertMoney, type Money, type RateProvider } from './currency';
+import { DAILY, calendarBucketStart, parseFrequencyLimit, type PeriodDefinition } from './period';
+import type { ConstraintRegistry } from './constraint-registry';
+import { evaluateDomainRestriction, type DomainTaxonomy } from './domain';
+import type { AgentRegistry } from './agent-registry';
 
 const MIN_DATA_POINTS = 3;
 
-function parseNumber(value: unknown): number | null {
-  if (typeof value === 'number' && !Number.isNaN(value)) return value;
-  if (typeof value === 'string') {
-    const n = parseFloat(value);
-    return Number.isNaN(n) ? null : n;
-  }
-  return null;
-}
-
-function getMonetaryValue(parameters: Record<string, unknown>): number | null {
-  return parseNumber(parameters.amount ?? parameters.value ?? parameters.cost);
-}
-
-function getLimitForAuth(auth: AuthorisationEntry, type: string): number | null {
-  const c = auth.constraints.find((x) => x.type === type);
-  return c ? parseNumber(c.parameter) : null;
+function getMonetaryLimit(auth: AuthorisationEntry): Money | null {
+  const c = auth.constraints.find((x) => x.type === 'monetary_limit');
+  return c ? parseMoney(c.parameter) : null;
 }
 
 /**
@@ -31,7 +23,8 @@ function getLimitForAuth(auth: AuthorisationEntry, type: string): number | null
  */
 function detectGradualExpansion(
   authorisations: AuthorisationEntry[],
-  actions: ActionRecord[]
+  actions: ActionRecord[],
+  rateProvider?: RateProvider
 ): ScopeCreepPattern[] {
   const patterns: ScopeCreepPattern[] = [];
   const byAuth = new Map<string, ActionRecord[]>();
@@ -42,12 +35,18 @@ function detectGradualExpansion(
   }
 
   for (const auth of authorisations) {
-    const limit = getLimitForAuth(auth, 'monetary_limit');
-    if (limit === null) continue;
+    const limitMoney = getMonetaryLimit(auth);
+    if (limitMoney === null) continue;
+    const limit = limitMoney.amount;
     const list = (byAuth.get(auth.id) ?? []).slice().sort(
       (x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime()
     );
-    const values = list.map((a) => ({ id: a.id, ts: a.timestamp, v: getMonetaryValue(a.parameters) }))
+    // Amounts are normalised to the limit currency; unconvertible amounts are left out
+    const values = list.map((a) => {
+      const money = actionMoney(a.parameters);
+      const v = money ? convertMoney(money, limitMoney.currency, rateProvider, a.timestamp) : null;
+      return { id: a.id, ts: a.timestamp, v };
+    })
       .filter((x): x is typeof x & { v: number } => x.v !== null);
     if (values.length < MIN_DATA_POINTS) continue;
     const ratios = values.map((x) => x.v / limit);
@@ -62,7 +61,7 @@ function detectGradualExpansion(
       patterns.push({
         id: generateId(),
         pattern_type: 'gradual_expansion',
-        description: `Spending or value creeping toward limit (${limit}) over ${values.length} actions`,
+        description: `Spending or value creeping toward limit (${limitMoney.currency ? `${limit} ${limitMoney.currency}` : limit}) over ${values.length} actions`,
         evidence_ids: values.map((x) => x.id),
         severity: Math.min(0.9, 0.3 + ratios[ratios.length - 1] * 0.5),
         first_detected: values[0].ts,
@@ -75,10 +74,12 @@ function detectGradualExpansion(
 
 /**
  * Detect frequency_escalation: action count per period increasing.
+ * The period is taken from the authorisation's frequency_limit, else the default.
  */
 function detectFrequencyEscalation(
   authorisations: AuthorisationEntry[],
-  actions: ActionRecord[]
+  actions: ActionRecord[],
+  defaultPeriod: PeriodDefinition
 ): ScopeCreepPattern[] {
   const patterns: ScopeCreepPattern[] = [];
   const byAuth = new Map<string, ActionRecord[]>();
@@ -88,8 +89,9 @@ function detectFrequencyEscalation(
     byAuth.set(a.authorisation_id, list);
   }
 
-  const periodMs = 24 * 60 * 60 * 1000; // 1 day
   for (const auth of authorisations) {
+    const frequency = auth.constraints.find((c) => c.type === 'frequency_limit');
+    const period = (frequency && parseFrequencyLimit(frequency.parameter)?.period) || defaultPeriod;
     const list = (byAuth.get(auth.id) ?? []).slice().sort(
       (x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime()
     );
@@ -97,7 +99,7 @@ function detectFrequencyEscalation(
     const buckets = new Map<number, number>();
     for (const a of list) {
       const t = new Date(a.timestamp).getTime();
-      const bucket = Math.floor(t / periodMs) * periodMs;
+      const bucket = calendarBucketStart(period, t);
       buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
     }
     const counts = Array.from(buckets.entries()).sort((a, b) => a[0] - b[0]).map(([, c]) => c);
@@ -113,7 +115,7 @@ function detectFrequencyEscalation(
       patterns.push({
         id: generateId(),
         pattern_type: 'frequency_escalation',
-        description: `Action frequency increasing over time (${counts.join(' → ')} per period)`,
+        description: `Action frequency increasing over time (${counts.join(' → ')} per ${period.label})`,
         evidence_ids: list.slice(-MIN_DATA_POINTS).map((a) => a.id),
         severity: Math.min(0.9, 0.2 + (counts[counts.length - 1] / 10)),
         first_detected: list[0].timestamp,
@@ -126,11 +128,12 @@ function detectFrequencyEscalation(
 
 /**
  * Detect domain_drift: actions increasingly outside original authorised domain.
- * We use constraint parameter as allowed domains and check action parameters.
+ * Uses the same domain matching as the matcher (see domain.ts).
  */
 function detectDomainDrift(
   authorisations: AuthorisationEntry[],
-  actions: ActionRecord[]
+  actions: ActionRecord[],
+  taxonomy?: DomainTaxonomy
 ): ScopeCreepPattern[] {
   const patterns: ScopeCreepPattern[] = [];
   const byAuth = new Map<string, ActionRecord[]>();
@@ -143,17 +146,21 @@ function detectDomainDrift(
   for (const auth of authorisations) {
     const domainConstraint = auth.constraints.find((c) => c.type === 'domain_restriction');
     if (!domainConstraint) continue;
-    const allowed = domainConstraint.parameter.toLowerCase().split(',').map((s) => s.trim());
     const list = (byAuth.get(auth.id) ?? []).slice().sort(
       (x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime()
     );
     if (list.length < MIN_DATA_POINTS) continue;
     const outside: { id: string; ts: string }[] = [];
-    for (const a of list) {
-      const domain = String(a.parameters.domain ?? a.parameters.category ?? a.parameters.type ?? '').toLowerCase();
-      if (!domain) continue;
-      const inDomain = allowed.some((d) => domain.includes(d) || d.includes(domain));
-      if (!inDomain) outside.push({ id: a.id, ts: a.timestamp });
+    let allowed: string[] = [];
+    try {
+      for (const a of list) {
+        const check = evaluateDomainRestriction(domainConstraint.parameter, a.parameters, taxonomy);
+        allowed = check.restriction.domains;
+        if (!check.allowed) outside.push({ id: a.id, ts: a.timestamp });
+      }
+    } catch {
+      // An unparseable restriction is reported by the matcher, not as drift
+      continue;
     }
     if (outside.length >= MIN_DATA_POINTS) {
       patterns.push({
@@ -170,6 +177,50 @@ function detectDomainDrift(
   return patterns;
 }
 
+/**
+ * Registered constraint types that declare a drift pattern: three or more actions
+ * under one authorisation breaking the constraint raise that pattern.
+ */
+function detectRegisteredDrift(
+  authorisations: AuthorisationEntry[],
+  actions: ActionRecord[],
+  registry: ConstraintRegistry,
+  rateProvider?: RateProvider
+): ScopeCreepPattern[] {
+  const patterns: ScopeCreepPattern[] = [];
+  const byAuth = new Map<string, ActionRecord[]>();
+  for (const a of actions) {
+    const list = byAuth.get(a.authorisation_id) ?? [];
+    list.push(a);
+    byAuth.set(a.authorisation_id, list);
+  }
+
+  for (const auth of authorisations) {
+    const list = byAuth.get(auth.id) ?? [];
+    if (list.length < MIN_DATA_POINTS) continue;
+    for (const constraint of auth.constraints) {
+      const drift = registry.get(constraint.type)?.drift;
+      if (!drift) continue;
+      // Each action sees only the actions up to and including it, as in the matcher
+      const outside = list.filter(
+        (a, i) =>
+          registry.evaluate(constraint, a, { authorisation: auth, actions: list.slice(0, i + 1), rateProvider }) !== null
+      );
+      if (outside.length < MIN_DATA_POINTS) continue;
+      patterns.push({
+        id: generateId(),
+        pattern_type: drift,
+        description: `Actions repeatedly breaking ${constraint.type} constraint (${constraint.description})`,
+        evidence_ids: outside.map((a) => a.id),
+        severity: Math.min(0.9, 0.3 + outside.length * 0.1),
+        first_detected: outside[0].timestamp,
+        occurrences: outside.length,
+      });
+    }
+  }
+  return patterns;
+}
+
 /**
  * constraint_erosion: same constraint violated repeatedly with increasing severity.
  * We need match results; drift detector can accept pre-computed violations.
@@ -216,33 +267,59 @@ function detectConstraintErosion(
 
 /**
  * authority_inflation: agent taking actions that would require higher authorisation.
- * Simplified: actions referencing revoked or expired auth, or no auth.
+ * Actions with violations that reference no known authorisation; with an agent
+ * registry, also per agent, actions whose type requires a higher level than it holds.
  */
 function detectAuthorityInflation(
   authorisations: AuthorisationEntry[],
   actions: ActionRecord[],
-  matchStatusByAction: Map<string, string>
+  matchStatusByAction: Map<string, string>,
+  agentRegistry?: AgentRegistry
 ): ScopeCreepPattern[] {
+  const patterns: ScopeCreepPattern[] = [];
   const inflated = actions.filter(
     (a) => ['exceeded', 'revoked', 'expired'].includes(matchStatusByAction.get(a.id) ?? '')
   );
-  if (inflated.length < MIN_DATA_POINTS) return [];
   const authIds = new Set(authorisations.map((x) => x.id));
   const noAuth = inflated.filter((a) => !authIds.has(a.authorisation_id));
   if (noAuth.length >= MIN_DATA_POINTS) {
-    return [
-      {
-        id: generateId(),
-        pattern_type: 'authority_inflation',
-        description: 'Actions without valid authorisation (no auth or exceeded/revoked/expired)',
-        evidence_ids: noAuth.map((a) => a.id),
-        severity: 0.8,
-        first_detected: noAuth[0].timestamp,
-        occurrences: noAuth.length,
-      },
-    ];
+    patterns.push({
+      id: generateId(),
+      pattern_type: 'authority_inflation',
+      description: 'Actions without valid authorisation (no auth or exceeded/revoked/expired)',
+      evidence_ids: noAuth.map((a) => a.id),
+      severity: 0.8,
+      first_detected: noAuth[0].timestamp,
+      occurrences: noAuth.length,
+    });
+  }
+  if (!agentRegistry) return patterns;
+
+  // Each action against the level the agent held when it acted
+  const aboveByAgent = new Map<string, Array<{ action: ActionRecord; level: number }>>();
+  for (const a of actions) {
+    const level = agentRegistry.levelAt(a.agent_id, a.timestamp);
+    if (level === null || agentRegistry.requiredLevel(a.action_type, a.timestamp) <= level) continue;
+    const list = aboveByAgent.get(a.agent_id) ?? [];
+    list.push({ action: a, level });
+    aboveByAgent.set(a.agent_id, list);
+  }
+  for (const [agent_id, above] of aboveByAgent) {
+    if (above.length < MIN_DATA_POINTS) continue;
+    const list = above.map((x) => x.action);
+    const level = Math.min(...above.map((x) => x.level));
+    const highest = Math.max(...new Set(list.map((a) => agentRegistry.requiredLevel(a.action_type, a.timestamp))));
+    patterns.push({
+      id: generateId(),
+      pattern_type: 'authority_inflation',
+      description: `Agent ${agent_id} (authority level ${level}) took ${list.length} actions requiring up to level ${highest}`,
+      evidence_ids: list.map((a) => a.id),
+      severity: Math.min(1, 0.7 + 0.1 * (highest - level)),
+      first_detected: list[0].timestamp,
+      occurrences: list.length,
+    });
   }
-  return [];
+  return patterns;
 }
 
 export interface DriftDetectorInput {
@@ -252,6 +329,16 @@ export interface DriftDetectorInput {
   violationsByAction?: Map<string, { constraint_type: string; severity: string }[]>;
   /** Optional: pre-computed match status per action (for authority_inflation) */
   matchStatusByAction?: Map<string, string>;
+  /** Optional: default bucket period for frequency_escalation (default: one day); see parsePeriod */
+  frequencyPeriod?: PeriodDefinition;
+  /** Optional: converts action amounts into the currency of monetary limits */
+  rateProvider?: RateProvider;
+  /** Optional: resolves parent and alias domains for domain_drift */
+  taxonomy?: DomainTaxonomy;
+  /** Optional: registered constraint types; those declaring a drift pattern are checked */
+  constraintRegistry?: ConstraintRegistry;
+  /** Optional: agent authority levels for authority_inflation */
+  agentRegistry?: AgentRegistry;
 }
 
 /**
@@ -263,14 +350,22 @@ export function detectScopeCreep(input: DriftDetectorInput): ScopeCreepPattern[]
     actions,
     violationsByAction = new Map(),
     matchStatusByAction = new Map(),
+    frequencyPeriod = DAILY,
+    rateProvider,
+    constraintRegistry,
+    taxonomy,
+    agentRegistry,
   } = input;
 
   const all: ScopeCreepPattern[] = [];
-  all.push(...detectGradualExpansion(authorisations, actions));
-  all.push(...detectFrequencyEscalation(authorisations, actions));
-  all.push(...detectDomainDrift(authorisations, actions));
+  all.push(...detectGradualExpansion(authorisations, actions, rateProvider));
+  all.push(...detectFrequencyEscalation(authorisations, actions, frequencyPeriod));
+  all.push(...detectDomainDrift(authorisations, actions, taxonomy));
+  if (constraintRegistry) {
+    all.push(...detectRegisteredDrift(authorisations, actions, constraintRegistry, rateProvider));
+  }
   all.push(...detectConstraintErosion(authorisations, actions, violationsByAction));
-  all.push(...detectAuthorityInflation(authorisations, actions, matchStatusByAction));
+  all.push(...detectAuthorityInflation(authorisations, actions, matchStatusByAction, agentRegistry));
 
   return all.filter((p) => p.evidence_ids.length >= MIN_DATA_POINTS);
 }
@@ -29,6 +29,19 @@ export function generateId(): string {
   return randomBytes(ID_BYTES).toString('hex');
 }
 
+/**
+ * JSON with object keys sorted at every level, so equal values hash equally.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v)).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
 /**
  * Build deterministic payload string for an authorisation entry (excluding hash fields).
  */
@@ -43,7 +56,14 @@ export function authorisationPayload(entry: {
   expires_at: string | null;
   revoked: boolean;
   revoked_at: string | null;
+  parent_authorisation_id?: string;
+  ratification_period?: string;
+  parameter_schema?: unknown;
 }): string {
+  // Optional fields are only appended when set, so payloads of older grants are unchanged
+  const parent = entry.parent_authorisation_id !== undefined ? [entry.parent_authorisation_id] : [];
+  const ratification = entry.ratification_period !== undefined ? [`ratify:${entry.ratification_period}`] : [];
+  const schema = entry.parameter_schema !== undefined ? [`schema:${canonicalJson(entry.parameter_schema)}`] : [];
   const constraintsStr = entry.constraints
     .map((c) => `${c.type}:${c.description}:${c.parameter}`)
     .join('|');
@@ -58,6 +78,40 @@ export function authorisationPayload(entry: {
     entry.expires_at ?? '',
     String(entry.revoked),
     entry.revoked_at ?? '',
+    ...parent,
+    ...ratification,
+    ...schema,
+  ].join('\n');
+}
+
+/**
+ * Build deterministic payload string for an authorisation event (excluding hash fields).
+ */
+export function eventPayload(event: {
+  id: string;
+  timestamp: string;
+  authorisation_id: string;
+  authorisation_hash: string;
+  event_type: string;
+  principal_id: string;
+  reason: string | null;
+  expires_at: string | null;
+  cascaded_from?: string;
+  action_id?: string;
+}): string {
+  const cascade = event.cascaded_from !== undefined ? [event.cascaded_from] : [];
+  const action = event.action_id !== undefined ? [`action:${event.action_id}`] : [];
+  return [
+    event.id,
+    event.timestamp,
+    event.authorisation_id,
+    event.authorisation_hash,
+    event.event_type,
+    event.principal_id,
+    event.reason ?? '',
+    event.expires_at ?? '',
+    ...cascade,
+    ...action,
   ].join('\n');
 }
 
@@ -73,8 +127,11 @@ export function actionPayload(record: {
   description: string;
   parameters: Record<string, unknown>;
   clearpath_trace_id?: string;
+  outcome?: string;
 }): string {
-  const paramsStr = JSON.stringify(record.parameters, Object.keys(record.parameters).sort());
+  const paramsStr = canonicalParameters(record.parameters);
+  // outcome is only appended when set, so payloads of ordinary actions are unchanged
+  const outcome = record.outcome !== undefined ? [record.outcome] : [];
   return [
     record.id,
     record.timestamp,
@@ -84,5 +141,91 @@ export function actionPayload(record: {
     record.description,
     paramsStr,
     record.clearpath_trace_id ?? '',
+    ...outcome,
   ].join('\n');
 }
+
+/**
+ * Canonical JSON for action parameters (sorted keys), as used in action payloads.
+ */
+export function canonicalParameters(parameters: Record<string, unknown>): string {
+  return JSON.stringify(parameters, Object.keys(parameters).sort());
+}
+
+/**
+ * Build deterministic payload string for an approval request or decision (excluding hash fields).
+ */
+export function approvalPayload(record: {
+  id: string;
+  timestamp: string;
+  record_type: string;
+  authorisation_id: string;
+  agent_id?: string;
+  action_type?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  action_id?: string;
+  request_id?: string;
+  approver_id?: string;
+  reason?: string | null;
+}): string {
+  if (record.record_type === 'request') {
+    return [
+      record.id,
+      record.timestamp,
+      record.record_type,
+      record.authorisation_id,
+      record.agent_id ?? '',
+      record.action_type ?? '',
+      record.description ?? '',
+      canonicalParameters(record.parameters ?? {}),
+      record.action_id ?? '',
+    ].join('\n');
+  }
+  return [
+    record.id,
+    record.timestamp,
+    record.record_type,
+    record.authorisation_id,
+    record.request_id ?? '',
+    record.approver_id ?? '',
+    record.reason ?? '',
+  ].join('\n');
+}
+
+/**
+ * Build deterministic payload string for a Merkle checkpoint (excluding hash fields).
+ */
+export function checkpointPayload(checkpoint: {
+  id: string;
+  timestamp: string;
+  authorisation_count: number;
+  authorisation_root: string;
+  action_count: number;
+  action_root: string;
+}): string {
+  return [
+    checkpoint.id,
+    checkpoint.timestamp,
+    String(checkpoint.authorisation_count),
+    checkpoint.authorisation_root,
+    String(checkpoint.action_count),
+    checkpoint.action_root,
+  ].join('\n');
+}
+
+/**
+ * Build deterministic payload string for a chain-head anchor (excluding signature).
+ */
+export function anchorPayload(anchor: {
+  schema: string;
+  principal_id: string;
+  timestamp: string;
+  chains: Record<string, { count: number; head_hash: string }>;
+}): string {
+  const heads = ['authorisation', 'event', 'action', 'approval'].map((chain) => {
+    const head = anchor.chains[chain];
+    return `${chain}:${head.count}:${head.head_hash}`;
+  });
+  return [anchor.schema, anchor.principal_id, anchor.timestamp, ...heads].join('\n');
+}
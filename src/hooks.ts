@@ -0,0 +1,102 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — ledger event hooks
+ * Handlers subscribe to what the ledger records instead of polling it. They run
+ * after the entry is appended, synchronously or as a promise; a handler that
+ * throws or rejects is reported to onHookError and never reaches the ledger.
+ */
+
+import type {
+  AuthorisationEntry,
+  AuthorisationEvent,
+  ActionRecord,
+  ConsentMatch,
+  ScopeCreepPattern,
+  VerifyResult,
+} from './types';
+
+export interface LedgerEventMap {
+  authorised: { authorisation: AuthorisationEntry };
+  /** Once per revoked authorisation; cascaded revocations carry event.cascaded_from */
+  revoked: { authorisation: AuthorisationEntry; event: AuthorisationEvent };
+  /** match is computed when first read, as checkConsent() would return it then */
+  actionRecorded: { action: ActionRecord; match: ConsentMatch };
+  /** An appended action whose match has violations */
+  violation: { action: ActionRecord; match: ConsentMatch };
+  /** Patterns from detectScopeCreep() with evidence not reported before */
+  scopeCreepDetected: { patterns: ScopeCreepPattern[] };
+  /** verify() found the ledger invalid */
+  integrityFailure: { result: VerifyResult };
+}
+
+export type LedgerEventName = keyof LedgerEventMap;
+
+export const LEDGER_EVENTS: readonly LedgerEventName[] = [
+  'authorised',
+  'revoked',
+  'actionRecorded',
+  'violation',
+  'scopeCreepDetected',
+  'integrityFailure',
+];
+
+export type LedgerEventHandler<K extends LedgerEventName> = (payload: LedgerEventMap[K]) => void | Promise<void>;
+
+export type HookErrorHandler = (error: unknown, event: LedgerEventName) => void;
+
+export class LedgerHooks {
+  private handlers = new Map<LedgerEventName, Set<LedgerEventHandler<never>>>();
+  private pending = new Set<Promise<void>>();
+
+  constructor(private readonly onError?: HookErrorHandler) {}
+
+  /** Subscribe; returns a function that unsubscribes */
+  on<K extends LedgerEventName>(event: K, handler: LedgerEventHandler<K>): () => void {
+    if (!LEDGER_EVENTS.includes(event)) throw new Error(`Unknown ledger event: ${event}`);
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as LedgerEventHandler<never>);
+    return () => this.off(event, handler);
+  }
+
+  off<K extends LedgerEventName>(event: K, handler: LedgerEventHandler<K>): void {
+    this.handlers.get(event)?.delete(handler as LedgerEventHandler<never>);
+  }
+
+  has(event: LedgerEventName): boolean {
+    return (this.handlers.get(event)?.size ?? 0) > 0;
+  }
+
+  emit<K extends LedgerEventName>(event: K, payload: LedgerEventMap[K]): void {
+    const set = this.handlers.get(event);
+    if (!set) return;
+    for (const handler of [...set]) {
+      try {
+        const result = (handler as LedgerEventHandler<K>)(payload);
+        if (result && typeof result.then === 'function') {
+          const tracked: Promise<void> = Promise.resolve(result)
+            .catch((error) => this.report(error, event))
+            .finally(() => this.pending.delete(tracked));
+          this.pending.add(tracked);
+        }
+      } catch (error) {
+        this.report(error, event);
+      }
+    }
+  }
+
+  /** Resolves once every async handler started so far has finished */
+  async settled(): Promise<void> {
+    while (this.pending.size > 0) await Promise.all([...this.pending]);
+  }
+
+  private report(error: unknown, event: LedgerEventName): void {
+    try {
+      this.onError?.(error, event);
+    } catch {
+      // An error handler that throws must not break the ledger either
+    }
+  }
+}
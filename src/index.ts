@@ -10,28 +10,234 @@ export { schema } from './types';
 export type {
   ConsentScope,
   ConsentStatus,
+  BuiltinConstraintType,
   ConstraintType,
   ViolationSeverity,
   ConsentConstraint,
   AuthorisationEntry,
+  AuthorisationEventType,
+  AuthorisationEvent,
+  ExpiryChange,
+  ActionOutcome,
   ActionRecord,
+  BudgetUsage,
+  PolicyFailure,
   ConsentViolation,
   ConsentMatch,
   ScopeCreepPatternType,
   ScopeCreepPattern,
+  ApprovalDecisionType,
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalRecord,
+  AnchorChain,
+  ChainHead,
+  LedgerAnchor,
+  AnchorFindingKind,
+  AnchorFinding,
+  MerkleChain,
+  MerkleCheckpoint,
+  InclusionProof,
+  ConsistencyProof,
+  CheckpointConsistency,
+  SignerKey,
   LedgerSnapshot,
+  SignatureFailureReason,
+  SignatureFailure,
+  IntegrityChain,
+  IntegrityFindingKind,
+  IntegrityFinding,
   VerifyResult,
+  VerifyOptions,
   ActionFilters,
+  CheckOptions,
+  PendingRatification,
+  ActionDecisionKind,
+  ActionDecision,
+  EnforcementMode,
+  LedgerOptions,
 } from './types';
 
 export { ConsentLedger } from './consent-ledger';
-export { matchConsent, type MatcherContext } from './matcher';
+export { applyAuthorisationEvent, replayAuthorisations, expiryAt } from './lifecycle';
+export {
+  parsePeriod,
+  parseFrequencyLimit,
+  calendarBucketStart,
+  type PeriodDefinition,
+  type FrequencyLimit,
+  type WindowMode,
+} from './period';
+export {
+  StaticRateProvider,
+  parseMoney,
+  actionMoney,
+  convertMoney,
+  type Money,
+  type RateProvider,
+} from './currency';
+export {
+  parseTimeWindow,
+  evaluateTimeWindow,
+  type TimeWindowSpec,
+  type TimeWindowResult,
+  type RecurringWindow,
+  type AbsoluteWindow,
+  type Blackout,
+  type BlackoutDates,
+} from './time-window';
+export {
+  requestCoversAction,
+  approvalDecisions,
+  assignApprovals,
+  pendingApprovalRequests,
+} from './approval';
+export { delegationAncestors, validateAttenuation } from './delegation';
+export {
+  DEFAULT_RATIFICATION_PERIOD,
+  ratificationDeadline,
+  ratificationDecisions,
+  pendingRatifications,
+  ledgerClock,
+} from './ratification';
+export {
+  parsePolicy,
+  typeCheckPolicy,
+  compilePolicy,
+  evaluatePolicy,
+  type PolicyNode,
+  type PolicyBinaryOperator,
+  type PolicyValueType,
+  type CompiledPolicy,
+  type PolicyResult,
+} from './policy';
+export {
+  PathTaxonomy,
+  StaticTaxonomy,
+  DEFAULT_TAXONOMY,
+  parseDomainRestriction,
+  actionDomain,
+  domainLineage,
+  domainAllowed,
+  hasWildcard,
+  restrictionExcess,
+  evaluateDomainRestriction,
+  type DomainMatchMode,
+  type DomainRestriction,
+  type DomainTaxonomy,
+  type DomainCheck,
+} from './domain';
+export {
+  assertParameterSchema,
+  validateParameters,
+  type ParameterSchema,
+  type ParameterSchemaType,
+  type SchemaFailure,
+} from './parameter-schema';
+export {
+  ConstraintRegistry,
+  BUILTIN_CONSTRAINT_TYPES,
+  type ConstraintTypeDefinition,
+  type ConstraintEvaluationContext,
+  type ConstraintOutcome,
+  type SeverityPolicy,
+} from './constraint-registry';
+export {
+  AgentRegistry,
+  type AgentIdentity,
+  type AgentLevelChange,
+  type AgentRegistration,
+  type AgentRegistryOptions,
+  type AgentStatus,
+  type AgentSuspension,
+} from './agent-registry';
+export { matchConsent, decideAction, type MatcherContext } from './matcher';
 export { detectScopeCreep, type DriftDetectorInput } from './drift-detector';
+export { parseBudget, describeBudget, computeBudgetUsage, summariseBudgetUsage, type Budget } from './budget';
+export { ActionIndex } from './action-index';
 export {
   buildComplianceReport,
+  buildBudgetUtilisation,
   buildAuditReport,
   reportToMarkdown,
   type ComplianceReport,
   type AuditReport,
+  type BudgetUtilisation,
 } from './reporter';
-export { sha256, chainHash, generateId } from './hash';
+export { sha256, chainHash, generateId, canonicalParameters, canonicalJson } from './hash';
+export {
+  ANCHOR_CHAINS,
+  chainHeads,
+  checkAnchors,
+  MemoryAnchorStore,
+  FileAnchorStore,
+  type ChainEntries,
+  type AnchorStore,
+} from './anchor';
+export { runCli, type CliIO } from './cli';
+export { LedgerServer, type LedgerServerOptions, type ServerResult } from './server';
+export {
+  LedgerRegistry,
+  type LedgerRegistryOptions,
+  type AgentActionQuery,
+  type AgentAction,
+  type AgentCompliance,
+  type RegistryComplianceReport,
+  type RegistryVerifyOptions,
+  type RegistryVerifyResult,
+} from './ledger-registry';
+export { openApiDocument } from './openapi';
+export {
+  LedgerHooks,
+  LEDGER_EVENTS,
+  type LedgerEventMap,
+  type LedgerEventName,
+  type LedgerEventHandler,
+  type HookErrorHandler,
+} from './hooks';
+export {
+  WebhookDispatcher,
+  type WebhookOptions,
+  type WebhookBody,
+  type WebhookDelivery,
+} from './webhook';
+export {
+  MemoryStorageAdapter,
+  FileStorageAdapter,
+  parseStoredRecord,
+  type StorageAdapter,
+  type StoredRecord,
+  type StoredRecordKind,
+  type StorageLoadResult,
+  type StorageReport,
+  type TornRecord,
+  type FsyncMode,
+  type FileStorageOptions,
+} from './storage';
+export {
+  StreamingVerifier,
+  verifyStream,
+  verifyLedgerFile,
+  type StreamFormat,
+  type StreamProgress,
+  type StreamVerifyOptions,
+  type StreamVerifyResult,
+} from './stream';
+export {
+  EMPTY_ROOT,
+  leafHash,
+  merkleRoot,
+  inclusionPath,
+  consistencyPath,
+  MerkleFrontier,
+  rootFromInclusionPath,
+  verifyInclusion,
+  verifyConsistency,
+} from './merkle';
+export {
+  generateSigningKeyPair,
+  signPayload,
+  verifyPayload,
+  type KeyInput,
+  type SignOptions,
+} from './signing';
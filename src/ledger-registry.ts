@@ -0,0 +1,331 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — multi-principal registry
+ * Each ledger belongs to one principal; an agent acting for many principals
+ * leaves its actions in many ledgers. The registry holds the ledgers, indexes
+ * their authorisations and actions by agent_id as they are appended, and
+ * aggregates compliance and verification across all of them.
+ */
+
+import type {
+  ActionRecord,
+  ConsentMatch,
+  ConsentStatus,
+  LedgerAnchor,
+  LedgerOptions,
+  SignerKey,
+  VerifyResult,
+} from './types';
+import { schema } from './types';
+import { ConsentLedger } from './consent-ledger';
+import type { ComplianceReport } from './reporter';
+import type { StorageAdapter } from './storage';
+import { canonicalJson, sha256 } from './hash';
+import { merkleRoot } from './merkle';
+
+export interface LedgerRegistryOptions {
+  /** Storage for a principal's ledger opened by ledger(); without it ledgers live in memory */
+  storage?: (principal_id: string) => StorageAdapter;
+  ledgerOptions?: LedgerOptions | ((principal_id: string) => LedgerOptions);
+  /** Called once per ledger opened by ledger(), e.g. to attach hooks */
+  onLedgerOpened?: (ledger: ConsentLedger, principal_id: string) => void;
+}
+
+export interface AgentActionQuery {
+  principal_id?: string;
+  action_type?: string;
+  status?: ConsentStatus;
+  /** Inclusive ISO 8601 lower bound on the action timestamp */
+  since?: string;
+  /** Exclusive ISO 8601 upper bound on the action timestamp */
+  until?: string;
+}
+
+export interface AgentAction {
+  principal_id: string;
+  action: ActionRecord;
+  match: ConsentMatch;
+}
+
+export interface AgentCompliance {
+  agent_id: string;
+  /** Principals with an authorisation for or an action by the agent */
+  principals: number;
+  actions: number;
+  actions_with_violations: number;
+  principals_violated: string[];
+}
+
+export interface RegistryComplianceReport {
+  schema: typeof schema;
+  generated_at: string;
+  principals: number;
+  /** Per-principal summaries added together */
+  summary: ComplianceReport['summary'];
+  violations_summary: ComplianceReport['violations_summary'];
+  scope_creep_patterns: number;
+  integrity: { valid: number; invalid: string[] };
+  agents: AgentCompliance[];
+  by_principal: Record<string, ComplianceReport>;
+}
+
+export interface RegistryVerifyOptions {
+  /** Anchors per principal, checked as by verify({ anchors }) */
+  anchors?: Record<string, LedgerAnchor[]>;
+  keys?: SignerKey[];
+}
+
+export interface RegistryVerifyResult {
+  valid: boolean;
+  principals_checked: number;
+  /** Principals whose ledger failed verification */
+  invalid: string[];
+  /** Same as root(): one value that covers every ledger's chain heads */
+  root: string;
+  results: Record<string, VerifyResult>;
+}
+
+interface Registered {
+  ledger: ConsentLedger;
+  unsubscribe: Array<() => void>;
+}
+
+function parseBound(name: string, value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const t = Date.parse(value);
+  if (Number.isNaN(t)) throw new Error(`Invalid ${name}: ${value}`);
+  return t;
+}
+
+export class LedgerRegistry {
+  private ledgers = new Map<string, Registered>();
+  /** Actions per agent across ledgers, in append order within each ledger */
+  private actionsByAgent = new Map<string, Array<{ principal_id: string; action: ActionRecord }>>();
+  private principalsByAgent = new Map<string, Set<string>>();
+
+  constructor(private readonly options: LedgerRegistryOptions = {}) {}
+
+  /**
+   * The principal's ledger, opened (from storage, when configured) on first use.
+   */
+  ledger(principal_id: string): ConsentLedger {
+    const existing = this.ledgers.get(principal_id);
+    if (existing) return existing.ledger;
+    const configured = this.options.ledgerOptions;
+    const ledgerOptions = typeof configured === 'function' ? configured(principal_id) : configured;
+    const storage = this.options.storage?.(principal_id);
+    const ledger = storage
+      ? ConsentLedger.open(storage, principal_id, ledgerOptions)
+      : new ConsentLedger(principal_id, ledgerOptions);
+    this.add(ledger);
+    this.options.onLedgerOpened?.(ledger, principal_id);
+    return ledger;
+  }
+
+  /**
+   * Register a ledger created elsewhere and index what it already holds.
+   */
+  add(ledger: ConsentLedger): ConsentLedger {
+    const principal_id = ledger.principal_id;
+    if (this.ledgers.has(principal_id)) throw new Error(`Principal already registered: ${principal_id}`);
+    for (const a of ledger.getAuthorisations()) this.notePrincipal(a.agent_id, principal_id);
+    for (const action of ledger.getActions()) this.indexAction(principal_id, action);
+    // Indexing reads only the action, so the lazily computed match is never forced
+    const unsubscribe = [
+      ledger.on('authorised', ({ authorisation }) => this.notePrincipal(authorisation.agent_id, principal_id)),
+      ledger.on('actionRecorded', ({ action }) => this.indexAction(principal_id, action)),
+    ];
+    this.ledgers.set(principal_id, { ledger, unsubscribe });
+    return ledger;
+  }
+
+  get(principal_id: string): ConsentLedger | null {
+    return this.ledgers.get(principal_id)?.ledger ?? null;
+  }
+
+  has(principal_id: string): boolean {
+    return this.ledgers.has(principal_id);
+  }
+
+  /** Registered principals, sorted */
+  principals(): string[] {
+    return [...this.ledgers.keys()].sort();
+  }
+
+  /**
+   * Stop tracking a ledger and drop it from the agent indexes. The ledger itself
+   * is left open and unchanged.
+   */
+  remove(principal_id: string): boolean {
+    const registered = this.ledgers.get(principal_id);
+    if (!registered) return false;
+    registered.unsubscribe.forEach((off) => off());
+    this.ledgers.delete(principal_id);
+    for (const [agent_id, list] of this.actionsByAgent) {
+      const kept = list.filter((x) => x.principal_id !== principal_id);
+      if (kept.length > 0) this.actionsByAgent.set(agent_id, kept);
+      else this.actionsByAgent.delete(agent_id);
+    }
+    for (const [agent_id, principals] of this.principalsByAgent) {
+      principals.delete(principal_id);
+      if (principals.size === 0) this.principalsByAgent.delete(agent_id);
+    }
+    return true;
+  }
+
+  /** Close every ledger (and its storage) and empty the registry */
+  close(): void {
+    for (const principal_id of this.principals()) {
+      const { ledger } = this.ledgers.get(principal_id)!;
+      this.remove(principal_id);
+      ledger.close();
+    }
+  }
+
+  /** Every agent with an authorisation or action in any ledger, sorted */
+  agents(): string[] {
+    return [...this.principalsByAgent.keys()].sort();
+  }
+
+  /** Principals the agent holds an authorisation from or has acted for, sorted */
+  agentPrincipals(agent_id: string): string[] {
+    return [...(this.principalsByAgent.get(agent_id) ?? [])].sort();
+  }
+
+  /**
+   * The agent's actions across every ledger with their matches, oldest first.
+   */
+  agentActions(agent_id: string, query?: AgentActionQuery): AgentAction[] {
+    const since = parseBound('since', query?.since);
+    const until = parseBound('until', query?.until);
+    const result: AgentAction[] = [];
+    for (const { principal_id, action } of this.actionsByAgent.get(agent_id) ?? []) {
+      if (query?.principal_id !== undefined && principal_id !== query.principal_id) continue;
+      if (query?.action_type !== undefined && action.action_type !== query.action_type) continue;
+      const t = Date.parse(action.timestamp);
+      if ((since !== null && t < since) || (until !== null && t >= until)) continue;
+      const match = this.ledgers.get(principal_id)!.ledger.checkConsent(action.id);
+      if (query?.status !== undefined && match.status !== query.status) continue;
+      result.push({ principal_id, action, match });
+    }
+    return result.sort((a, b) => Date.parse(a.action.timestamp) - Date.parse(b.action.timestamp));
+  }
+
+  /** The agent's actions that have violations, across every ledger */
+  agentViolations(agent_id: string, query?: AgentActionQuery): AgentAction[] {
+    return this.agentActions(agent_id, query).filter((x) => x.match.violations.length > 0);
+  }
+
+  /** Principals for whom the agent has at least one action with violations, sorted */
+  violatedPrincipals(agent_id: string): string[] {
+    return [...new Set(this.agentViolations(agent_id).map((x) => x.principal_id))].sort();
+  }
+
+  /**
+   * Compliance across every ledger: per-principal reports, their totals, and a
+   * summary per agent.
+   */
+  complianceReport(): RegistryComplianceReport {
+    const by_principal: Record<string, ComplianceReport> = {};
+    const report: RegistryComplianceReport = {
+      schema,
+      generated_at: new Date().toISOString(),
+      principals: this.ledgers.size,
+      summary: {
+        total_authorisations: 0,
+        active_authorisations: 0,
+        total_actions: 0,
+        within_bounds: 0,
+        exceeded: 0,
+        revoked: 0,
+        expired: 0,
+        pending_ratification: 0,
+        denied: 0,
+        no_authorisation: 0,
+      },
+      violations_summary: { critical: 0, major: 0, minor: 0 },
+      scope_creep_patterns: 0,
+      integrity: { valid: 0, invalid: [] },
+      agents: [],
+      by_principal,
+    };
+    for (const principal_id of this.principals()) {
+      const compliance = this.ledgers.get(principal_id)!.ledger.getComplianceReport();
+      by_principal[principal_id] = compliance;
+      for (const key of Object.keys(report.summary) as Array<keyof ComplianceReport['summary']>) {
+        report.summary[key] += compliance.summary[key];
+      }
+      for (const key of ['critical', 'major', 'minor'] as const) {
+        report.violations_summary[key] += compliance.violations_summary[key];
+      }
+      report.scope_creep_patterns += compliance.scope_creep_patterns;
+      if (compliance.integrity?.valid === false) report.integrity.invalid.push(principal_id);
+      else report.integrity.valid++;
+    }
+    report.agents = this.agents().map((agent_id) => {
+      const actions = this.agentActions(agent_id);
+      const violating = actions.filter((x) => x.match.violations.length > 0);
+      return {
+        agent_id,
+        principals: this.principalsByAgent.get(agent_id)!.size,
+        actions: actions.length,
+        actions_with_violations: violating.length,
+        principals_violated: [...new Set(violating.map((x) => x.principal_id))].sort(),
+      };
+    });
+    return report;
+  }
+
+  /**
+   * Merkle root over every ledger's chain heads, ordered by principal_id. Record
+   * it to anchor all ledgers at once; any change to any ledger changes it.
+   */
+  root(): string {
+    return merkleRoot(
+      this.principals().map((principal_id) =>
+        sha256(canonicalJson({ principal_id, chains: this.ledgers.get(principal_id)!.ledger.anchor().chains }))
+      )
+    );
+  }
+
+  /**
+   * Verify every ledger. Valid only if each one is.
+   */
+  verify(options?: RegistryVerifyOptions): RegistryVerifyResult {
+    const results: Record<string, VerifyResult> = {};
+    const invalid: string[] = [];
+    for (const principal_id of this.principals()) {
+      const result = this.ledgers.get(principal_id)!.ledger.verify({
+        anchors: options?.anchors?.[principal_id],
+        keys: options?.keys,
+      });
+      results[principal_id] = result;
+      if (!result.valid) invalid.push(principal_id);
+    }
+    return {
+      valid: invalid.length === 0,
+      principals_checked: this.ledgers.size,
+      invalid,
+      root: this.root(),
+      results,
+    };
+  }
+
+  private notePrincipal(agent_id: string, principal_id: string): void {
+    let principals = this.principalsByAgent.get(agent_id);
+    if (!principals) {
+      principals = new Set();
+      this.principalsByAgent.set(agent_id, principals);
+    }
+    principals.add(principal_id);
+  }
+
+  private indexAction(principal_id: string, action: ActionRecord): void {
+    this.notePrincipal(action.agent_id, principal_id);
+    let list = this.actionsByAgent.get(action.agent_id);
+    if (!list) {
+      list = [];
+      this.actionsByAgent.set(action.agent_id, list);
+    }
+    list.push({ principal_id, action });
+  }
+}
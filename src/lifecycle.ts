@@ -0,0 +1,60 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — authorisation lifecycle replay
+ * Current authorisation state is derived from the immutable grant plus its events.
+ */
+
+import type { AuthorisationEntry, AuthorisationEvent } from './types';
+
+/**
+ * Apply a single lifecycle event to an authorisation state. Returns a new object.
+ */
+export function applyAuthorisationEvent(
+  entry: AuthorisationEntry,
+  event: AuthorisationEvent
+): AuthorisationEntry {
+  switch (event.event_type) {
+    case 'revocation':
+      if (entry.revoked) return entry;
+      return { ...entry, revoked: true, revoked_at: event.timestamp };
+    case 'expiry_change':
+      return {
+        ...entry,
+        expires_at: event.expires_at,
+        expiry_changes: [
+          ...(entry.expiry_changes ?? []),
+          { changed_at: event.timestamp, previous_expires_at: entry.expires_at, expires_at: event.expires_at },
+        ],
+      };
+    default:
+      return entry;
+  }
+}
+
+/**
+ * The expiry in force at the timestamp, so later changes never re-judge earlier actions.
+ */
+export function expiryAt(entry: AuthorisationEntry, timestamp: string): string | null {
+  const changes = entry.expiry_changes ?? [];
+  const t = new Date(timestamp).getTime();
+  let expiry = changes.length > 0 ? changes[0].previous_expires_at : entry.expires_at;
+  for (const c of changes) {
+    if (new Date(c.changed_at).getTime() <= t) expiry = c.expires_at;
+  }
+  return expiry;
+}
+
+/**
+ * Replay events over their grants, in chain order. Events for unknown
+ * authorisations are ignored (verify() reports them).
+ */
+export function replayAuthorisations(
+  authorisations: AuthorisationEntry[],
+  events: AuthorisationEvent[]
+): AuthorisationEntry[] {
+  const state = new Map(authorisations.map((a) => [a.id, a]));
+  for (const e of events) {
+    const current = state.get(e.authorisation_id);
+    if (current) state.set(e.authorisation_id, applyAuthorisationEvent(current, e));
+  }
+  return authorisations.map((a) => state.get(a.id) ?? a);
+}
@@ -0,0 +1,36 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — bounded least-recently-used cache
+ * Used for module-level caches keyed by caller-supplied strings (policy source,
+ * glob patterns, time zones), so a stream of distinct keys cannot grow memory.
+ */
+
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly capacity: number) {
+    if (!(Number.isInteger(capacity) && capacity > 0)) throw new Error(`Invalid capacity: ${capacity}`);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Map iteration follows insertion order: re-inserting marks the key most recent
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): this {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+    return this;
+  }
+}
@@ -4,43 +4,101 @@
 
 import type {
   AuthorisationEntry,
+  AuthorisationEvent,
+  ApprovalDecision,
   ActionRecord,
+  ActionDecisionKind,
   ConsentMatch,
   ConsentViolation,
   ConsentStatus,
   ConsentConstraint,
+  BudgetUsage,
 } from './types';
 import { schema } from './types';
+import { parseFrequencyLimit, inWindow, type FrequencyLimit } from './period';
+import { parseMoney, actionMoney, convertMoney, type Money, type RateProvider } from './currency';
+import { parseBudget, describeBudget, computeBudgetUsage, type Budget } from './budget';
+import { delegationAncestors } from './delegation';
+import { ratificationDeadline } from './ratification';
+import { expiryAt } from './lifecycle';
+import { parseTimeWindow, evaluateTimeWindow, type TimeWindowSpec } from './time-window';
+import { ConstraintRegistry } from './constraint-registry';
+import { compilePolicy, evaluatePolicy, type CompiledPolicy } from './policy';
+import { validateParameters } from './parameter-schema';
+import { evaluateDomainRestriction, type DomainCheck, type DomainTaxonomy } from './domain';
+import type { ActionIndex } from './action-index';
+import type { AgentRegistry } from './agent-registry';
 
 const GENESIS = '0';
+const EMPTY_REGISTRY = new ConstraintRegistry();
 
 function isoNow(): string {
   return new Date().toISOString();
 }
 
-function parseNumber(value: unknown): number | null {
-  if (typeof value === 'number' && !Number.isNaN(value)) return value;
-  if (typeof value === 'string') {
-    const n = parseFloat(value);
-    return Number.isNaN(n) ? null : n;
-  }
-  return null;
+function formatMoney(amount: number, currency: string | null): string {
+  const rounded = Math.round(amount * 100) / 100;
+  return currency ? `${rounded} ${currency}` : String(rounded);
+}
+
+/** Why convertMoney() could not express the amount in the target currency */
+function unconvertible(money: Money, target: string | null): string {
+  return money.currency === null
+    ? `${formatMoney(money.amount, null)} (no currency)`
+    : `${formatMoney(money.amount, money.currency)} (no ${money.currency}/${target} rate)`;
+}
+
+/** Spending is positive; a zero or negative amount would pass limits or offset a budget */
+function nonPositiveAmount(constraint: ConsentConstraint, money: Money): ConsentViolation | null {
+  if (money.amount > 0) return null;
+  return {
+    constraint_type: constraint.type,
+    expected: 'positive amount',
+    actual: formatMoney(money.amount, money.currency),
+    severity: money.amount < 0 ? 'critical' : 'major',
+    description: constraint.description,
+  };
 }
 
 function checkMonetaryLimit(
   constraint: ConsentConstraint,
-  parameters: Record<string, unknown>
+  action: ActionRecord,
+  rateProvider?: RateProvider
 ): ConsentViolation | null {
-  const limit = parseNumber(constraint.parameter);
-  if (limit === null) return null;
-  const amount = parseNumber(parameters.amount ?? parameters.value ?? parameters.cost);
-  if (amount === null) return null;
-  if (amount > limit) {
+  const limit = parseMoney(constraint.parameter);
+  if (limit === null) {
+    // A limit that cannot be interpreted must not read as "no limit"
+    return {
+      constraint_type: 'monetary_limit',
+      expected: 'valid monetary limit',
+      actual: constraint.parameter,
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  const money = actionMoney(action.parameters);
+  if (money === null) return null;
+  const invalid = nonPositiveAmount(constraint, money);
+  if (invalid) return invalid;
+  const amount = convertMoney(money, limit.currency, rateProvider, action.timestamp);
+  if (amount === null) {
+    return {
+      constraint_type: 'monetary_limit',
+      expected: `≤ ${constraint.parameter} (convertible to ${limit.currency})`,
+      actual: unconvertible(money, limit.currency),
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  if (amount > limit.amount) {
+    const converted = money.currency !== null && limit.currency !== null && money.currency !== limit.currency;
     return {
       constraint_type: 'monetary_limit',
       expected: `≤ ${constraint.parameter}`,
-      actual: String(amount),
-      severity: amount > limit * 1.5 ? 'critical' : 'major',
+      actual: converted
+        ? `${formatMoney(money.amount, money.currency)} (≈ ${formatMoney(amount, limit.currency)})`
+        : String(money.amount),
+      severity: amount > limit.amount * 1.5 ? 'critical' : 'major',
       description: constraint.description,
     };
   }
@@ -49,17 +107,26 @@ function checkMonetaryLimit(
 
 function checkDomainRestriction(
   constraint: ConsentConstraint,
-  parameters: Record<string, unknown>
+  parameters: Record<string, unknown>,
+  taxonomy?: DomainTaxonomy
 ): ConsentViolation | null {
-  const allowed = constraint.parameter.toLowerCase().split(',').map((s) => s.trim());
-  const domain = String(parameters.domain ?? parameters.category ?? parameters.type ?? '').toLowerCase();
-  if (!domain) return null;
-  const inDomain = allowed.some((d) => domain.includes(d) || d.includes(domain));
-  if (!inDomain) {
+  let check: DomainCheck;
+  try {
+    check = evaluateDomainRestriction(constraint.parameter, parameters, taxonomy);
+  } catch (err) {
     return {
       constraint_type: 'domain_restriction',
-      expected: allowed.join(', '),
-      actual: domain,
+      expected: 'valid domain restriction',
+      actual: (err as Error).message,
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  if (!check.allowed) {
+    return {
+      constraint_type: 'domain_restriction',
+      expected: `${check.restriction.mode}: ${check.restriction.domains.join(', ')}`,
+      actual: check.domain ?? 'none',
       severity: 'major',
       description: constraint.description,
     };
@@ -71,36 +138,43 @@ function checkTimeWindow(
   constraint: ConsentConstraint,
   actionTimestamp: string
 ): ConsentViolation | null {
-  // parameter e.g. "2024-01-01/2024-12-31" or "09:00/17:00"
-  const [start, end] = constraint.parameter.split('/').map((s) => s.trim());
-  if (!start || !end) return null;
-  const t = new Date(actionTimestamp).getTime();
-  const startDate = new Date(start).getTime();
-  const endDate = new Date(end).getTime();
-  if (!Number.isNaN(startDate) && !Number.isNaN(endDate)) {
-    if (t < startDate || t > endDate) {
-      return {
-        constraint_type: 'time_window',
-        expected: `${start} – ${end}`,
-        actual: actionTimestamp,
-        severity: 'major',
-        description: constraint.description,
-      };
-    }
+  // parameter e.g. "2024-01-01/2024-12-31", "09:00/17:00" or "Mon-Fri 09:00-17:00 Europe/London; except 2026-12-25"
+  let spec: TimeWindowSpec;
+  try {
+    spec = parseTimeWindow(constraint.parameter);
+  } catch (err) {
+    // A window that cannot be interpreted must not read as "no restriction"
+    return {
+      constraint_type: 'time_window',
+      expected: 'valid time window',
+      actual: (err as Error).message,
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  const result = evaluateTimeWindow(spec, new Date(actionTimestamp).getTime());
+  if (!result.allowed) {
+    return {
+      constraint_type: 'time_window',
+      expected: constraint.parameter.trim(),
+      actual: `${actionTimestamp} (${result.reason})`,
+      severity: 'major',
+      description: constraint.description,
+    };
   }
   return null;
 }
 
 function checkApprovalRequired(
   constraint: ConsentConstraint,
-  parameters: Record<string, unknown>
+  approval: ApprovalDecision | undefined
 ): ConsentViolation | null {
-  const approved = parameters.approval_obtained ?? parameters.approved;
-  if (approved !== true && approved !== 'true') {
+  // Only approvals recorded in the ledger count; flags in the action's parameters are ignored
+  if (!approval) {
     return {
       constraint_type: 'approval_required',
-      expected: 'approval obtained',
-      actual: String(approved ?? 'none'),
+      expected: 'approval recorded before action',
+      actual: 'none',
       severity: 'major',
       description: constraint.description,
     };
@@ -129,54 +203,319 @@ function checkRecipientRestriction(
 }
 
 function checkFrequencyLimit(
-  _constraint: ConsentConstraint,
-  _parameters: Record<string, unknown>,
-  context: { actionCountForAuthInPeriod?: number; limit?: number }
+  constraint: ConsentConstraint,
+  action: ActionRecord,
+  context: {
+    actionsForAuth?: ActionRecord[];
+    actionCountForAuthInPeriod?: number;
+    limit?: number;
+    indexedCount?: (limit: FrequencyLimit) => number | null;
+  }
 ): ConsentViolation | null {
-  const limit = context.limit ?? parseNumber(_constraint.parameter);
-  const count = context.actionCountForAuthInPeriod ?? 0;
-  if (limit === null || limit === undefined) return null;
+  const parsed = parseFrequencyLimit(constraint.parameter);
+  if (!parsed) {
+    // A limit that cannot be interpreted must not read as "no limit"
+    return {
+      constraint_type: 'frequency_limit',
+      expected: 'valid frequency limit',
+      actual: constraint.parameter,
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  const limit = context.limit ?? parsed.limit;
+  let count = context.actionCountForAuthInPeriod ?? 0;
+  const indexed = context.indexedCount?.(parsed) ?? null;
+  if (indexed !== null) {
+    count = indexed;
+  } else if (context.actionsForAuth) {
+    // Count performed actions up to and including this one (chain order) inside the window ending at it
+    const end = new Date(action.timestamp).getTime();
+    count = 0;
+    for (const a of context.actionsForAuth) {
+      if (a.outcome !== 'denied' && inWindow(parsed, new Date(a.timestamp).getTime(), end)) count++;
+      if (a.id === action.id) break;
+    }
+  }
   if (count > limit) {
     return {
       constraint_type: 'frequency_limit',
-      expected: `≤ ${limit} in period`,
+      expected: `≤ ${limit} per ${parsed.period.label} (${parsed.window})`,
       actual: String(count),
       severity: count > limit * 2 ? 'critical' : 'major',
-      description: _constraint.description,
+      description: constraint.description,
     };
   }
   return null;
 }
 
-function checkCustom(
+function checkBudget(
   constraint: ConsentConstraint,
-  action: ActionRecord
+  action: ActionRecord,
+  actionsForAuth: ActionRecord[] | undefined,
+  rateProvider?: RateProvider,
+  carried?: number,
+  indexedUsage?: (budget: Budget) => (BudgetUsage & { unconverted: number }) | null
 ): ConsentViolation | null {
-  const descMatch = action.description.toLowerCase().includes(constraint.description.toLowerCase());
-  if (!descMatch) {
+  const budget = parseBudget(constraint.parameter);
+  if (!budget) {
+    // A budget that cannot be interpreted must not read as "no budget"
     return {
-      constraint_type: 'custom',
-      expected: constraint.description,
-      actual: action.description,
-      severity: 'minor',
+      constraint_type: 'budget',
+      expected: 'valid budget',
+      actual: constraint.parameter,
+      severity: 'major',
       description: constraint.description,
     };
   }
+  const money = actionMoney(action.parameters);
+  if (money === null) return null;
+  const invalid = nonPositiveAmount(constraint, money);
+  if (invalid) return invalid;
+  if (convertMoney(money, budget.limit.currency, rateProvider, action.timestamp) === null) {
+    return {
+      constraint_type: 'budget',
+      expected: `${describeBudget(budget)} (convertible to ${budget.limit.currency})`,
+      actual: unconvertible(money, budget.limit.currency),
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  const usage = indexedUsage?.(budget) ?? computeBudgetUsage(
+    budget,
+    actionsForAuth && actionsForAuth.some((a) => a.id === action.id) ? actionsForAuth : [action],
+    new Date(action.timestamp).getTime(),
+    rateProvider,
+    action.id,
+    budget.period ? 0 : carried
+  );
+  if (usage.overspend > 0) {
+    const { unconverted: _unconverted, ...budgetUsage } = usage;
+    return {
+      constraint_type: 'budget',
+      expected: `≤ ${describeBudget(budget)}`,
+      actual: `${formatMoney(usage.spent, usage.currency)} spent (overspend ${formatMoney(usage.overspend, usage.currency)})`,
+      severity: usage.overspend > budget.limit.amount * 0.5 ? 'critical' : 'major',
+      description: constraint.description,
+      budget: budgetUsage,
+    };
+  }
   return null;
 }
 
+function checkPolicy(
+  constraint: ConsentConstraint,
+  action: ActionRecord
+): ConsentViolation | null {
+  let policy: CompiledPolicy;
+  try {
+    policy = compilePolicy(constraint.parameter);
+  } catch (err) {
+    return {
+      constraint_type: 'policy',
+      expected: 'valid policy expression',
+      actual: (err as Error).message,
+      severity: 'major',
+      description: constraint.description,
+    };
+  }
+  const result = evaluatePolicy(policy, action);
+  if (!result.failure) return null;
+  const { expression, values, reason } = result.failure;
+  const shown = Object.entries(values).map(([name, value]) => `${name} = ${JSON.stringify(value)}`);
+  return {
+    constraint_type: 'policy',
+    expected: expression,
+    actual: reason ?? (shown.length > 0 ? shown.join(', ') : 'false'),
+    severity: 'major',
+    description: constraint.description,
+    policy: result.failure,
+  };
+}
+
+function checkParameterSchema(authorisation: AuthorisationEntry, action: ActionRecord): ConsentViolation[] {
+  if (!authorisation.parameter_schema) return [];
+  return validateParameters(authorisation.parameter_schema, action.parameters).map((f) => ({
+    constraint_type: 'parameter_schema',
+    expected: `${f.keyword}: ${f.expected}`,
+    actual: f.actual,
+    severity: 'major' as const,
+    description: `Parameter ${f.path || '(root)'} does not match the authorisation's schema`,
+    path: f.path,
+  }));
+}
+
+function actionsUpTo(actions: ActionRecord[] | undefined, action: ActionRecord): ActionRecord[] {
+  const i = actions ? actions.findIndex((a) => a.id === action.id) : -1;
+  return i >= 0 ? actions!.slice(0, i + 1) : [action];
+}
+
 export interface MatcherContext {
+  /**
+   * Actions per authorisation in chain order, including actions under delegated
+   * descendants; used for windowed frequency limits and budgets
+   */
+  actionsByAuthorisation?: Map<string, ActionRecord[]>;
+  /** Answers window counts and budget totals without scanning actionsByAuthorisation */
+  actionIndex?: ActionIndex;
+  /** Fallback pre-computed count when actionsByAuthorisation is not supplied */
   actionCountByAuthorisationInPeriod?: Map<string, number>;
   frequencyLimitByConstraint?: Map<string, number>;
+  /** Converts action amounts into the currency of monetary constraints */
+  rateProvider?: RateProvider;
+  /**
+   * Spend under lifetime budgets from actions already dropped from
+   * actionsByAuthorisation, by authorisation ID and budget parameter
+   */
+  budgetCarried?: Map<string, Map<string, number>>;
+  /** Current authorisation state by ID; needed to walk delegation chains */
+  authorisationsById?: Map<string, AuthorisationEntry>;
+  /** Latest ratification or rejection per emergency action */
+  ratificationsByAction?: Map<string, AuthorisationEvent>;
+  /** Approval assigned to each action (see assignApprovals) */
+  approvalsByAction?: Map<string, ApprovalDecision>;
+  /** Resolves parent and alias domains for domain restrictions */
+  taxonomy?: DomainTaxonomy;
+  /** Evaluators for constraint types that are not built in */
+  constraintRegistry?: ConstraintRegistry;
+  /** When set, actions by unknown or suspended agents, or above the agent's authority level, are violations */
+  agentRegistry?: AgentRegistry;
+  /** Evaluation time for ratification deadlines (ISO); without it unratified actions are never overdue */
+  now?: string;
 }
 
 /**
  * Compare a single action against its authorisation and return a ConsentMatch.
+ * Attempts refused by the enforcement gate keep their violations but report status 'denied'.
  */
 export function matchConsent(
   authorisation: AuthorisationEntry | null,
   action: ActionRecord,
   context?: MatcherContext
+): ConsentMatch {
+  const match = evaluateAction(authorisation, action, context);
+  return action.outcome === 'denied' ? { ...match, status: 'denied' } : match;
+}
+
+/**
+ * Gate decision for a proposed action from its match: approval-only violations
+ * need approval, any other violation denies. Emergency actions are allowed
+ * pending ratification.
+ */
+export function decideAction(match: ConsentMatch): ActionDecisionKind {
+  if (match.violations.length === 0) return 'allow';
+  if (match.violations.every((v) => v.constraint_type === 'approval_required')) return 'needs_approval';
+  return 'deny';
+}
+
+function lifecycleMatch(
+  authorisation: AuthorisationEntry,
+  action: ActionRecord,
+  inheritedBy: string | null
+): { status: ConsentStatus; violation: ConsentViolation } | null {
+  const subject = inheritedBy ? `parent authorisation ${authorisation.id}` : 'authorisation';
+  if (
+    authorisation.revoked &&
+    (!authorisation.revoked_at || new Date(authorisation.revoked_at) <= new Date(action.timestamp))
+  ) {
+    return {
+      status: 'revoked',
+      violation: {
+        constraint_type: 'revocation',
+        expected: 'active authorisation',
+        actual: `revoked at ${authorisation.revoked_at}`,
+        severity: 'critical',
+        description: `Action performed after ${subject} was revoked`,
+      },
+    };
+  }
+  // Judged against the expiry in force when the action was taken, as revocations are
+  const expires_at = expiryAt(authorisation, action.timestamp);
+  if (expires_at && new Date(expires_at) < new Date(action.timestamp)) {
+    return {
+      status: 'expired',
+      violation: {
+        constraint_type: 'expiry',
+        expected: `valid before ${expires_at}`,
+        actual: action.timestamp,
+        severity: 'critical',
+        description: `Action performed after ${subject} expired`,
+      },
+    };
+  }
+  return null;
+}
+
+function evaluateConstraints(
+  authorisation: AuthorisationEntry,
+  action: ActionRecord,
+  context?: MatcherContext
+): ConsentViolation[] {
+  const violations: ConsentViolation[] = [];
+
+  for (const constraint of authorisation.constraints) {
+    let v: ConsentViolation | null = null;
+    switch (constraint.type) {
+      case 'monetary_limit':
+        v = checkMonetaryLimit(constraint, action, context?.rateProvider);
+        break;
+      case 'domain_restriction':
+        v = checkDomainRestriction(constraint, action.parameters, context?.taxonomy);
+        break;
+      case 'time_window':
+        v = checkTimeWindow(constraint, action.timestamp);
+        break;
+      case 'approval_required':
+        v = checkApprovalRequired(constraint, context?.approvalsByAction?.get(action.id));
+        break;
+      case 'recipient_restriction':
+        v = checkRecipientRestriction(constraint, action.parameters);
+        break;
+      case 'frequency_limit': {
+        v = checkFrequencyLimit(constraint, action, {
+          actionsForAuth: context?.actionsByAuthorisation?.get(authorisation.id),
+          actionCountForAuthInPeriod: context?.actionCountByAuthorisationInPeriod?.get(authorisation.id),
+          limit: context?.frequencyLimitByConstraint?.get(constraint.parameter),
+          indexedCount: context?.actionIndex && ((l) => context.actionIndex!.countInWindow(authorisation.id, action, l)),
+        });
+        break;
+      }
+      case 'budget':
+        v = checkBudget(
+          constraint,
+          action,
+          context?.actionsByAuthorisation?.get(authorisation.id),
+          context?.rateProvider,
+          context?.budgetCarried?.get(authorisation.id)?.get(constraint.parameter),
+          context?.actionIndex && ((b) => context.actionIndex!.budgetUsage(authorisation.id, action, b))
+        );
+        break;
+      case 'policy':
+        v = checkPolicy(constraint, action);
+        break;
+      case 'custom':
+        // Free-form and descriptive only; machine-checkable rules are registered types
+        break;
+      default:
+        v = (context?.constraintRegistry ?? EMPTY_REGISTRY).evaluate(constraint, action, {
+          authorisation,
+          actions: context?.actionIndex
+            ? context.actionIndex.actionsUpTo(authorisation.id, action)
+            : actionsUpTo(context?.actionsByAuthorisation?.get(authorisation.id), action),
+          rateProvider: context?.rateProvider,
+        });
+        break;
+    }
+    if (v) violations.push(v);
+  }
+  violations.push(...checkParameterSchema(authorisation, action));
+  return violations;
+}
+
+function evaluateAction(
+  authorisation: AuthorisationEntry | null,
+  action: ActionRecord,
+  context?: MatcherContext
 ): ConsentMatch {
   const matched_at = isoNow();
 
@@ -198,89 +537,126 @@ export function matchConsent(
     };
   }
 
-  if (authorisation.revoked) {
+  // Fails closed: an agent the registry does not know, or has suspended, cannot act
+  const agentViolation = context?.agentRegistry?.checkAgent(action) ?? null;
+  if (agentViolation) {
     return {
       authorisation_id: authorisation.id,
       action_id: action.id,
-      status: 'revoked',
-      violations: [
-        {
-          constraint_type: 'revocation',
-          expected: 'active authorisation',
-          actual: `revoked at ${authorisation.revoked_at}`,
-          severity: 'critical',
-          description: 'Action performed after authorisation was revoked',
-        },
-      ],
+      status: 'exceeded',
+      violations: [agentViolation],
       matched_at,
     };
   }
 
-  if (authorisation.expires_at && new Date(authorisation.expires_at) < new Date(action.timestamp)) {
+  // Delegated grants are bounded by every ancestor up to the original human grant
+  const { ancestors, broken } = delegationAncestors(authorisation, context?.authorisationsById);
+  if (broken) {
     return {
       authorisation_id: authorisation.id,
       action_id: action.id,
-      status: 'expired',
+      status: 'exceeded',
       violations: [
         {
-          constraint_type: 'expiry',
-          expected: `valid before ${authorisation.expires_at}`,
-          actual: action.timestamp,
+          constraint_type: 'delegation',
+          expected: 'unbroken delegation chain',
+          actual: `parent authorisation ${broken} missing or cyclic`,
           severity: 'critical',
-          description: 'Action performed after authorisation expired',
+          description: 'Delegated authorisation cannot be traced to its original grant',
         },
       ],
       matched_at,
     };
   }
 
-  if (authorisation.scope === 'emergency') {
-    return {
-      authorisation_id: authorisation.id,
-      action_id: action.id,
-      status: 'pending_ratification',
-      violations: [],
-      matched_at,
-    };
+  for (const link of [authorisation, ...ancestors]) {
+    const lifecycle = lifecycleMatch(link, action, link === authorisation ? null : authorisation.id);
+    if (lifecycle) {
+      return {
+        authorisation_id: authorisation.id,
+        action_id: action.id,
+        status: lifecycle.status,
+        violations: [lifecycle.violation],
+        matched_at,
+      };
+    }
   }
 
-  const violations: ConsentViolation[] = [];
-
-  for (const constraint of authorisation.constraints) {
-    let v: ConsentViolation | null = null;
-    switch (constraint.type) {
-      case 'monetary_limit':
-        v = checkMonetaryLimit(constraint, action.parameters);
-        break;
-      case 'domain_restriction':
-        v = checkDomainRestriction(constraint, action.parameters);
-        break;
-      case 'time_window':
-        v = checkTimeWindow(constraint, action.timestamp);
-        break;
-      case 'approval_required':
-        v = checkApprovalRequired(constraint, action.parameters);
-        break;
-      case 'recipient_restriction':
-        v = checkRecipientRestriction(constraint, action.parameters);
-        break;
-      case 'frequency_limit': {
-        const count = context?.actionCountByAuthorisationInPeriod?.get(authorisation.id);
-        const limit = context?.frequencyLimitByConstraint?.get(constraint.parameter) ?? parseNumber(constraint.parameter);
-        v = checkFrequencyLimit(constraint, action.parameters, {
-          actionCountForAuthInPeriod: count,
-          limit: limit ?? undefined,
-        });
-        break;
+  // Emergency actions wait for the principal; once ratified they are judged like any other
+  if (authorisation.scope === 'emergency') {
+    const decision = context?.ratificationsByAction?.get(action.id);
+    if (decision?.event_type === 'rejection') {
+      return {
+        authorisation_id: authorisation.id,
+        action_id: action.id,
+        status: 'exceeded',
+        violations: [
+          {
+            constraint_type: 'ratification',
+            expected: 'ratified by principal',
+            actual: `rejected at ${decision.timestamp}`,
+            severity: 'critical',
+            description: decision.reason ?? 'Principal rejected emergency action',
+          },
+        ],
+        matched_at,
+      };
+    }
+    const deadline = ratificationDeadline(authorisation, action);
+    if (decision && deadline !== null && new Date(decision.timestamp).getTime() > deadline) {
+      return {
+        authorisation_id: authorisation.id,
+        action_id: action.id,
+        status: 'exceeded',
+        violations: [
+          {
+            constraint_type: 'ratification',
+            expected: `ratified by ${new Date(deadline).toISOString()}`,
+            actual: `ratified late at ${decision.timestamp}`,
+            severity: 'critical',
+            description: 'Emergency action ratified after its deadline',
+          },
+        ],
+        matched_at,
+      };
+    }
+    if (!decision) {
+      const now = context?.now ? new Date(context.now).getTime() : null;
+      if (deadline !== null && now !== null && now > deadline) {
+        return {
+          authorisation_id: authorisation.id,
+          action_id: action.id,
+          status: 'exceeded',
+          violations: [
+            {
+              constraint_type: 'ratification',
+              expected: `ratified by ${new Date(deadline).toISOString()}`,
+              actual: 'unratified',
+              severity: 'critical',
+              description: 'Emergency action not ratified before its deadline',
+            },
+          ],
+          matched_at,
+        };
       }
-      case 'custom':
-        v = checkCustom(constraint, action);
-        break;
-      default:
-        break;
+      return {
+        authorisation_id: authorisation.id,
+        action_id: action.id,
+        status: 'pending_ratification',
+        violations: [],
+        matched_at,
+      };
+    }
+  }
+
+  const violations = evaluateConstraints(authorisation, action, context);
+  for (const ancestor of ancestors) {
+    for (const v of evaluateConstraints(ancestor, action, context)) {
+      violations.push({ ...v, description: `${v.description} (inherited from ${ancestor.id})` });
     }
-    if (v) violations.push(v);
   }
+  const authority = context?.agentRegistry?.checkAuthority(action) ?? null;
+  if (authority) violations.push(authority);
 
   const status: ConsentStatus =
     violations.length > 0 ? 'exceeded' : 'within_bounds';
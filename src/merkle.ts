@@ -0,0 +1,204 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — Merkle trees over hash chains
+ * RFC 6962 / RFC 9162 style trees whose leaves are the chain hashes of entries.
+ * Inclusion and consistency proofs verify with this module alone: no ledger needed.
+ */
+
+import { sha256, chainHash, authorisationPayload, actionPayload } from './hash';
+import type { ConsistencyProof, InclusionProof } from './types';
+
+/** Root of the empty tree */
+export const EMPTY_ROOT = sha256('');
+
+/**
+ * Leaf hash of an entry's chain hash (domain-separated from interior nodes).
+ */
+export function leafHash(entryHash: string): string {
+  return sha256('\u0000' + entryHash);
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256('\u0001' + left + right);
+}
+
+/** Largest power of two strictly less than n (n ≥ 2) */
+function split(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function subtreeRoot(leaves: string[], start: number, end: number): string {
+  if (end - start === 1) return leaves[start];
+  const k = split(end - start);
+  return nodeHash(subtreeRoot(leaves, start, start + k), subtreeRoot(leaves, start + k, end));
+}
+
+/**
+ * Merkle root over entry chain hashes, in chain order.
+ */
+export function merkleRoot(entryHashes: string[]): string {
+  if (entryHashes.length === 0) return EMPTY_ROOT;
+  return subtreeRoot(entryHashes.map(leafHash), 0, entryHashes.length);
+}
+
+/**
+ * Root of a growing tree kept as its perfect subtrees, largest first: memory is
+ * logarithmic in the number of leaves, so roots can be checked while streaming.
+ */
+export class MerkleFrontier {
+  private peaks: Array<{ size: number; hash: string }> = [];
+  size = 0;
+
+  append(entryHash: string): void {
+    this.peaks.push({ size: 1, hash: leafHash(entryHash) });
+    this.size++;
+    while (this.peaks.length > 1 && this.peaks[this.peaks.length - 2].size === this.peaks[this.peaks.length - 1].size) {
+      const right = this.peaks.pop()!;
+      const left = this.peaks.pop()!;
+      this.peaks.push({ size: left.size * 2, hash: nodeHash(left.hash, right.hash) });
+    }
+  }
+
+  /** Equal to merkleRoot() over every hash appended so far */
+  root(): string {
+    if (this.peaks.length === 0) return EMPTY_ROOT;
+    let root = this.peaks[this.peaks.length - 1].hash;
+    for (let i = this.peaks.length - 2; i >= 0; i--) root = nodeHash(this.peaks[i].hash, root);
+    return root;
+  }
+}
+
+/**
+ * Audit path for the leaf at `index` in a tree of the given hashes, bottom-up.
+ */
+export function inclusionPath(entryHashes: string[], index: number): string[] {
+  if (index < 0 || index >= entryHashes.length) throw new Error(`Leaf index out of range: ${index}`);
+  const leaves = entryHashes.map(leafHash);
+  const path: string[] = [];
+  const walk = (m: number, start: number, end: number): void => {
+    if (end - start <= 1) return;
+    const k = split(end - start);
+    if (m < k) {
+      walk(m, start, start + k);
+      path.push(subtreeRoot(leaves, start + k, end));
+    } else {
+      walk(m - k, start + k, end);
+      path.push(subtreeRoot(leaves, start, start + k));
+    }
+  };
+  walk(index, 0, leaves.length);
+  return path;
+}
+
+/**
+ * Proof that the first `firstSize` hashes form a prefix of the tree over all of them.
+ */
+export function consistencyPath(entryHashes: string[], firstSize: number): string[] {
+  if (firstSize < 0 || firstSize > entryHashes.length) throw new Error(`Tree size out of range: ${firstSize}`);
+  if (firstSize === 0 || firstSize === entryHashes.length) return [];
+  const leaves = entryHashes.map(leafHash);
+  const path: string[] = [];
+  const walk = (m: number, start: number, end: number, complete: boolean): void => {
+    if (m === end - start) {
+      if (!complete) path.push(subtreeRoot(leaves, start, end));
+      return;
+    }
+    const k = split(end - start);
+    if (m <= k) {
+      walk(m, start, start + k, complete);
+      path.push(subtreeRoot(leaves, start + k, end));
+    } else {
+      walk(m - k, start + k, end, false);
+      path.push(subtreeRoot(leaves, start, start + k));
+    }
+  };
+  walk(firstSize, 0, leaves.length, true);
+  return path;
+}
+
+// Arithmetic rather than bitwise operators, which truncate to 32 bits
+const isOdd = (n: number): boolean => n % 2 === 1;
+const half = (n: number): number => Math.floor(n / 2);
+
+function isPowerOfTwo(n: number): boolean {
+  while (n > 1 && !isOdd(n)) n = half(n);
+  return n === 1;
+}
+
+/**
+ * Recompute the root from a leaf and its audit path (RFC 9162 §2.1.3.2).
+ */
+export function rootFromInclusionPath(entryHash: string, index: number, treeSize: number, path: string[]): string | null {
+  if (index < 0 || index >= treeSize) return null;
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leafHash(entryHash);
+  for (const p of path) {
+    if (sn === 0) return null;
+    if (isOdd(fn) || fn === sn) {
+      r = nodeHash(p, r);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = half(fn);
+        sn = half(sn);
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = half(fn);
+    sn = half(sn);
+  }
+  return sn === 0 ? r : null;
+}
+
+/**
+ * Check an inclusion proof against a trusted root. When the proof carries the
+ * entry itself, its chain hash is recomputed too, so the entry's content is proven.
+ */
+export function verifyInclusion(proof: InclusionProof, root: string): boolean {
+  if (proof.entry) {
+    if (proof.entry.id !== proof.entry_id || proof.entry.hash !== proof.entry_hash) return false;
+    const payload = proof.chain === 'action'
+      ? actionPayload(proof.entry as Parameters<typeof actionPayload>[0])
+      : authorisationPayload(proof.entry as Parameters<typeof authorisationPayload>[0]);
+    if (chainHash(proof.entry.previous_hash, payload) !== proof.entry_hash) return false;
+  }
+  return rootFromInclusionPath(proof.entry_hash, proof.leaf_index, proof.tree_size, proof.path) === root;
+}
+
+/**
+ * Check that the tree with `secondRoot` extends the tree with `firstRoot`
+ * by appending only (RFC 9162 §2.1.4.2).
+ */
+export function verifyConsistency(proof: ConsistencyProof, firstRoot: string, secondRoot: string): boolean {
+  const { first_size: m, second_size: n, path } = proof;
+  if (m < 0 || m > n) return false;
+  if (m === n) return path.length === 0 && firstRoot === secondRoot;
+  if (m === 0) return path.length === 0 && firstRoot === EMPTY_ROOT;
+  const nodes = isPowerOfTwo(m) ? [firstRoot, ...path] : path.slice();
+  if (nodes.length === 0) return false;
+  let fn = m - 1;
+  let sn = n - 1;
+  while (isOdd(fn)) {
+    fn = half(fn);
+    sn = half(sn);
+  }
+  let fr = nodes[0];
+  let sr = nodes[0];
+  for (const c of nodes.slice(1)) {
+    if (sn === 0) return false;
+    if (isOdd(fn) || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = half(fn);
+        sn = half(sn);
+      }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn = half(fn);
+    sn = half(sn);
+  }
+  return sn === 0 && fr === firstRoot && sr === secondRoot;
+}
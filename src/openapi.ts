@@ -0,0 +1,254 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — OpenAPI description of the HTTP service
+ * Served by LedgerServer at GET /openapi.json, so clients in other languages can
+ * be generated from it.
+ */
+
+import { schema } from './types';
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const string = { type: 'string' };
+const nullableString = { type: 'string', nullable: true };
+const arrayOf = (items: object) => ({ type: 'array', items });
+
+const json = (description: string, body: object) => ({ description, content: { 'application/json': { schema: body } } });
+
+const errors = {
+  '400': json('Invalid request', ref('Error')),
+  '401': json('Missing or invalid bearer token', ref('Error')),
+  '404': json('Not found', ref('Error')),
+};
+
+const principal = { name: 'principal_id', in: 'path', required: true, schema: { type: 'string', pattern: '^[A-Za-z0-9._-]{1,128}$' } };
+const pathId = (name: string) => ({ name, in: 'path', required: true, schema: string });
+const query = (name: string, schema: object = string) => ({ name, in: 'query', required: false, schema });
+
+function get(summary: string, parameters: object[], response: object) {
+  return { get: { summary, parameters: [principal, ...parameters], responses: { '200': json('OK', response), ...errors } } };
+}
+
+function post(summary: string, parameters: object[], input: object, status: string, response: object, required = true) {
+  return {
+    post: {
+      summary,
+      parameters: [principal, ...parameters],
+      requestBody: { required, content: { 'application/json': { schema: input } } },
+      responses: { [status]: json('OK', response), ...errors },
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.0 document for every LedgerServer route.
+ */
+export function openApiDocument(): Record<string, unknown> {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Consent Ledger',
+      version: schema,
+      description:
+        'Tamper-evident records of human authorisation and agent actions. Each principal has its own ledger. ' +
+        'Errors are returned as { "error": message }.',
+    },
+    components: {
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Error: { type: 'object', required: ['error'], properties: { error: string } },
+        Constraint: {
+          type: 'object',
+          required: ['type', 'description', 'parameter'],
+          properties: { type: string, description: string, parameter: string },
+        },
+        AuthorisationInput: {
+          type: 'object',
+          required: ['agent_id', 'scope', 'description'],
+          properties: {
+            agent_id: string,
+            scope: { type: 'string', enum: ['specific', 'categorical', 'standing', 'emergency', 'delegated'] },
+            description: string,
+            constraints: arrayOf(ref('Constraint')),
+            expires_at: { ...nullableString, format: 'date-time' },
+            ratification_period: string,
+            parent_authorisation_id: string,
+            parameter_schema: { type: 'object' },
+          },
+        },
+        Authorisation: {
+          type: 'object',
+          properties: {
+            id: string,
+            timestamp: { type: 'string', format: 'date-time' },
+            principal_id: string,
+            agent_id: string,
+            scope: string,
+            description: string,
+            constraints: arrayOf(ref('Constraint')),
+            expires_at: nullableString,
+            revoked: { type: 'boolean' },
+            revoked_at: nullableString,
+            ratification_period: string,
+            parent_authorisation_id: string,
+            hash: string,
+            previous_hash: string,
+          },
+        },
+        AuthorisationEvent: {
+          type: 'object',
+          properties: {
+            id: string,
+            timestamp: string,
+            authorisation_id: string,
+            event_type: { type: 'string', enum: ['revocation', 'expiry_change', 'ratification', 'rejection'] },
+            reason: nullableString,
+            hash: string,
+            previous_hash: string,
+          },
+        },
+        ActionInput: {
+          type: 'object',
+          required: ['agent_id', 'authorisation_id', 'action_type', 'description'],
+          properties: {
+            agent_id: string,
+            authorisation_id: string,
+            action_type: string,
+            description: string,
+            parameters: { type: 'object', additionalProperties: true },
+            clearpath_trace_id: string,
+          },
+        },
+        Action: {
+          type: 'object',
+          properties: {
+            id: string,
+            timestamp: string,
+            agent_id: string,
+            authorisation_id: string,
+            action_type: string,
+            description: string,
+            parameters: { type: 'object', additionalProperties: true },
+            outcome: { type: 'string', enum: ['performed', 'denied'] },
+            hash: string,
+            previous_hash: string,
+          },
+        },
+        Violation: {
+          type: 'object',
+          properties: {
+            constraint_type: string,
+            expected: string,
+            actual: string,
+            severity: { type: 'string', enum: ['critical', 'major', 'minor'] },
+            description: string,
+          },
+        },
+        ConsentMatch: {
+          type: 'object',
+          properties: {
+            authorisation_id: nullableString,
+            action_id: string,
+            status: {
+              type: 'string',
+              enum: ['authorised', 'exceeded', 'within_bounds', 'revoked', 'expired', 'pending_ratification', 'denied'],
+            },
+            violations: arrayOf(ref('Violation')),
+            matched_at: string,
+          },
+        },
+        ActionDecision: {
+          type: 'object',
+          properties: {
+            decision: { type: 'string', enum: ['allow', 'deny', 'needs_approval'] },
+            violations: arrayOf(ref('Violation')),
+            match: ref('ConsentMatch'),
+            record: { allOf: [ref('Action')], nullable: true },
+            approval_request: { type: 'object' },
+          },
+        },
+        ScopeCreepPattern: {
+          type: 'object',
+          properties: {
+            id: string,
+            pattern_type: string,
+            description: string,
+            evidence_ids: arrayOf(string),
+            severity: { type: 'number' },
+            first_detected: string,
+            occurrences: { type: 'integer' },
+          },
+        },
+        VerifyResult: {
+          type: 'object',
+          properties: { valid: { type: 'boolean' }, findings: arrayOf({ type: 'object' }) },
+          additionalProperties: true,
+        },
+        LedgerSnapshot: {
+          type: 'object',
+          properties: {
+            schema: string,
+            principal_id: string,
+            authorisations: arrayOf(ref('Authorisation')),
+            events: arrayOf(ref('AuthorisationEvent')),
+            actions: arrayOf(ref('Action')),
+          },
+          additionalProperties: true,
+        },
+      },
+    },
+    security: [{ bearer: [] }],
+    paths: {
+      '/openapi.json': {
+        get: { summary: 'This document', security: [], responses: { '200': json('OK', { type: 'object' }) } },
+      },
+      '/principals/{principal_id}/authorisations': post(
+        'Record an authorisation', [], ref('AuthorisationInput'), '201', ref('Authorisation')
+      ),
+      '/principals/{principal_id}/authorisations/{authorisation_id}': get(
+        'Current state of an authorisation, its original grant and its events',
+        [pathId('authorisation_id')],
+        {
+          type: 'object',
+          properties: { authorisation: ref('Authorisation'), grant: ref('Authorisation'), events: arrayOf(ref('AuthorisationEvent')) },
+        }
+      ),
+      '/principals/{principal_id}/authorisations/{authorisation_id}/revoke': post(
+        'Revoke an authorisation and every delegated descendant',
+        [pathId('authorisation_id')],
+        { type: 'object', properties: { reason: string } },
+        '200',
+        ref('Authorisation'),
+        false
+      ),
+      '/principals/{principal_id}/actions': {
+        ...get(
+          'List actions',
+          [query('agent_id'), query('authorisation_id'), query('status')],
+          arrayOf(ref('Action'))
+        ),
+        ...post(
+          'Record an action that was performed, with its consent match',
+          [],
+          ref('ActionInput'),
+          '201',
+          { type: 'object', properties: { action: ref('Action'), match: ref('ConsentMatch') } }
+        ),
+      },
+      '/principals/{principal_id}/actions/request': post(
+        'Enforcement gate: match a proposed action and record it only if allowed (201 when recorded, otherwise 200)',
+        [],
+        ref('ActionInput'),
+        '200',
+        ref('ActionDecision')
+      ),
+      '/principals/{principal_id}/actions/{action_id}/consent': get(
+        'Check an action against its authorisation',
+        [pathId('action_id')],
+        ref('ConsentMatch')
+      ),
+      '/principals/{principal_id}/violations': get('Matches with violations', [], arrayOf(ref('ConsentMatch'))),
+      '/principals/{principal_id}/scope-creep': get('Detect scope creep', [], arrayOf(ref('ScopeCreepPattern'))),
+      '/principals/{principal_id}/verify': get('Verify every hash chain and signature', [], ref('VerifyResult')),
+      '/principals/{principal_id}/export': get('The ledger as a toJSON() snapshot', [], ref('LedgerSnapshot')),
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — action parameter schemas
+ * A subset of JSON Schema: type, properties, required, enum, numeric ranges,
+ * items and additionalProperties. Failures carry a JSON pointer into the
+ * action parameters, so renaming a key cannot slip past the grant.
+ */
+
+export type ParameterSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface ParameterSchema {
+  type?: ParameterSchemaType | ParameterSchemaType[];
+  properties?: Record<string, ParameterSchema>;
+  required?: string[];
+  /** false rejects keys not listed in properties; a schema validates them */
+  additionalProperties?: boolean | ParameterSchema;
+  items?: ParameterSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  description?: string;
+}
+
+export interface SchemaFailure {
+  /** JSON pointer (RFC 6901) to the failing value; '' is the parameters object itself */
+  path: string;
+  keyword: string;
+  expected: string;
+  actual: string;
+}
+
+const TYPES: ParameterSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+const KEYWORDS = new Set([
+  'type',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'enum',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'description',
+  'title',
+  '$schema',
+]);
+
+function pointer(base: string, key: string | number): string {
+  return `${base}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Throw if the schema uses keywords outside the supported subset or malformed values.
+ * Unsupported keywords are rejected rather than ignored so a grant never reads
+ * as stricter than it is.
+ */
+export function assertParameterSchema(schema: unknown, path = '#'): asserts schema is ParameterSchema {
+  if (!isObject(schema)) throw new Error(`Invalid parameter schema at ${path}: expected an object`);
+  for (const key of Object.keys(schema)) {
+    if (!KEYWORDS.has(key)) throw new Error(`Unsupported parameter schema keyword at ${path}: ${key}`);
+  }
+  const { type, properties, required, additionalProperties, items } = schema;
+  if (type !== undefined) {
+    const list = Array.isArray(type) ? type : [type];
+    for (const t of list) {
+      if (!TYPES.includes(t as ParameterSchemaType)) throw new Error(`Invalid parameter schema type at ${path}: ${String(t)}`);
+    }
+  }
+  if (properties !== undefined) {
+    if (!isObject(properties)) throw new Error(`Invalid parameter schema at ${path}/properties: expected an object`);
+    for (const [key, sub] of Object.entries(properties)) assertParameterSchema(sub, `${path}/properties/${key}`);
+  }
+  if (required !== undefined && !(Array.isArray(required) && required.every((r) => typeof r === 'string'))) {
+    throw new Error(`Invalid parameter schema at ${path}/required: expected an array of strings`);
+  }
+  if (isObject(additionalProperties)) {
+    assertParameterSchema(additionalProperties, `${path}/additionalProperties`);
+  } else if (additionalProperties !== undefined && typeof additionalProperties !== 'boolean') {
+    throw new Error(`Invalid parameter schema at ${path}/additionalProperties: expected a boolean or schema`);
+  }
+  if (items !== undefined) assertParameterSchema(items, `${path}/items`);
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`Invalid parameter schema at ${path}/enum: expected an array`);
+  }
+  for (const key of ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum']) {
+    if (schema[key] !== undefined && typeof schema[key] !== 'number') {
+      throw new Error(`Invalid parameter schema at ${path}/${key}: expected a number`);
+    }
+  }
+}
+
+function typeOf(value: unknown): ParameterSchemaType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as ParameterSchemaType;
+}
+
+function matchesType(value: unknown, type: ParameterSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function show(value: unknown): string {
+  return value === undefined ? 'missing' : JSON.stringify(value);
+}
+
+function validateValue(schema: ParameterSchema, value: unknown, path: string, out: SchemaFailure[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      out.push({ path, keyword: 'type', expected: types.join(' or '), actual: `${typeOf(value)} ${show(value)}` });
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    out.push({
+      path,
+      keyword: 'enum',
+      expected: `one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}`,
+      actual: show(value),
+    });
+  }
+  if (typeof value === 'number') {
+    const bounds: Array<[keyof ParameterSchema, string, (limit: number) => boolean]> = [
+      ['minimum', '≥', (l) => value >= l],
+      ['maximum', '≤', (l) => value <= l],
+      ['exclusiveMinimum', '>', (l) => value > l],
+      ['exclusiveMaximum', '<', (l) => value < l],
+    ];
+    for (const [keyword, symbol, ok] of bounds) {
+      const limit = schema[keyword] as number | undefined;
+      if (limit !== undefined && !ok(limit)) {
+        out.push({ path, keyword, expected: `${symbol} ${limit}`, actual: String(value) });
+      }
+    }
+  }
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(value, key)) {
+        out.push({ path: pointer(path, key), keyword: 'required', expected: 'present', actual: 'missing' });
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = pointer(path, key);
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        validateValue(properties[key], child, childPath, out);
+      } else if (schema.additionalProperties === false) {
+        out.push({ path: childPath, keyword: 'additionalProperties', expected: 'no undeclared keys', actual: show(child) });
+      } else if (isObject(schema.additionalProperties)) {
+        validateValue(schema.additionalProperties, child, childPath, out);
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateValue(schema.items!, item, pointer(path, i), out));
+  }
+}
+
+/**
+ * Validate action parameters against a schema. Returns every failure, in document order.
+ */
+export function validateParameters(schema: ParameterSchema, parameters: Record<string, unknown>): SchemaFailure[] {
+  const out: SchemaFailure[] = [];
+  validateValue(schema, parameters, '', out);
+  return out;
+}
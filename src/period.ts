@@ -0,0 +1,110 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — period definitions for frequency limits
+ * Shared by the matcher (frequency_limit) and the drift detector (frequency_escalation).
+ */
+
+export type WindowMode = 'rolling' | 'calendar';
+
+export interface PeriodDefinition {
+  /** Period length in milliseconds (a month counts as 30 days in rolling windows) */
+  ms: number;
+  /** Set for month-based periods so calendar windows follow calendar months */
+  months?: number;
+  /** Human-readable label, e.g. "day" or "30d" */
+  label: string;
+}
+
+export interface FrequencyLimit {
+  limit: number;
+  period: PeriodDefinition;
+  window: WindowMode;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+const MONTH = 30 * DAY;
+/** 1970-01-01 was a Thursday; calendar weeks start on Monday (UTC) */
+const WEEK_OFFSET = 4 * DAY;
+
+const UNITS: Record<string, number> = {
+  s: SECOND,
+  sec: SECOND,
+  second: SECOND,
+  m: MINUTE,
+  min: MINUTE,
+  minute: MINUTE,
+  h: HOUR,
+  hr: HOUR,
+  hour: HOUR,
+  d: DAY,
+  day: DAY,
+  w: WEEK,
+  week: WEEK,
+  mo: MONTH,
+  month: MONTH,
+};
+
+export const DAILY: PeriodDefinition = { ms: DAY, label: 'day' };
+
+/**
+ * Parse a period such as "day", "hour", "30d", "15 min" or "2weeks". Returns null if invalid.
+ */
+export function parsePeriod(spec: string): PeriodDefinition | null {
+  const m = /^(\d+)?\s*([a-z]+)$/i.exec(spec.trim());
+  if (!m) return null;
+  const word = m[2].toLowerCase();
+  const unit = UNITS[word] ?? (word.length > 2 && word.endsWith('s') ? UNITS[word.slice(0, -1)] : undefined);
+  if (unit === undefined) return null;
+  const count = m[1] !== undefined ? parseInt(m[1], 10) : 1;
+  if (count <= 0) return null;
+  const period: PeriodDefinition = { ms: count * unit, label: spec.trim() };
+  if (unit === MONTH) period.months = count;
+  return period;
+}
+
+/**
+ * Parse a frequency_limit parameter: "<count>[/<period>] [rolling|calendar]",
+ * e.g. "3/day", "10/hour calendar", "50/30d". A bare count means per day, rolling.
+ */
+export function parseFrequencyLimit(parameter: string): FrequencyLimit | null {
+  let rest = parameter.trim();
+  let window: WindowMode = 'rolling';
+  const modeMatch = /^(.*?)\s+(rolling|calendar)$/i.exec(rest);
+  if (modeMatch) {
+    rest = modeMatch[1];
+    window = modeMatch[2].toLowerCase() as WindowMode;
+  }
+  const [countSpec, periodSpec, ...extra] = rest.split('/');
+  if (extra.length > 0 || !/^\s*\d+\s*$/.test(countSpec)) return null;
+  const period = periodSpec === undefined ? DAILY : parsePeriod(periodSpec);
+  if (!period) return null;
+  return { limit: parseInt(countSpec, 10), period, window };
+}
+
+/**
+ * Start (inclusive) of the calendar bucket containing t. Buckets are aligned
+ * to UTC; week-based periods start on Monday and month-based periods on the 1st.
+ */
+export function calendarBucketStart(period: PeriodDefinition, t: number): number {
+  if (period.months) {
+    const d = new Date(t);
+    const index = d.getUTCFullYear() * 12 + d.getUTCMonth();
+    const start = index - (index % period.months);
+    return Date.UTC(Math.floor(start / 12), start % 12, 1);
+  }
+  const offset = period.ms % WEEK === 0 ? WEEK_OFFSET : 0;
+  return Math.floor((t - offset) / period.ms) * period.ms + offset;
+}
+
+/**
+ * True if timestamp `t` falls in the window that ends at `end` (inclusive).
+ * Rolling windows cover (end - period, end]; calendar windows cover the bucket up to end.
+ */
+export function inWindow(limit: Pick<FrequencyLimit, 'period' | 'window'>, t: number, end: number): boolean {
+  if (t > end) return false;
+  if (limit.window === 'calendar') return t >= calendarBucketStart(limit.period, end);
+  return t > end - limit.period.ms;
+}
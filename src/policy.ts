@@ -0,0 +1,523 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — declarative policy expressions
+ * A small sandboxed language for 'policy' constraints, e.g.
+ *   amount <= 500 && destination in ["Paris", "Rome"] && !parameters.refundable
+ * Expressions are parsed, type checked and then interpreted over an action;
+ * nothing is ever passed to eval or Function.
+ *
+ * Names resolve to action metadata (id, agent_id, authorisation_id, action_type,
+ * description, timestamp), to `parameters` and dotted paths below it, and any
+ * other bare name to the parameter of that name. Missing parameters are null.
+ */
+
+import type { ActionRecord, PolicyFailure } from './types';
+import { LruCache } from './lru';
+
+const MAX_SOURCE_LENGTH = 4096;
+const MAX_DEPTH = 64;
+
+export type PolicyValueType = 'number' | 'string' | 'boolean' | 'null' | 'array' | 'object' | 'unknown';
+
+export type PolicyBinaryOperator =
+  | '||'
+  | '&&'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'in'
+  | 'not in'
+  | '+'
+  | '-'
+  | '*'
+  | '/';
+
+interface Span {
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+export type PolicyNode =
+  | (Span & { kind: 'literal'; value: number | string | boolean | null })
+  | (Span & { kind: 'identifier'; path: string[] })
+  | (Span & { kind: 'array'; elements: PolicyNode[] })
+  | (Span & { kind: 'unary'; operator: '!' | '-'; operand: PolicyNode })
+  | (Span & { kind: 'binary'; operator: PolicyBinaryOperator; left: PolicyNode; right: PolicyNode });
+
+export interface CompiledPolicy {
+  source: string;
+  ast: PolicyNode;
+}
+
+export interface PolicyResult {
+  passed: boolean;
+  /** The innermost sub-expression that made the policy fail */
+  failure?: PolicyFailure;
+}
+
+const METADATA_FIELDS = ['id', 'agent_id', 'authorisation_id', 'action_type', 'description', 'timestamp'];
+
+// --- Lexer ---
+
+interface Token extends Span {
+  kind: 'number' | 'string' | 'name' | 'op' | 'eof';
+  text: string;
+  value?: number | string;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '(', ')', '[', ']', ','];
+
+function fail(source: string, at: number, message: string): never {
+  throw new Error(`Policy error at ${at}: ${message} in "${source}"`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const m = /^(?:[0-9]+(?:\.[0-9]+)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      i += m[0].length;
+      tokens.push({ kind: 'number', text: m[0], value: Number(m[0]), start, end: i });
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          if (next === undefined) break;
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) fail(source, start, 'unterminated string');
+      i++;
+      tokens.push({ kind: 'string', text: source.slice(start, i), value, start, end: i });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      i += m[0].length;
+      tokens.push({ kind: 'name', text: m[0], start, end: i });
+      continue;
+    }
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) fail(source, i, `unexpected character '${ch}'`);
+    i += op.length;
+    tokens.push({ kind: 'op', text: op, start, end: i });
+  }
+  tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// --- Parser ---
+
+const BINARY_LEVELS: PolicyBinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>=', 'in', 'not in'],
+  ['+', '-'],
+  ['*', '/'],
+];
+
+/**
+ * Parse an expression into an AST. Throws on syntax errors, naming the offset.
+ */
+export function parsePolicy(source: string): PolicyNode {
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new Error(`Policy error: expression longer than ${MAX_SOURCE_LENGTH} characters`);
+  }
+  const tokens = tokenize(source);
+  let pos = 0;
+  let depth = 0;
+
+  const peek = (): Token => tokens[pos];
+  const isOp = (text: string): boolean => peek().kind === 'op' && peek().text === text;
+  const expect = (text: string): Token => {
+    if (!isOp(text)) fail(source, peek().start, `expected '${text}'`);
+    return tokens[pos++];
+  };
+
+  // Binary operators spelled as words ('in', 'not in') arrive as name tokens
+  const matchBinary = (ops: PolicyBinaryOperator[]): PolicyBinaryOperator | null => {
+    const t = peek();
+    if (t.kind === 'op' && (ops as string[]).includes(t.text)) {
+      pos++;
+      return t.text as PolicyBinaryOperator;
+    }
+    if (t.kind === 'name' && t.text === 'in' && ops.includes('in')) {
+      pos++;
+      return 'in';
+    }
+    if (t.kind === 'name' && t.text === 'not' && ops.includes('not in') && tokens[pos + 1]?.text === 'in') {
+      pos += 2;
+      return 'not in';
+    }
+    return null;
+  };
+
+  const parseLevel = (level: number): PolicyNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (let op = matchBinary(BINARY_LEVELS[level]); op; op = matchBinary(BINARY_LEVELS[level])) {
+      const right = parseLevel(level + 1);
+      left = { kind: 'binary', operator: op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): PolicyNode => {
+    const t = peek();
+    if (t.kind === 'op' && (t.text === '!' || t.text === '-')) {
+      pos++;
+      if (++depth > MAX_DEPTH) fail(source, t.start, 'expression nested too deeply');
+      const operand = parseUnary();
+      depth--;
+      return { kind: 'unary', operator: t.text as '!' | '-', operand, start: t.start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): PolicyNode => {
+    const t = tokens[pos++];
+    switch (t.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: t.value!, start: t.start, end: t.end };
+      case 'name':
+        if (t.text === 'true' || t.text === 'false') {
+          return { kind: 'literal', value: t.text === 'true', start: t.start, end: t.end };
+        }
+        if (t.text === 'null') return { kind: 'literal', value: null, start: t.start, end: t.end };
+        if (t.text === 'in' || t.text === 'not') fail(source, t.start, `unexpected '${t.text}'`);
+        return { kind: 'identifier', path: t.text.split('.'), start: t.start, end: t.end };
+      case 'op':
+        if (t.text === '(' || t.text === '[') {
+          if (++depth > MAX_DEPTH) fail(source, t.start, 'expression nested too deeply');
+          let node: PolicyNode;
+          if (t.text === '(') {
+            const inner = parseLevel(0);
+            const close = expect(')');
+            // Widen the span so failures quote the parentheses too
+            node = { ...inner, start: t.start, end: close.end };
+          } else {
+            const elements: PolicyNode[] = [];
+            if (!isOp(']')) {
+              elements.push(parseLevel(0));
+              while (isOp(',')) {
+                pos++;
+                elements.push(parseLevel(0));
+              }
+            }
+            const close = expect(']');
+            node = { kind: 'array', elements, start: t.start, end: close.end };
+          }
+          depth--;
+          return node;
+        }
+        return fail(source, t.start, `unexpected '${t.text}'`);
+      default:
+        return fail(source, t.start, 'unexpected end of expression');
+    }
+  };
+
+  const ast = parseLevel(0);
+  if (peek().kind !== 'eof') fail(source, peek().start, `unexpected '${peek().text}'`);
+  return ast;
+}
+
+// --- Type checker ---
+
+/** Static type of a name, or null if the path cannot exist */
+function identifierType(path: string[]): PolicyValueType | null {
+  if (METADATA_FIELDS.includes(path[0])) return path.length === 1 ? 'string' : null;
+  if (path[0] === 'parameters' && path.length === 1) return 'object';
+  return 'unknown';
+}
+
+/**
+ * Infer the type of every node, throwing on operations that can never succeed.
+ * Parameter values are dynamic ('unknown') and are checked again at evaluation.
+ */
+export function typeCheckPolicy(ast: PolicyNode, source: string): PolicyValueType {
+  const expectType = (node: PolicyNode, type: PolicyValueType, allowed: PolicyValueType[], what: string): void => {
+    if (type !== 'unknown' && !allowed.includes(type)) {
+      fail(source, node.start, `${what} expects ${allowed.join(' or ')}, got ${type}`);
+    }
+  };
+
+  const visit = (node: PolicyNode): PolicyValueType => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : (typeof node.value as PolicyValueType);
+      case 'identifier': {
+        const type = identifierType(node.path);
+        if (type === null) fail(source, node.start, `${node.path[0]} has no properties`);
+        return type;
+      }
+      case 'array':
+        for (const e of node.elements) {
+          expectType(e, visit(e), ['number', 'string', 'boolean', 'null'], 'array element');
+        }
+        return 'array';
+      case 'unary': {
+        const type = visit(node.operand);
+        if (node.operator === '!') {
+          expectType(node.operand, type, ['boolean'], "'!'");
+          return 'boolean';
+        }
+        expectType(node.operand, type, ['number'], "'-'");
+        return 'number';
+      }
+      case 'binary': {
+        const left = visit(node.left);
+        const right = visit(node.right);
+        const op = `'${node.operator}'`;
+        switch (node.operator) {
+          case '&&':
+          case '||':
+            expectType(node.left, left, ['boolean'], op);
+            expectType(node.right, right, ['boolean'], op);
+            return 'boolean';
+          case '==':
+          case '!=':
+            expectType(node.left, left, ['number', 'string', 'boolean', 'null'], op);
+            expectType(node.right, right, ['number', 'string', 'boolean', 'null'], op);
+            return 'boolean';
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+            expectType(node.left, left, ['number', 'string'], op);
+            expectType(node.right, right, ['number', 'string'], op);
+            if (left !== 'unknown' && right !== 'unknown' && left !== right) {
+              fail(source, node.start, `${op} compares ${left} with ${right}`);
+            }
+            return 'boolean';
+          case 'in':
+          case 'not in':
+            expectType(node.left, left, ['number', 'string', 'boolean', 'null'], op);
+            expectType(node.right, right, ['array', 'string'], op);
+            return 'boolean';
+          default:
+            expectType(node.left, left, ['number'], op);
+            expectType(node.right, right, ['number'], op);
+            return 'number';
+        }
+      }
+    }
+  };
+
+  const type = visit(ast);
+  expectType(ast, type, ['boolean'], 'policy');
+  return type;
+}
+
+const compiled = new LruCache<string, CompiledPolicy>(256);
+
+/**
+ * Parse and type check an expression. Results are cached by source text, keeping
+ * the most recently used expressions.
+ */
+export function compilePolicy(source: string): CompiledPolicy {
+  let policy = compiled.get(source);
+  if (!policy) {
+    const ast = parsePolicy(source);
+    typeCheckPolicy(ast, source);
+    policy = { source, ast };
+    compiled.set(source, policy);
+  }
+  return policy;
+}
+
+// --- Evaluator ---
+
+type Value = number | string | boolean | null | Value[] | { [key: string]: unknown };
+
+class PolicyRuntimeError extends Error {
+  constructor(readonly node: PolicyNode, message: string) {
+    super(message);
+  }
+}
+
+function runtimeType(value: unknown): PolicyValueType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const t = typeof value;
+  return t === 'number' || t === 'string' || t === 'boolean' ? t : 'object';
+}
+
+function lookup(path: string[], action: ActionRecord): Value {
+  const own = (obj: unknown, key: string): unknown =>
+    obj !== null && typeof obj === 'object' && Object.prototype.hasOwnProperty.call(obj, key)
+      ? (obj as Record<string, unknown>)[key]
+      : undefined;
+  let value: unknown;
+  let rest: string[];
+  if (METADATA_FIELDS.includes(path[0])) {
+    value = own(action, path[0]);
+    rest = path.slice(1);
+  } else if (path[0] === 'parameters') {
+    value = action.parameters;
+    rest = path.slice(1);
+  } else {
+    value = action.parameters;
+    rest = path;
+  }
+  for (const key of rest) value = own(value, key);
+  return value === undefined ? null : (value as Value);
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+function evaluateNode(node: PolicyNode, action: ActionRecord): Value {
+  // Type errors are reported against the operation, so failures quote e.g. `amount <= 500`;
+  // a non-boolean operand of a logical operator is reported on its own
+  const want = (value: Value, types: PolicyValueType[], at: PolicyNode = node): void => {
+    const type = runtimeType(value);
+    if (!types.includes(type)) {
+      const shown = type === 'null' ? 'null' : `${type} ${formatValue(value)}`;
+      throw new PolicyRuntimeError(at, `expected ${types.join(' or ')}, got ${shown}`);
+    }
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      return lookup(node.path, action);
+    case 'array':
+      return node.elements.map((e) => evaluateNode(e, action));
+    case 'unary': {
+      const value = evaluateNode(node.operand, action);
+      if (node.operator === '!') {
+        want(value, ['boolean'], node.operand);
+        return !value;
+      }
+      want(value, ['number']);
+      return -(value as number);
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, action);
+      if (node.operator === '&&' || node.operator === '||') {
+        want(left, ['boolean'], node.left);
+        if (node.operator === '&&' ? !left : left) return left;
+        const right = evaluateNode(node.right, action);
+        want(right, ['boolean'], node.right);
+        return right;
+      }
+      const right = evaluateNode(node.right, action);
+      switch (node.operator) {
+        case '==':
+        case '!=': {
+          want(left, ['number', 'string', 'boolean', 'null']);
+          want(right, ['number', 'string', 'boolean', 'null']);
+          return node.operator === '==' ? left === right : left !== right;
+        }
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          want(left, ['number', 'string']);
+          want(right, [runtimeType(left)]);
+          const l = left as number | string;
+          const r = right as number | string;
+          if (node.operator === '<') return l < r;
+          if (node.operator === '<=') return l <= r;
+          if (node.operator === '>') return l > r;
+          return l >= r;
+        }
+        case 'in':
+        case 'not in': {
+          want(left, ['number', 'string', 'boolean', 'null']);
+          want(right, ['array', 'string']);
+          const found = Array.isArray(right)
+            ? right.includes(left)
+            : typeof left === 'string' && (right as string).includes(left);
+          return node.operator === 'in' ? found : !found;
+        }
+        default: {
+          want(left, ['number']);
+          want(right, ['number']);
+          const l = left as number;
+          const r = right as number;
+          if (node.operator === '/' && r === 0) throw new PolicyRuntimeError(node, 'division by zero');
+          return node.operator === '+' ? l + r : node.operator === '-' ? l - r : node.operator === '*' ? l * r : l / r;
+        }
+      }
+    }
+  }
+}
+
+function identifiersIn(node: PolicyNode, out: Map<string, PolicyNode & { kind: 'identifier' }>): void {
+  if (node.kind === 'identifier') out.set(node.path.join('.'), node);
+  else if (node.kind === 'array') node.elements.forEach((e) => identifiersIn(e, out));
+  else if (node.kind === 'unary') identifiersIn(node.operand, out);
+  else if (node.kind === 'binary') {
+    identifiersIn(node.left, out);
+    identifiersIn(node.right, out);
+  }
+}
+
+function describeFailure(source: string, node: PolicyNode, action: ActionRecord, reason?: string): PolicyFailure {
+  const names = new Map<string, PolicyNode & { kind: 'identifier' }>();
+  identifiersIn(node, names);
+  const values: Record<string, unknown> = {};
+  for (const [name, id] of names) values[name] = lookup(id.path, action);
+  return {
+    expression: source.slice(node.start, node.end),
+    start: node.start,
+    end: node.end,
+    values,
+    ...(reason !== undefined ? { reason } : {}),
+  };
+}
+
+/**
+ * Narrow a false result to the sub-expression responsible: the first false
+ * operand of '&&', otherwise the node itself.
+ */
+function blame(node: PolicyNode, action: ActionRecord): PolicyNode {
+  if (node.kind === 'binary' && node.operator === '&&') {
+    return evaluateNode(node.left, action) === false ? blame(node.left, action) : blame(node.right, action);
+  }
+  return node;
+}
+
+/**
+ * Evaluate a compiled policy (or expression source) against an action.
+ * Type errors at run time, such as a missing amount compared with a number,
+ * fail the policy at the offending sub-expression.
+ */
+export function evaluatePolicy(policy: CompiledPolicy | string, action: ActionRecord): PolicyResult {
+  const { source, ast } = typeof policy === 'string' ? compilePolicy(policy) : policy;
+  try {
+    const value = evaluateNode(ast, action);
+    if (value === true) return { passed: true };
+    if (value !== false) {
+      const reason = `expected boolean, got ${runtimeType(value)} ${formatValue(value)}`;
+      return { passed: false, failure: describeFailure(source, ast, action, reason) };
+    }
+    return { passed: false, failure: describeFailure(source, blame(ast, action), action) };
+  } catch (err) {
+    if (!(err instanceof PolicyRuntimeError)) throw err;
+    return { passed: false, failure: describeFailure(source, err.node, action, err.message) };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — emergency action ratification
+ * Actions under emergency scope must be ratified (or rejected) by the principal
+ * within the grant's ratification period.
+ */
+
+import type { AuthorisationEntry, AuthorisationEvent, ActionRecord, PendingRatification } from './types';
+import { parsePeriod } from './period';
+
+export const DEFAULT_RATIFICATION_PERIOD = '24h';
+
+/**
+ * Deadline (ms) for ratifying an emergency action, or null if the grant has no
+ * usable ratification period (grants recorded before deadlines existed).
+ */
+export function ratificationDeadline(authorisation: AuthorisationEntry, action: ActionRecord): number | null {
+  if (!authorisation.ratification_period) return null;
+  const period = parsePeriod(authorisation.ratification_period);
+  if (!period) return null;
+  return new Date(action.timestamp).getTime() + period.ms;
+}
+
+/**
+ * The time ratification deadlines are judged at when the caller gives none: the
+ * latest timestamp among the entries, so a ledger gives the same verdicts however
+ * long after it was written it is read. -Infinity when there are none.
+ */
+export function ledgerClock(entries: Iterable<{ timestamp: string }>): number {
+  let latest = -Infinity;
+  for (const e of entries) {
+    const t = new Date(e.timestamp).getTime();
+    if (t > latest) latest = t;
+  }
+  return latest;
+}
+
+/**
+ * Latest ratification decision per action, from the event chain.
+ */
+export function ratificationDecisions(events: AuthorisationEvent[]): Map<string, AuthorisationEvent> {
+  const decisions = new Map<string, AuthorisationEvent>();
+  for (const e of events) {
+    if ((e.event_type === 'ratification' || e.event_type === 'rejection') && e.action_id) {
+      decisions.set(e.action_id, e);
+    }
+  }
+  return decisions;
+}
+
+/**
+ * Emergency actions that have neither been ratified nor rejected, with their deadlines.
+ */
+export function pendingRatifications(
+  authorisations: AuthorisationEntry[],
+  events: AuthorisationEvent[],
+  actions: ActionRecord[],
+  now: number
+): PendingRatification[] {
+  const byId = new Map(authorisations.map((a) => [a.id, a]));
+  const decisions = ratificationDecisions(events);
+  const pending: PendingRatification[] = [];
+  for (const action of actions) {
+    const auth = byId.get(action.authorisation_id);
+    if (!auth || auth.scope !== 'emergency' || action.outcome === 'denied' || decisions.has(action.id)) continue;
+    const deadline = ratificationDeadline(auth, action);
+    pending.push({
+      action_id: action.id,
+      authorisation_id: auth.id,
+      action_timestamp: action.timestamp,
+      deadline: deadline === null ? null : new Date(deadline).toISOString(),
+      overdue: deadline !== null && now > deadline,
+    });
+  }
+  return pending;
+}
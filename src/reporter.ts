@@ -4,13 +4,29 @@
 
 import type {
   AuthorisationEntry,
+  AuthorisationEvent,
   ActionRecord,
+  ApprovalRecord,
   ConsentMatch,
   ScopeCreepPattern,
   LedgerSnapshot,
   VerifyResult,
+  BudgetUsage,
+  PendingRatification,
 } from './types';
 import { schema } from './types';
+import { replayAuthorisations } from './lifecycle';
+import { parseBudget, computeBudgetUsage } from './budget';
+import { ledgerClock, pendingRatifications } from './ratification';
+import type { RateProvider } from './currency';
+
+export interface BudgetUtilisation {
+  authorisation_id: string;
+  constraint_description: string;
+  usage: BudgetUsage;
+  /** spent / limit (may exceed 1) */
+  utilisation: number;
+}
 
 export interface ComplianceReport {
   schema: typeof schema;
@@ -25,6 +41,7 @@ export interface ComplianceReport {
     revoked: number;
     expired: number;
     pending_ratification: number;
+    denied: number;
     no_authorisation: number;
   };
   violations_summary: {
@@ -33,6 +50,13 @@ export interface ComplianceReport {
     minor: number;
   };
   scope_creep_patterns: number;
+  /** Budget constraints of active authorisations, measured in the window ending at generation time */
+  budgets: BudgetUtilisation[];
+  /** Emergency actions awaiting ratification, and those already past their deadline */
+  ratifications: {
+    outstanding: PendingRatification[];
+    overdue: PendingRatification[];
+  };
   integrity: VerifyResult | null;
 }
 
@@ -41,13 +65,43 @@ export interface AuditReport {
   generated_at: string;
   principal_id: string;
   authorisations: AuthorisationEntry[];
+  events: AuthorisationEvent[];
   actions: ActionRecord[];
+  approvals: ApprovalRecord[];
   matches: ConsentMatch[];
   violations: ConsentMatch[];
   scope_creep: ScopeCreepPattern[];
   integrity: VerifyResult | null;
 }
 
+/**
+ * Budget utilisation for every budget constraint on the given authorisations.
+ */
+export function buildBudgetUtilisation(
+  authorisations: AuthorisationEntry[],
+  actions: ActionRecord[],
+  at: number,
+  rateProvider?: RateProvider
+): BudgetUtilisation[] {
+  const result: BudgetUtilisation[] = [];
+  for (const auth of authorisations) {
+    for (const c of auth.constraints) {
+      if (c.type !== 'budget') continue;
+      const budget = parseBudget(c.parameter);
+      if (!budget) continue;
+      const list = actions.filter((a) => a.authorisation_id === auth.id);
+      const { unconverted: _unconverted, ...usage } = computeBudgetUsage(budget, list, at, rateProvider);
+      result.push({
+        authorisation_id: auth.id,
+        constraint_description: c.description,
+        usage,
+        utilisation: usage.limit > 0 ? usage.spent / usage.limit : 0,
+      });
+    }
+  }
+  return result;
+}
+
 /**
  * Build a compliance summary from ledger snapshot, matches, and optional integrity result.
  */
@@ -55,9 +109,15 @@ export function buildComplianceReport(
   snapshot: LedgerSnapshot,
   matches: ConsentMatch[],
   scopeCreep: ScopeCreepPattern[],
-  integrity: VerifyResult | null
+  integrity: VerifyResult | null,
+  options?: {
+    rateProvider?: RateProvider;
+    /** Time overdue ratifications are judged at (ISO); defaults to the latest entry in the snapshot */
+    at?: string;
+  }
 ): ComplianceReport {
-  const active = snapshot.authorisations.filter((a) => !a.revoked && (!a.expires_at || new Date(a.expires_at) > new Date()));
+  const current = replayAuthorisations(snapshot.authorisations, snapshot.events ?? []);
+  const active = current.filter((a) => !a.revoked && (!a.expires_at || new Date(a.expires_at) > new Date()));
   const byStatus = new Map<string, number>();
   const violationsSummary = { critical: 0, major: 0, minor: 0 };
   for (const m of matches) {
@@ -68,6 +128,17 @@ export function buildComplianceReport(
       else violationsSummary.minor++;
     }
   }
+  const budgets = buildBudgetUtilisation(active, snapshot.actions, Date.now(), options?.rateProvider);
+  const clock = options?.at
+    ? new Date(options.at).getTime()
+    : ledgerClock([
+        ...snapshot.authorisations,
+        ...(snapshot.events ?? []),
+        ...snapshot.actions,
+        ...(snapshot.approvals ?? []),
+        ...(snapshot.checkpoints ?? []),
+      ]);
+  const pending = pendingRatifications(current, snapshot.events ?? [], snapshot.actions, clock);
   const noAuth = matches.filter((m) => m.status === 'exceeded' && m.violations.some((v) => v.constraint_type === 'authorisation')).length;
 
   return {
@@ -83,10 +154,16 @@ export function buildComplianceReport(
       revoked: byStatus.get('revoked') ?? 0,
       expired: byStatus.get('expired') ?? 0,
       pending_ratification: byStatus.get('pending_ratification') ?? 0,
+      denied: byStatus.get('denied') ?? 0,
       no_authorisation: noAuth,
     },
     violations_summary: violationsSummary,
     scope_creep_patterns: scopeCreep.length,
+    budgets,
+    ratifications: {
+      outstanding: pending.filter((p) => !p.overdue),
+      overdue: pending.filter((p) => p.overdue),
+    },
     integrity,
   };
 }
@@ -106,7 +183,9 @@ export function buildAuditReport(
     generated_at: new Date().toISOString(),
     principal_id: snapshot.principal_id,
     authorisations: snapshot.authorisations,
+    events: snapshot.events ?? [],
     actions: snapshot.actions,
+    approvals: snapshot.approvals ?? [],
     matches,
     violations,
     scope_creep: scopeCreep,
@@ -140,6 +219,7 @@ export function reportToMarkdown(
     `| Revoked | ${compliance.summary.revoked} |`,
     `| Expired | ${compliance.summary.expired} |`,
     `| Pending ratification | ${compliance.summary.pending_ratification} |`,
+    `| Denied attempts | ${compliance.summary.denied} |`,
     `| No authorisation | ${compliance.summary.no_authorisation} |`,
     '',
     '## Violations',
@@ -151,12 +231,50 @@ export function reportToMarkdown(
     `| Minor | ${compliance.violations_summary.minor} |`,
     '',
   ];
+  if (compliance.budgets.length > 0) {
+    lines.push('## Budgets', '');
+    lines.push('| Authorisation | Budget | Spent | Remaining | Utilisation |');
+    lines.push('|---------------|--------|-------|-----------|-------------|');
+    for (const b of compliance.budgets) {
+      const unit = b.usage.currency ? ` ${b.usage.currency}` : '';
+      const limit = `${b.usage.limit}${unit}${b.usage.period ? ` / ${b.usage.period}` : ' total'}`;
+      lines.push(
+        `| ${b.authorisation_id} | ${limit} | ${b.usage.spent}${unit} | ${b.usage.remaining}${unit} | ${Math.round(b.utilisation * 100)}% |`
+      );
+    }
+    lines.push('');
+  }
+  const { outstanding, overdue } = compliance.ratifications;
+  if (outstanding.length > 0 || overdue.length > 0) {
+    lines.push('## Ratifications', '');
+    lines.push('| Action | Authorisation | Deadline | Overdue |');
+    lines.push('|--------|---------------|----------|---------|');
+    for (const r of [...overdue, ...outstanding]) {
+      lines.push(`| ${r.action_id} | ${r.authorisation_id} | ${r.deadline ?? 'none'} | ${r.overdue ? 'Yes' : 'No'} |`);
+    }
+    lines.push('');
+  }
   if (compliance.integrity) {
     lines.push('## Integrity', '');
     lines.push(`Chain valid: **${compliance.integrity.valid ? 'Yes' : 'No'}**  `);
     lines.push(`Authorisations checked: ${compliance.integrity.authorisations_checked}  `);
-    lines.push(`Actions checked: ${compliance.integrity.actions_checked}`);
+    lines.push(`Events checked: ${compliance.integrity.events_checked}  `);
+    lines.push(`Actions checked: ${compliance.integrity.actions_checked}  `);
+    lines.push(`Approvals checked: ${compliance.integrity.approvals_checked}  `);
+    lines.push(`Checkpoints checked: ${compliance.integrity.checkpoints_checked}  `);
+    lines.push(`Signatures checked: ${compliance.integrity.signatures_checked}  `);
+    lines.push(`Signature failures: ${compliance.integrity.signature_failures.length}  `);
+    lines.push(`Anchors checked: ${compliance.integrity.anchors_checked}  `);
+    lines.push(`Anchor findings: ${compliance.integrity.anchor_findings.length}`);
     lines.push('');
+    if (compliance.integrity.findings.length > 0) {
+      lines.push('| Chain | Index | Entry | Finding | Expected | Actual |');
+      lines.push('|-------|-------|-------|---------|----------|--------|');
+      for (const f of compliance.integrity.findings) {
+        lines.push(`| ${f.chain} | ${f.index} | ${f.entry_id} | ${f.kind} | ${f.expected} | ${f.actual} |`);
+      }
+      lines.push('');
+    }
   }
   if (options?.includeScopeCreep && options?.scopeCreepPatterns && options.scopeCreepPatterns.length > 0) {
     lines.push('## Scope creep patterns', '');
@@ -0,0 +1,305 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — HTTP service mode
+ * An optional REST API over ConsentLedger for agents that cannot import the
+ * library. Built on node:http with no other dependencies. Each principal gets
+ * its own ledger, opened on first use from a pluggable storage backend, so one
+ * process can serve several principals and their agents. GET /openapi.json
+ * describes every route.
+ */
+
+import { createServer, type IncomingMessage, type OutgoingHttpHeaders, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import type { ConsentLedger } from './consent-ledger';
+import { LedgerRegistry, type LedgerRegistryOptions } from './ledger-registry';
+import { openApiDocument } from './openapi';
+import { sha256 } from './hash';
+import type { ConsentConstraint, ConsentScope, ConsentStatus } from './types';
+
+export interface LedgerServerOptions extends LedgerRegistryOptions {
+  /** Serve the ledgers of an existing registry; storage, ledgerOptions and onLedgerOpened are then ignored */
+  registry?: LedgerRegistry;
+  /** When set, every request except GET /openapi.json needs Authorization: Bearer <token> */
+  authToken?: string;
+  /** Largest accepted request body; defaults to 1 MiB */
+  maxBodyBytes?: number;
+}
+
+export interface ServerResult {
+  status: number;
+  body: unknown;
+}
+
+const SCOPES: ConsentScope[] = ['specific', 'categorical', 'standing', 'emergency', 'delegated'];
+const PRINCIPAL_ID = /^[A-Za-z0-9._-]{1,128}$/;
+/** Routes made only of fixed segments; they win over the :id routes of the same resource */
+const FIXED_ROUTES = new Set(['actions/request']);
+
+/** A request the service refuses, with the status to answer it with */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function requireBody(body: unknown): Record<string, unknown> {
+  if (!isObject(body)) throw new HttpError(400, 'Request body must be a JSON object');
+  return body;
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value === '') throw new HttpError(400, `Missing or invalid field: ${field}`);
+  return value;
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `Invalid field: ${field}`);
+  return value;
+}
+
+function parseConstraints(value: unknown): ConsentConstraint[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, 'Invalid field: constraints');
+  return value.map((c) => {
+    if (!isObject(c) || typeof c.type !== 'string' || typeof c.description !== 'string' || typeof c.parameter !== 'string') {
+      throw new HttpError(400, 'Invalid field: constraints');
+    }
+    return { type: c.type, description: c.description, parameter: c.parameter };
+  });
+}
+
+function parseAction(body: Record<string, unknown>) {
+  const parameters = body.parameters ?? {};
+  if (!isObject(parameters)) throw new HttpError(400, 'Invalid field: parameters');
+  const clearpath_trace_id = optionalString(body, 'clearpath_trace_id');
+  return {
+    agent_id: requireString(body, 'agent_id'),
+    authorisation_id: requireString(body, 'authorisation_id'),
+    action_type: requireString(body, 'action_type'),
+    description: requireString(body, 'description'),
+    parameters,
+    ...(clearpath_trace_id !== undefined ? { clearpath_trace_id } : {}),
+  };
+}
+
+/** Compare in constant time; hashing first hides the length of the expected header too */
+function bearerMatches(header: string | undefined, token: string): boolean {
+  const digest = (text: string): Buffer => Buffer.from(sha256(text), 'hex');
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${token}`));
+}
+
+/** Ledger errors are the caller's fault unless the system failed (an errno code) */
+function statusOf(error: unknown): number {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof Error && typeof (error as NodeJS.ErrnoException).code === 'string') return 500;
+  if (error instanceof Error && / not found: /.test(error.message)) return 404;
+  return 400;
+}
+
+export class LedgerServer {
+  readonly server: Server;
+  readonly registry: LedgerRegistry;
+  private readonly maxBodyBytes: number;
+
+  constructor(private readonly options: LedgerServerOptions = {}) {
+    this.registry = options.registry ?? new LedgerRegistry(options);
+    this.maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+    this.server = createServer((req, res) => this.serve(req, res));
+  }
+
+  /** Start listening; resolves with the bound address (port 0 picks a free port) */
+  listen(port = 0, host = '127.0.0.1'): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Stop accepting requests and close every ledger in the registry */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => {
+        this.registry.close();
+        resolve();
+      });
+      this.server.closeIdleConnections();
+    });
+  }
+
+  /** The principal's ledger, opened through the registry on first use */
+  ledger(principal_id: string): ConsentLedger {
+    if (!PRINCIPAL_ID.test(principal_id)) throw new HttpError(400, `Invalid principal_id: ${principal_id}`);
+    return this.registry.ledger(principal_id);
+  }
+
+  /**
+   * Route one request. Bodies are parsed JSON (undefined when empty). Used by the
+   * HTTP server, and callable directly to embed the API elsewhere.
+   */
+  handle(method: string, url: string, body: unknown): ServerResult {
+    try {
+      return this.route(method, url, body);
+    } catch (error) {
+      return { status: statusOf(error), body: { error: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  private route(method: string, url: string, body: unknown): ServerResult {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    let segments: string[];
+    try {
+      segments = pathname.split('/').filter((s) => s !== '').map(decodeURIComponent);
+    } catch {
+      throw new HttpError(400, `Invalid path: ${pathname}`);
+    }
+    const allow = (...methods: string[]): void => {
+      if (!methods.includes(method)) throw new HttpError(405, `Method not allowed: ${method} ${pathname}`);
+    };
+
+    if (segments.length === 1 && segments[0] === 'openapi.json') {
+      allow('GET');
+      return { status: 200, body: openApiDocument() };
+    }
+    if (segments[0] !== 'principals' || segments.length < 3 || segments.length > 5) throw new HttpError(404, `Route not found: ${pathname}`);
+    const [, principal_id, resource, id, verb] = segments;
+    const ledger = (): ConsentLedger => this.ledger(principal_id);
+    const fixed = segments.slice(2).join('/');
+    const path = FIXED_ROUTES.has(fixed)
+      ? fixed
+      : [resource, id === undefined ? '' : ':id', verb ?? ''].join('/').replace(/\/+$/, '');
+
+    switch (path) {
+      case 'authorisations': {
+        allow('POST');
+        const b = requireBody(body);
+        if (b.principal_id !== undefined && b.principal_id !== principal_id) {
+          throw new HttpError(400, `principal_id does not match the path: ${String(b.principal_id)}`);
+        }
+        const scope = requireString(b, 'scope') as ConsentScope;
+        if (!SCOPES.includes(scope)) throw new HttpError(400, `Invalid scope: ${scope}`);
+        const expires_at = b.expires_at ?? null;
+        if (expires_at !== null && typeof expires_at !== 'string') throw new HttpError(400, 'Invalid field: expires_at');
+        const optional: Record<string, unknown> = {};
+        for (const field of ['ratification_period', 'parent_authorisation_id'] as const) {
+          const value = optionalString(b, field);
+          if (value !== undefined) optional[field] = value;
+        }
+        if (b.parameter_schema !== undefined) optional.parameter_schema = b.parameter_schema;
+        const entry = ledger().authorise({
+          principal_id,
+          agent_id: requireString(b, 'agent_id'),
+          scope,
+          description: requireString(b, 'description'),
+          constraints: parseConstraints(b.constraints),
+          expires_at,
+          ...optional,
+        });
+        return { status: 201, body: entry };
+      }
+      case 'authorisations/:id': {
+        allow('GET');
+        const history = ledger().getAuthorisationHistory(id);
+        if (!history) throw new HttpError(404, `Authorisation not found: ${id}`);
+        return { status: 200, body: { authorisation: ledger().getAuthorisation(id), ...history } };
+      }
+      case 'authorisations/:id/revoke': {
+        allow('POST');
+        const reason = body === undefined ? undefined : optionalString(requireBody(body), 'reason');
+        return { status: 200, body: ledger().revoke(id, reason) };
+      }
+      case 'actions': {
+        allow('GET', 'POST');
+        if (method === 'GET') {
+          const status = searchParams.get('status') ?? undefined;
+          return {
+            status: 200,
+            body: ledger().getActions({
+              agent_id: searchParams.get('agent_id') ?? undefined,
+              authorisation_id: searchParams.get('authorisation_id') ?? undefined,
+              status: status as ConsentStatus | undefined,
+            }),
+          };
+        }
+        const action = ledger().recordAction(parseAction(requireBody(body)));
+        return { status: 201, body: { action, match: ledger().checkConsent(action.id) } };
+      }
+      case 'actions/request': {
+        // The enforcement gate: match a proposed action and record it only if allowed
+        allow('POST');
+        const decision = ledger().requestAction(parseAction(requireBody(body)));
+        return { status: decision.record ? 201 : 200, body: decision };
+      }
+      case 'actions/:id/consent': {
+        allow('GET');
+        return { status: 200, body: ledger().checkConsent(id) };
+      }
+      case 'violations':
+        allow('GET');
+        return { status: 200, body: ledger().getViolations() };
+      case 'scope-creep':
+        allow('GET');
+        return { status: 200, body: ledger().detectScopeCreep() };
+      case 'verify':
+        allow('GET');
+        return { status: 200, body: ledger().verify() };
+      case 'export':
+        allow('GET');
+        return { status: 200, body: JSON.parse(ledger().toJSON()) };
+    }
+    throw new HttpError(404, `Route not found: ${pathname}`);
+  }
+
+  private serve(req: IncomingMessage, res: ServerResponse): void {
+    const send = (result: ServerResult, headers?: OutgoingHttpHeaders): void => {
+      const text = JSON.stringify(result.body);
+      res.writeHead(result.status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(text), ...headers });
+      res.end(text);
+    };
+    const token = this.options.authToken;
+    if (token && !(req.method === 'GET' && req.url === '/openapi.json') && !bearerMatches(req.headers.authorization, token)) {
+      send({ status: 401, body: { error: 'Missing or invalid bearer token' } });
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let refused = false;
+    // A client that aborts mid-upload leaves no one to answer; without a listener the error would be thrown
+    req.on('error', () => {
+      refused = true;
+    });
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > this.maxBodyBytes && !refused) {
+        refused = true;
+        // Destroying the request now could reset the socket before the client reads the 413;
+        // Connection: close lets the response finish and then ends the connection
+        send({ status: 413, body: { error: `Request body exceeds ${this.maxBodyBytes} bytes` } }, { Connection: 'close' });
+      }
+      if (!refused) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (refused) return;
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown;
+      if (text.trim() !== '') {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          send({ status: 400, body: { error: 'Request body is not valid JSON' } });
+          return;
+        }
+      }
+      send(this.handle(req.method ?? 'GET', req.url ?? '/', body));
+    });
+  }
+}
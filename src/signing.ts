@@ -0,0 +1,76 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — Ed25519 signatures for chain entries
+ * Uses Node.js crypto only (zero external dependencies).
+ */
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import type { SignerKey } from './types';
+
+/** PEM string or KeyObject */
+export type KeyInput = string | KeyObject;
+
+/**
+ * Generate an Ed25519 key pair as PEM strings (SPKI public, PKCS#8 private).
+ */
+export function generateSigningKeyPair(): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+/**
+ * Sign a deterministic entry payload. Returns base64 signature.
+ */
+export function signPayload(payload: string, privateKey: KeyInput): string {
+  const key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey;
+  return sign(null, Buffer.from(payload, 'utf8'), key).toString('base64');
+}
+
+/**
+ * Verify a base64 signature over a payload. Malformed keys or signatures verify as false.
+ */
+export function verifyPayload(payload: string, signature: string, publicKey: KeyInput): boolean {
+  try {
+    const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+    return verify(null, Buffer.from(payload, 'utf8'), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalise a public key to SPKI PEM, rejecting anything that is not Ed25519.
+ */
+export function toPublicKeyPem(publicKey: KeyInput): string {
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Unsupported key type: ${key.asymmetricKeyType ?? key.type}`);
+  }
+  return key.export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * True if the signature verifies against any registered key for the signer.
+ */
+export function verifyWithKeys(
+  payload: string,
+  signature: string,
+  signer_id: string,
+  keys: SignerKey[]
+): boolean {
+  return keys.some((k) => k.signer_id === signer_id && verifyPayload(payload, signature, k.public_key));
+}
+
+export interface SignOptions {
+  /** Ed25519 private key of the signer (principal for authorisations and events, agent for actions) */
+  privateKey: KeyInput;
+}
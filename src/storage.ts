@@ -0,0 +1,203 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — persistent storage
+ * A storage adapter receives every entry as the ledger appends it, one record
+ * per entry, and hands the records back in order when the ledger is reopened
+ * with ConsentLedger.open(). The file adapter writes NDJSON: one record per line.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  fsyncSync,
+  ftruncateSync,
+  openSync,
+  readFileSync,
+  truncateSync,
+  writeSync,
+} from 'fs';
+import type {
+  AuthorisationEntry,
+  AuthorisationEvent,
+  ActionRecord,
+  ApprovalRecord,
+  SignerKey,
+  MerkleCheckpoint,
+  LedgerSnapshot,
+} from './types';
+
+/** One appended entry. The first record of a store is the ledger header. */
+export type StoredRecord =
+  | { kind: 'ledger'; entry: Pick<LedgerSnapshot, 'schema' | 'principal_id'> }
+  | { kind: 'authorisation'; entry: AuthorisationEntry }
+  | { kind: 'event'; entry: AuthorisationEvent }
+  | { kind: 'action'; entry: ActionRecord }
+  | { kind: 'approval'; entry: ApprovalRecord }
+  | { kind: 'key'; entry: SignerKey }
+  | { kind: 'checkpoint'; entry: MerkleCheckpoint };
+
+export type StoredRecordKind = StoredRecord['kind'];
+
+/** An incomplete final record, typically left by a crash mid-write */
+export interface TornRecord {
+  /** 1-based line number */
+  line: number;
+  /** Byte offset where the record starts; the store is cut back to here */
+  offset: number;
+  /** The partial text that was discarded */
+  text: string;
+}
+
+export interface StorageLoadResult {
+  records: StoredRecord[];
+  torn: TornRecord | null;
+}
+
+/** What ConsentLedger.open() found in its store */
+export interface StorageReport {
+  records_loaded: number;
+  torn: TornRecord | null;
+}
+
+export interface StorageAdapter {
+  /** Every complete record, in append order */
+  load(): StorageLoadResult;
+  /** Persist one record; must not return before the record is stored */
+  append(record: StoredRecord): void;
+  close(): void;
+}
+
+const KINDS: StoredRecordKind[] = ['ledger', 'authorisation', 'event', 'action', 'approval', 'key', 'checkpoint'];
+
+/**
+ * Parse one NDJSON line, or null if it is not a well-formed record.
+ */
+export function parseStoredRecord(text: string): StoredRecord | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (value === null || typeof value !== 'object') return null;
+  const record = value as StoredRecord;
+  if (!KINDS.includes(record.kind) || record.entry === null || typeof record.entry !== 'object') return null;
+  return record;
+}
+
+/**
+ * Records held in memory, serialised as they would be on disk. For tests and
+ * for ledgers that only need to survive within one process.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private lines: string[] = [];
+
+  load(): StorageLoadResult {
+    return { records: this.lines.map((line) => JSON.parse(line) as StoredRecord), torn: null };
+  }
+
+  append(record: StoredRecord): void {
+    this.lines.push(JSON.stringify(record));
+  }
+
+  close(): void {}
+}
+
+/**
+ * When appended records reach the disk:
+ *   always  fsync after every record (default); a returned append survives power loss
+ *   close   fsync once when the adapter is closed
+ *   never   leave flushing to the operating system
+ */
+export type FsyncMode = 'always' | 'close' | 'never';
+
+export interface FileStorageOptions {
+  fsync?: FsyncMode;
+  /**
+   * 'truncate' (default) cuts a torn final line off and reports it; 'keep' reports
+   * it but leaves the file alone, for reading files you must not modify; 'throw'
+   * refuses to load
+   */
+  tornTail?: 'truncate' | 'keep' | 'throw';
+}
+
+/**
+ * Append-only NDJSON file. Only the final line can be torn by a crash; a bad
+ * line anywhere else means the file was damaged and loading throws.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private fd: number | null = null;
+  /** The loaded file ends with a complete record but no newline; the next append supplies it */
+  private unterminated = false;
+  private readonly fsync: FsyncMode;
+  private readonly tornTail: 'truncate' | 'keep' | 'throw';
+
+  constructor(readonly path: string, options?: FileStorageOptions) {
+    this.fsync = options?.fsync ?? 'always';
+    this.tornTail = options?.tornTail ?? 'truncate';
+  }
+
+  load(): StorageLoadResult {
+    if (!existsSync(this.path)) return { records: [], torn: null };
+    const content = readFileSync(this.path, 'utf8');
+    const lines = content.split('\n');
+    // A complete file ends with a newline, leaving an empty final segment
+    const tail = lines.pop()!;
+    const records: StoredRecord[] = [];
+    let offset = 0;
+    let torn: TornRecord | null = null;
+    for (const [i, line] of lines.entries()) {
+      if (line.trim() !== '') {
+        const record = parseStoredRecord(line);
+        if (!record) {
+          if (i === lines.length - 1 && tail === '') {
+            torn = { line: i + 1, offset, text: line };
+            break;
+          }
+          throw new Error(`Corrupt record at line ${i + 1}: ${this.path}`);
+        }
+        records.push(record);
+      }
+      offset += Buffer.byteLength(line, 'utf8') + 1;
+    }
+    if (!torn && tail !== '') {
+      // A crash can also land between a record and its newline: keep the record if it parses
+      const record = parseStoredRecord(tail);
+      if (record) {
+        records.push(record);
+        this.unterminated = true;
+      } else {
+        torn = { line: lines.length + 1, offset, text: tail };
+      }
+    }
+    if (torn && this.tornTail !== 'keep') {
+      if (this.tornTail === 'throw') throw new Error(`Torn record at line ${torn.line}: ${this.path}`);
+      this.close();
+      truncateSync(this.path, torn.offset);
+    }
+    return { records, torn };
+  }
+
+  append(record: StoredRecord): void {
+    if (this.fd === null) this.fd = openSync(this.path, 'a');
+    const bytes = Buffer.from((this.unterminated ? '\n' : '') + JSON.stringify(record) + '\n', 'utf8');
+    const size = fstatSync(this.fd).size;
+    try {
+      let written = 0;
+      while (written < bytes.length) written += writeSync(this.fd, bytes, written);
+      if (this.fsync === 'always') fsyncSync(this.fd);
+    } catch (err) {
+      // A partial write (e.g. ENOSPC) must not leave a torn line for the next record to follow
+      ftruncateSync(this.fd, size);
+      throw err;
+    }
+    this.unterminated = false;
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    if (this.fsync === 'close') fsyncSync(this.fd);
+    closeSync(this.fd);
+    this.fd = null;
+  }
+}
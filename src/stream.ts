@@ -0,0 +1,748 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — streaming verification
+ * Reads a ledger as NDJSON records (FileStorageAdapter files) or as a JSON
+ * snapshot in arbitrary chunks, checking every hash chain and matching every
+ * action as it arrives. Authorisations, events, approvals, keys and checkpoints
+ * are kept; actions are not, beyond the windows their frequency limits and
+ * budgets need, so memory does not grow with the number of actions.
+ */
+
+import { closeSync, openSync, readSync } from 'fs';
+import { StringDecoder } from 'string_decoder';
+import type {
+  AuthorisationEntry,
+  AuthorisationEvent,
+  ActionRecord,
+  ApprovalDecision,
+  ApprovalRecord,
+  ApprovalRequest,
+  ConsentMatch,
+  ConsentStatus,
+  IntegrityChain,
+  IntegrityFinding,
+  IntegrityFindingKind,
+  LedgerOptions,
+  MerkleCheckpoint,
+  SignatureFailure,
+  SignerKey,
+} from './types';
+import { schema } from './types';
+import {
+  chainHash,
+  authorisationPayload,
+  eventPayload,
+  actionPayload,
+  approvalPayload,
+  checkpointPayload,
+} from './hash';
+import { applyAuthorisationEvent } from './lifecycle';
+import { delegationAncestors } from './delegation';
+import { requestCoversAction } from './approval';
+import { ratificationDeadline } from './ratification';
+import { parseFrequencyLimit, type PeriodDefinition } from './period';
+import { parseBudget } from './budget';
+import { actionMoney, convertMoney } from './currency';
+import { merkleRoot, MerkleFrontier } from './merkle';
+import { matchConsent, type MatcherContext } from './matcher';
+import { verifyWithKeys } from './signing';
+import { parseStoredRecord, type StorageAdapter, type StoredRecord, type TornRecord } from './storage';
+
+const GENESIS = '0';
+
+export type StreamFormat = 'ndjson' | 'json';
+
+export interface StreamProgress {
+  bytes_read: number;
+  entries_read: number;
+  actions_matched: number;
+}
+
+export interface StreamVerifyOptions extends Pick<LedgerOptions, 'rateProvider' | 'constraintRegistry' | 'taxonomy' | 'agentRegistry'> {
+  format: StreamFormat;
+  /** Expected principal; by default the one the stream names */
+  principal_id?: string;
+  /** Trusted keys; by default the keys recorded in the stream so far */
+  keys?: SignerKey[];
+  /** Called with each action's match once it is final (emergency actions once decided, or at the end) */
+  onMatch?(match: ConsentMatch, action: ActionRecord): void;
+  onProgress?(progress: StreamProgress): void;
+  /** Entries between progress callbacks; defaults to 10000 */
+  progressEvery?: number;
+  /** Findings and signature failures kept in the result; defaults to 1000 */
+  maxFindings?: number;
+  /** Receives every entry read, e.g. to import a snapshot into a FileStorageAdapter */
+  storage?: StorageAdapter;
+  /** Evaluation time for ratification deadlines (ISO); defaults to the latest entry read */
+  now?: string;
+}
+
+export interface StreamVerifyResult {
+  valid: boolean;
+  principal_id: string | null;
+  authorisations_checked: number;
+  events_checked: number;
+  actions_checked: number;
+  approvals_checked: number;
+  checkpoints_checked: number;
+  findings: IntegrityFinding[];
+  signatures_checked: number;
+  signature_failures: SignatureFailure[];
+  /** Findings and signature failures beyond maxFindings, counted but not kept */
+  findings_omitted: number;
+  /** Actions per match status */
+  statuses: Record<ConsentStatus, number>;
+  actions_with_violations: number;
+  /** An incomplete final NDJSON line, which is not verified */
+  torn: TornRecord | null;
+  bytes_read: number;
+}
+
+const SNAPSHOT_ARRAYS: Record<string, StoredRecord['kind']> = {
+  keys: 'key',
+  authorisations: 'authorisation',
+  events: 'event',
+  approvals: 'approval',
+  checkpoints: 'checkpoint',
+  actions: 'action',
+};
+
+interface SnapshotItem {
+  key: string;
+  value: unknown;
+  /** True for an element of a top-level array */
+  element: boolean;
+}
+
+/**
+ * Splits a JSON snapshot into its top-level values and the elements of its
+ * top-level arrays without holding more than one element in memory.
+ */
+class SnapshotSplitter {
+  private depth = 0;
+  private done = false;
+  private inString = false;
+  private escaped = false;
+  private expectValue = false;
+  private key = '';
+  private array: string | null = null;
+  private capture: 'key' | 'string' | 'primitive' | 'container' | null = null;
+  private captureDepth = 0;
+  private start = -1;
+  private parts: string[] = [];
+
+  push(chunk: string, emit: (item: SnapshotItem) => void): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (c === '\\') this.escaped = true;
+        else if (c === '"') {
+          this.inString = false;
+          if (this.capture === 'key') this.key = JSON.parse(this.take(chunk, i + 1));
+          else if (this.capture === 'string') emit({ key: this.key, value: JSON.parse(this.take(chunk, i + 1)), element: false });
+        }
+        continue;
+      }
+      if (this.capture === 'primitive' && (c === ',' || c === '}')) {
+        emit({ key: this.key, value: JSON.parse(this.take(chunk, i)), element: false });
+      }
+      if (c === ' ' || c === '\n' || c === '\r' || c === '\t') continue;
+      if (this.depth === 0) {
+        if (this.done || c !== '{') throw new Error('Invalid JSON snapshot: expected a single object');
+        this.depth = 1;
+        continue;
+      }
+      if (this.capture !== null) {
+        if (c === '"') this.inString = true;
+        else if (c === '{' || c === '[') this.depth++;
+        else if (c === '}' || c === ']') {
+          this.depth--;
+          if (this.capture === 'container' && this.depth === this.captureDepth) {
+            emit({ key: this.key, value: JSON.parse(this.take(chunk, i + 1)), element: this.array !== null });
+          }
+        }
+        continue;
+      }
+      if (this.depth === 1) {
+        if (c === '"') {
+          this.inString = true;
+          this.begin(this.expectValue ? 'string' : 'key', i, 1);
+        } else if (c === ':') this.expectValue = true;
+        else if (c === ',') this.expectValue = false;
+        else if (c === '}') {
+          this.depth = 0;
+          this.done = true;
+        } else if (!this.expectValue) throw new Error(`Invalid JSON snapshot: unexpected "${c}"`);
+        else if (c === '[') {
+          this.array = this.key;
+          this.depth = 2;
+        } else if (c === '{') {
+          this.begin('container', i, 1);
+          this.depth = 2;
+        } else this.begin('primitive', i, 1);
+        continue;
+      }
+      // Inside a top-level array: elements are objects
+      if (c === ',') continue;
+      if (c === ']') {
+        this.array = null;
+        this.depth = 1;
+      } else if (c === '{' || c === '[') {
+        this.begin('container', i, 2);
+        this.depth = 3;
+      } else {
+        throw new Error(`Invalid JSON snapshot: unexpected value in ${this.array}`);
+      }
+    }
+    if (this.capture !== null) {
+      this.parts.push(chunk.slice(this.start));
+      this.start = 0;
+    }
+  }
+
+  end(): void {
+    if (!this.done) throw new Error('Invalid JSON snapshot: truncated');
+  }
+
+  private begin(capture: NonNullable<SnapshotSplitter['capture']>, start: number, depth: number): void {
+    this.capture = capture;
+    this.start = start;
+    this.captureDepth = depth;
+  }
+
+  private take(chunk: string, end: number): string {
+    const text = this.parts.join('') + chunk.slice(this.start, end);
+    this.parts = [];
+    this.capture = null;
+    this.start = -1;
+    return text;
+  }
+}
+
+/** Longest window a period can cover, allowing for 31-day calendar months */
+function windowMs(period: PeriodDefinition): number {
+  return period.months ? (period.ms / 30) * 31 : period.ms;
+}
+
+/**
+ * Push-style verifier: write() chunks in order, then end(). Chunks can come
+ * from anywhere, e.g. `for await (const chunk of createReadStream(path)) verifier.write(chunk)`.
+ *
+ * Entries are judged against what the stream has shown so far: in NDJSON that is
+ * the ledger as it stood when the entry was appended; snapshots list actions
+ * last, so they are matched against the final state as in checkAllActions().
+ * Duplicate action IDs are not checked, as that would need every ID in memory.
+ */
+export class StreamingVerifier {
+  private readonly options: StreamVerifyOptions;
+  private readonly decoder = new StringDecoder('utf8');
+  private readonly splitter = new SnapshotSplitter();
+  private readonly maxFindings: number;
+  private readonly progressEvery: number;
+  private pendingLine = '';
+  private badLine: TornRecord | null = null;
+  private line = 0;
+  private lineOffset = 0;
+  private bytes = 0;
+  private entries = 0;
+  private matched = 0;
+  private principal_id: string | null;
+  private headerWritten = false;
+  private actionsStarted = false;
+
+  private readonly chains = new Map<IntegrityChain, { count: number; prev: string; prevTime: number; ids?: Set<string> }>();
+  private readonly findings: IntegrityFinding[] = [];
+  private readonly signatureFailures: SignatureFailure[] = [];
+  private omitted = 0;
+  private signaturesChecked = 0;
+  private readonly keys: SignerKey[] = [];
+
+  private readonly authorisations: AuthorisationEntry[] = [];
+  private readonly authById = new Map<string, AuthorisationEntry>();
+  private readonly stateById = new Map<string, AuthorisationEntry>();
+  private readonly decisions = new Map<string, AuthorisationEvent>();
+  private readonly requests = new Map<string, { request: ApprovalRequest; index: number }>();
+  private available: Array<{ request: ApprovalRequest; decision: ApprovalDecision; index: number }> = [];
+  private readonly actionFrontier = new MerkleFrontier();
+  private readonly pendingCheckpoints: Array<{ checkpoint: MerkleCheckpoint; index: number }> = [];
+
+  /** Recent actions per authorisation (and delegation ancestor), trimmed to its longest window */
+  private readonly histories = new Map<string, ActionRecord[]>();
+  private readonly budgetCarried = new Map<string, Map<string, number>>();
+  private readonly horizons = new Map<string, number>();
+  /** Emergency actions awaiting a decision, with their match if ratified */
+  private readonly pendingEmergency = new Map<string, { action: ActionRecord; ratified: ConsentMatch }>();
+  /** Latest entry timestamp on any chain, as ConsentLedger judges ratification deadlines */
+  private latestTime = -Infinity;
+
+  private readonly statuses: Record<ConsentStatus, number> = {
+    authorised: 0,
+    exceeded: 0,
+    within_bounds: 0,
+    revoked: 0,
+    expired: 0,
+    pending_ratification: 0,
+    denied: 0,
+  };
+  private withViolations = 0;
+
+  constructor(options: StreamVerifyOptions) {
+    this.options = options;
+    this.principal_id = options.principal_id ?? null;
+    this.maxFindings = options.maxFindings ?? 1000;
+    this.progressEvery = options.progressEvery ?? 10000;
+  }
+
+  write(chunk: string | Buffer): void {
+    this.bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk, 'utf8') : chunk.length;
+    this.consume(typeof chunk === 'string' ? chunk : this.decoder.write(chunk));
+  }
+
+  private consume(text: string): void {
+    if (this.options.format === 'json') {
+      this.splitter.push(text, (item) => this.snapshotItem(item));
+      return;
+    }
+    const lines = (this.pendingLine + text).split('\n');
+    this.pendingLine = lines.pop()!;
+    for (const line of lines) this.ndjsonLine(line);
+  }
+
+  end(): StreamVerifyResult {
+    const rest = this.decoder.end();
+    if (rest) this.consume(rest);
+    let torn: TornRecord | null = null;
+    if (this.options.format === 'json') {
+      this.splitter.end();
+    } else {
+      if (this.pendingLine.trim() !== '') {
+        // A final line without its newline is torn only if it does not parse, as in FileStorageAdapter.load()
+        const line = this.pendingLine;
+        this.pendingLine = '';
+        this.ndjsonLine(line);
+      }
+      torn = this.badLine;
+    }
+    for (const { checkpoint, index } of this.pendingCheckpoints) {
+      this.finding(
+        'checkpoint',
+        index,
+        checkpoint.id,
+        'checkpoint_mismatch',
+        `${checkpoint.authorisation_count} authorisations, ${checkpoint.action_count} actions`,
+        `${this.authorisations.length} authorisations, ${this.actionFrontier.size} actions`
+      );
+    }
+    for (const { action } of this.pendingEmergency.values()) {
+      this.emit(this.match(action, this.decisions), action);
+    }
+    this.pendingEmergency.clear();
+    this.progress();
+    return {
+      valid: this.findings.length === 0 && this.signatureFailures.length === 0 && this.omitted === 0,
+      principal_id: this.principal_id,
+      authorisations_checked: this.count('authorisation'),
+      events_checked: this.count('event'),
+      actions_checked: this.count('action'),
+      approvals_checked: this.count('approval'),
+      checkpoints_checked: this.count('checkpoint'),
+      findings: this.findings,
+      signatures_checked: this.signaturesChecked,
+      signature_failures: this.signatureFailures,
+      findings_omitted: this.omitted,
+      statuses: this.statuses,
+      actions_with_violations: this.withViolations,
+      torn,
+      bytes_read: this.bytes,
+    };
+  }
+
+  private ndjsonLine(line: string): void {
+    this.line++;
+    const offset = this.lineOffset;
+    this.lineOffset += Buffer.byteLength(line, 'utf8') + 1;
+    if (line.trim() === '') return;
+    // Only the final line may be damaged; anything after it means corruption
+    if (this.badLine) throw new Error(`Corrupt record at line ${this.badLine.line}`);
+    const record = parseStoredRecord(line);
+    if (!record) {
+      this.badLine = { line: this.line, offset, text: line };
+      return;
+    }
+    if (record.kind === 'ledger') {
+      if (this.entries > 0 || this.headerWritten) throw new Error(`Unexpected ledger record at line ${this.line}`);
+      this.header(record.entry.schema, record.entry.principal_id);
+      return;
+    }
+    this.entry(record);
+  }
+
+  private snapshotItem(item: SnapshotItem): void {
+    if (!item.element) {
+      if (item.key === 'schema' && item.value !== schema) throw new Error(`Invalid schema: expected ${schema}`);
+      if (item.key === 'principal_id') this.header(schema, item.value as string);
+      return;
+    }
+    const kind = SNAPSHOT_ARRAYS[item.key];
+    if (!kind) return;
+    if (kind !== 'action' && this.actionsStarted) {
+      throw new Error(`Snapshot lists ${item.key} after actions; export it again with toJSON() to stream it`);
+    }
+    this.entry({ kind, entry: item.value } as StoredRecord);
+  }
+
+  private header(stream_schema: string, principal_id: string): void {
+    if (stream_schema !== schema) throw new Error(`Invalid schema: expected ${schema}`);
+    if (this.principal_id !== null && this.principal_id !== principal_id) {
+      throw new Error(`Stream belongs to principal: ${principal_id}`);
+    }
+    this.principal_id = principal_id;
+    this.headerWritten = true;
+    this.options.storage?.append({ kind: 'ledger', entry: { schema, principal_id } });
+  }
+
+  private entry(record: StoredRecord): void {
+    if (this.principal_id === null) throw new Error('Stream names no principal before its first entry');
+    if (!this.headerWritten) this.header(schema, this.principal_id);
+    switch (record.kind) {
+      case 'key':
+        this.keys.push(record.entry);
+        break;
+      case 'authorisation':
+        this.authorisation(record.entry);
+        break;
+      case 'event':
+        this.event(record.entry);
+        break;
+      case 'approval':
+        this.approval(record.entry);
+        break;
+      case 'checkpoint':
+        this.checkpoint(record.entry);
+        break;
+      case 'action':
+        this.actionsStarted = true;
+        this.action(record.entry);
+        break;
+      case 'ledger':
+        throw new Error('Unexpected ledger record');
+    }
+    this.options.storage?.append(record);
+    this.entries++;
+    if (this.entries % this.progressEvery === 0) this.progress();
+  }
+
+  private progress(): void {
+    this.options.onProgress?.({ bytes_read: this.bytes, entries_read: this.entries, actions_matched: this.matched });
+  }
+
+  private count(chain: IntegrityChain): number {
+    return this.chains.get(chain)?.count ?? 0;
+  }
+
+  private finding(
+    chain: IntegrityChain,
+    index: number,
+    entry_id: string,
+    kind: IntegrityFindingKind,
+    expected: string,
+    actual: string
+  ): void {
+    if (this.findings.length >= this.maxFindings) this.omitted++;
+    else this.findings.push({ chain, index, entry_id, kind, expected, actual });
+  }
+
+  /** Link, payload hash, duplicate ID and timestamp order, as in ConsentLedger.verify(); returns the entry's index */
+  private link(chain: IntegrityChain, e: { id: string; timestamp: string; hash: string; previous_hash: string }, payload: string): number {
+    let state = this.chains.get(chain);
+    if (!state) {
+      state = { count: 0, prev: GENESIS, prevTime: -Infinity, ...(chain !== 'action' ? { ids: new Set<string>() } : {}) };
+      this.chains.set(chain, state);
+    }
+    const i = state.count++;
+    if (e.previous_hash !== state.prev) this.finding(chain, i, e.id, 'broken_link', state.prev, e.previous_hash);
+    const expected = chainHash(e.previous_hash, payload);
+    if (e.hash !== expected) this.finding(chain, i, e.id, 'hash_mismatch', expected, e.hash);
+    if (state.ids) {
+      if (state.ids.has(e.id)) this.finding(chain, i, e.id, 'duplicate_id', 'unique ID', e.id);
+      state.ids.add(e.id);
+    }
+    const t = new Date(e.timestamp).getTime();
+    if (t < state.prevTime) {
+      this.finding(chain, i, e.id, 'timestamp_regression', `≥ ${new Date(state.prevTime).toISOString()}`, e.timestamp);
+    }
+    if (!Number.isNaN(t)) {
+      state.prevTime = Math.max(state.prevTime, t);
+      this.latestTime = Math.max(this.latestTime, t);
+    }
+    state.prev = e.hash;
+    return i;
+  }
+
+  private checkPrincipal(chain: IntegrityChain, index: number, entry_id: string, principal_id: string): void {
+    if (principal_id !== this.principal_id) {
+      this.finding(chain, index, entry_id, 'principal_mismatch', this.principal_id!, principal_id);
+    }
+  }
+
+  private checkSignature(
+    chain: SignatureFailure['chain'],
+    index: number,
+    entry_id: string,
+    signer_id: string,
+    payload: string,
+    signature: string | undefined
+  ): void {
+    const keys = this.options.keys ?? this.keys;
+    const hasKey = keys.some((k) => k.signer_id === signer_id);
+    let reason: SignatureFailure['reason'] | null = null;
+    if (signature === undefined) {
+      if (hasKey) reason = 'missing';
+    } else {
+      this.signaturesChecked++;
+      if (!hasKey) reason = 'unknown_key';
+      else if (!verifyWithKeys(payload, signature, signer_id, keys)) reason = 'invalid';
+    }
+    if (reason === null) return;
+    if (this.findings.length + this.signatureFailures.length >= this.maxFindings) this.omitted++;
+    else this.signatureFailures.push({ chain, index, entry_id, signer_id, reason });
+  }
+
+  private authorisation(a: AuthorisationEntry): void {
+    const payload = authorisationPayload(a);
+    const i = this.link('authorisation', a, payload);
+    this.checkPrincipal('authorisation', i, a.id, a.principal_id);
+    this.checkSignature('authorisation', i, a.id, a.principal_id, payload, a.signature);
+    this.authorisations.push(a);
+    this.authById.set(a.id, a);
+    this.stateById.set(a.id, a);
+  }
+
+  private event(e: AuthorisationEvent): void {
+    const payload = eventPayload(e);
+    const i = this.link('event', e, payload);
+    this.checkPrincipal('event', i, e.id, e.principal_id);
+    const grant = this.authById.get(e.authorisation_id);
+    if (!grant) {
+      this.finding('event', i, e.id, 'unknown_authorisation', 'recorded authorisation', e.authorisation_id);
+    } else {
+      if (grant.hash !== e.authorisation_hash) {
+        this.finding('event', i, e.id, 'authorisation_hash_mismatch', grant.hash, e.authorisation_hash);
+      }
+      this.stateById.set(e.authorisation_id, applyAuthorisationEvent(this.stateById.get(e.authorisation_id)!, e));
+    }
+    this.checkSignature('event', i, e.id, e.principal_id, payload, e.signature);
+    if ((e.event_type === 'ratification' || e.event_type === 'rejection') && e.action_id) {
+      this.decisions.set(e.action_id, e);
+      const pending = this.pendingEmergency.get(e.action_id);
+      if (pending) {
+        this.pendingEmergency.delete(e.action_id);
+        const auth = this.stateById.get(pending.action.authorisation_id);
+        const deadline = auth ? ratificationDeadline(auth, pending.action) : null;
+        const onTime = e.event_type === 'ratification' && (deadline === null || new Date(e.timestamp).getTime() <= deadline);
+        this.emit(onTime ? pending.ratified : this.match(pending.action, this.decisions), pending.action);
+      }
+    }
+  }
+
+  private approval(r: ApprovalRecord): void {
+    const payload = approvalPayload(r);
+    const i = this.link('approval', r, payload);
+    this.checkSignature('approval', i, r.id, r.record_type === 'request' ? r.agent_id : r.approver_id, payload, r.signature);
+    if (r.record_type === 'request') {
+      this.requests.set(r.id, { request: r, index: i });
+      return;
+    }
+    // The latest decision on a request wins, as in approvalDecisions(), unless the requesting agent made it
+    if (this.requests.get(r.request_id)?.request.agent_id === r.approver_id) return;
+    this.available = this.available.filter((x) => x.request.id !== r.request_id);
+    const request = this.requests.get(r.request_id);
+    if (r.record_type === 'approved' && request) {
+      this.available.push({ ...request, decision: r });
+      this.available.sort((x, y) => x.index - y.index);
+    }
+  }
+
+  private checkpoint(c: MerkleCheckpoint): void {
+    const i = this.link('checkpoint', c, checkpointPayload(c));
+    if (c.action_count > this.actionFrontier.size) {
+      this.pendingCheckpoints.push({ checkpoint: c, index: i });
+    } else if (c.action_count < this.actionFrontier.size && c.action_count > 0) {
+      // The action root at that size is gone: checkpoints must precede the actions they cover
+      this.finding('checkpoint', i, c.id, 'checkpoint_mismatch', `read after ${c.action_count} actions`, `read after ${this.actionFrontier.size} actions`);
+    } else {
+      this.checkRoots(c, i);
+    }
+  }
+
+  private checkRoots(c: MerkleCheckpoint, i: number): void {
+    if (c.authorisation_count > this.authorisations.length) {
+      this.finding(
+        'checkpoint',
+        i,
+        c.id,
+        'checkpoint_mismatch',
+        `${c.authorisation_count} authorisations`,
+        `${this.authorisations.length} authorisations`
+      );
+      return;
+    }
+    const authRoot = merkleRoot(this.authorisations.slice(0, c.authorisation_count).map((a) => a.hash));
+    if (authRoot !== c.authorisation_root) this.finding('checkpoint', i, c.id, 'checkpoint_mismatch', c.authorisation_root, authRoot);
+    const actionRoot = c.action_count === 0 ? merkleRoot([]) : this.actionFrontier.root();
+    if (actionRoot !== c.action_root) this.finding('checkpoint', i, c.id, 'checkpoint_mismatch', c.action_root, actionRoot);
+  }
+
+  private action(a: ActionRecord): void {
+    const payload = actionPayload(a);
+    const i = this.link('action', a, payload);
+    const grant = this.authById.get(a.authorisation_id);
+    if (grant && new Date(grant.timestamp) > new Date(a.timestamp)) {
+      this.finding('action', i, a.id, 'authorisation_after_action', `authorised by ${a.timestamp}`, grant.timestamp);
+    }
+    this.checkSignature('action', i, a.id, a.agent_id, payload, a.signature);
+    this.actionFrontier.append(a.hash);
+    for (let k = this.pendingCheckpoints.length - 1; k >= 0; k--) {
+      const { checkpoint, index } = this.pendingCheckpoints[k];
+      if (checkpoint.action_count === this.actionFrontier.size) {
+        this.pendingCheckpoints.splice(k, 1);
+        this.checkRoots(checkpoint, index);
+      }
+    }
+
+    const auth = this.stateById.get(a.authorisation_id);
+    const ids = auth
+      ? [auth.id, ...delegationAncestors(auth, this.stateById).ancestors.map((x) => x.id)]
+      : [a.authorisation_id];
+    for (const id of ids) {
+      const list = this.histories.get(id) ?? [];
+      list.push(a);
+      this.histories.set(id, list);
+    }
+    const approval = this.assignApproval(a);
+    if (auth?.scope === 'emergency' && !this.decisions.has(a.id)) {
+      // Judged by its constraints if ratified later; otherwise settled at the end of the stream
+      const ratified = new Map([[a.id, { event_type: 'ratification' } as AuthorisationEvent]]);
+      this.pendingEmergency.set(a.id, { action: a, ratified: this.match(a, ratified, approval) });
+    } else {
+      this.emit(this.match(a, this.decisions, approval), a);
+    }
+    for (const id of ids) this.trim(id, a);
+  }
+
+  /** The approval used up by the action, as in assignApprovals() */
+  private assignApproval(action: ActionRecord): ApprovalDecision | undefined {
+    if (action.outcome === 'denied') return undefined;
+    const t = new Date(action.timestamp).getTime();
+    const idx = this.available.findIndex(
+      (x) => requestCoversAction(x.request, action) && new Date(x.decision.timestamp).getTime() <= t
+    );
+    return idx >= 0 ? this.available.splice(idx, 1)[0].decision : undefined;
+  }
+
+  private match(
+    action: ActionRecord,
+    ratifications: Map<string, AuthorisationEvent>,
+    approval?: ApprovalDecision
+  ): ConsentMatch {
+    const approvals = new Map<string, ApprovalDecision>(approval ? [[action.id, approval]] : []);
+    const context: MatcherContext = {
+      actionsByAuthorisation: this.histories,
+      budgetCarried: this.budgetCarried,
+      rateProvider: this.options.rateProvider,
+      authorisationsById: this.stateById,
+      ratificationsByAction: ratifications,
+      approvalsByAction: approvals,
+      constraintRegistry: this.options.constraintRegistry,
+      taxonomy: this.options.taxonomy,
+      agentRegistry: this.options.agentRegistry,
+      now: this.options.now ?? (Number.isFinite(this.latestTime) ? new Date(this.latestTime).toISOString() : undefined),
+    };
+    return matchConsent(this.stateById.get(action.authorisation_id) ?? null, action, context);
+  }
+
+  private emit(match: ConsentMatch, action: ActionRecord): void {
+    this.matched++;
+    this.statuses[match.status]++;
+    if (match.violations.length > 0) this.withViolations++;
+    this.options.onMatch?.(match, action);
+  }
+
+  /**
+   * Drop actions older than the longest frequency or budget window of the
+   * authorisation, totalling their spend under lifetime budgets first.
+   */
+  private trim(authorisation_id: string, latest: ActionRecord): void {
+    const list = this.histories.get(authorisation_id)!;
+    const auth = this.stateById.get(authorisation_id);
+    const horizon = auth ? this.horizon(auth) : 0;
+    const cutoff = new Date(latest.timestamp).getTime() - horizon;
+    let drop = 0;
+    while (drop < list.length - 1 && new Date(list[drop].timestamp).getTime() <= cutoff) drop++;
+    if (drop === 0) return;
+    if (auth) {
+      for (const c of auth.constraints) {
+        if (c.type !== 'budget') continue;
+        const budget = parseBudget(c.parameter);
+        if (!budget || budget.period) continue;
+        const carried = this.budgetCarried.get(auth.id) ?? new Map<string, number>();
+        let total = carried.get(c.parameter) ?? 0;
+        for (const a of list.slice(0, drop)) {
+          const money = a.outcome !== 'denied' ? actionMoney(a.parameters) : null;
+          const amount = money ? convertMoney(money, budget.limit.currency, this.options.rateProvider, a.timestamp) : null;
+          if (amount !== null) total += Math.max(amount, 0);
+        }
+        carried.set(c.parameter, total);
+        this.budgetCarried.set(auth.id, carried);
+      }
+    }
+    list.splice(0, drop);
+  }
+
+  private horizon(auth: AuthorisationEntry): number {
+    let ms = this.horizons.get(auth.id);
+    if (ms === undefined) {
+      ms = 0;
+      for (const c of auth.constraints) {
+        const period = c.type === 'frequency_limit'
+          ? parseFrequencyLimit(c.parameter)?.period
+          : c.type === 'budget'
+            ? parseBudget(c.parameter)?.period
+            : undefined;
+        if (period) ms = Math.max(ms, windowMs(period));
+      }
+      this.horizons.set(auth.id, ms);
+    }
+    return ms;
+  }
+}
+
+/**
+ * Verify chunks from any iterable source with a StreamingVerifier.
+ */
+export function verifyStream(chunks: Iterable<string | Buffer>, options: StreamVerifyOptions): StreamVerifyResult {
+  const verifier = new StreamingVerifier(options);
+  for (const chunk of chunks) verifier.write(chunk);
+  return verifier.end();
+}
+
+/**
+ * Verify a ledger file in fixed-size chunks. The format defaults to NDJSON for
+ * .ndjson and .jsonl files and to a JSON snapshot otherwise.
+ */
+export function verifyLedgerFile(
+  path: string,
+  options?: Partial<StreamVerifyOptions> & { chunkSize?: number }
+): StreamVerifyResult {
+  const format = options?.format ?? (/\.(ndjson|jsonl)$/i.test(path) ? 'ndjson' : 'json');
+  const buffer = Buffer.alloc(options?.chunkSize ?? 64 * 1024);
+  const fd = openSync(path, 'r');
+  try {
+    const verifier = new StreamingVerifier({ ...options, format });
+    let n: number;
+    while ((n = readSync(fd, buffer, 0, buffer.length, null)) > 0) verifier.write(buffer.subarray(0, n));
+    return verifier.end();
+  } finally {
+    closeSync(fd);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — time_window constraint parameters
+ * Time zones are resolved with the built-in Intl APIs (zero external dependencies).
+ *
+ * A parameter is one or more clauses separated by ";":
+ *   "2024-01-01/2024-12-31"                      absolute range
+ *   "Mon-Fri 09:00-17:00 Europe/London"           recurring window (days and zone optional, zone defaults to UTC)
+ *   "22:00-06:00"                                 overnight window
+ *   "except 2026-12-25,2026-12-26 Europe/London"  blackout local dates
+ *   "except 2026-12-24T18:00Z/2026-12-27T00:00Z"  blackout absolute range
+ * An action is allowed if it falls in any window (or no windows are given) and in no blackout.
+ */
+
+import { LruCache } from './lru';
+
+export interface RecurringWindow {
+  kind: 'recurring';
+  /** 0 = Sunday … 6 = Saturday */
+  days: number[];
+  /** Minutes after local midnight */
+  start: number;
+  end: number;
+  timeZone: string;
+}
+
+export interface AbsoluteWindow {
+  kind: 'absolute';
+  start: number;
+  end: number;
+}
+
+export interface BlackoutDates {
+  kind: 'dates';
+  /** Local dates (YYYY-MM-DD) in timeZone */
+  dates: string[];
+  timeZone: string;
+}
+
+export type Blackout = BlackoutDates | AbsoluteWindow;
+
+export interface TimeWindowSpec {
+  windows: Array<RecurringWindow | AbsoluteWindow>;
+  blackouts: Blackout[];
+}
+
+export interface TimeWindowResult {
+  allowed: boolean;
+  /** Why the instant is outside the window, when not allowed */
+  reason: string | null;
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DEFAULT_ZONE = 'UTC';
+
+const formatters = new LruCache<string, Intl.DateTimeFormat>(64);
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+function isTimeZone(token: string): boolean {
+  if (!/^[A-Za-z][A-Za-z0-9_+\-/]*$/.test(token)) return false;
+  try {
+    formatter(token);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local weekday, minutes after midnight and date of an instant in a time zone.
+ */
+export function localTime(t: number, timeZone: string): { weekday: number; minutes: number; date: string } {
+  const parts: Record<string, string> = {};
+  for (const p of formatter(timeZone).formatToParts(new Date(t))) parts[p.type] = p.value;
+  // Some engines render midnight as 24 with hour12: false
+  const hour = parseInt(parts.hour, 10) % 24;
+  return {
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    minutes: hour * 60 + parseInt(parts.minute, 10),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+function parseClock(s: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(s);
+  if (!m) return null;
+  const h = parseInt(m[1], 10);
+  const min = parseInt(m[2], 10);
+  if (min > 59 || h > 24 || (h === 24 && min !== 0)) return null;
+  return h * 60 + min;
+}
+
+function parseDays(token: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of token.toLowerCase().split(',')) {
+    const [from, to, ...extra] = part.split('-');
+    if (extra.length > 0) return null;
+    const a = DAY_NAMES.indexOf(from);
+    const b = to === undefined ? a : DAY_NAMES.indexOf(to);
+    if (a < 0 || b < 0) return null;
+    for (let d = a; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === b) break;
+    }
+  }
+  return Array.from(days).sort((x, y) => x - y);
+}
+
+function parseAbsolute(token: string): AbsoluteWindow | null {
+  const [start, end, ...extra] = token.split('/');
+  if (!start || !end || extra.length > 0) return null;
+  const s = new Date(start).getTime();
+  const e = new Date(end).getTime();
+  if (Number.isNaN(s) || Number.isNaN(e)) return null;
+  return { kind: 'absolute', start: s, end: e };
+}
+
+function parseBlackout(tokens: string[]): Blackout {
+  const zone = tokens.length > 1 && isTimeZone(tokens[tokens.length - 1]) ? tokens.pop()! : DEFAULT_ZONE;
+  if (tokens.length !== 1) throw new Error(`Invalid blackout: except ${tokens.join(' ')}`);
+  const [value] = tokens;
+  const dates = value.split(',');
+  if (dates.every((d) => /^\d{4}-\d{2}-\d{2}$/.test(d) && !Number.isNaN(new Date(d).getTime()))) {
+    return { kind: 'dates', dates, timeZone: zone };
+  }
+  const range = parseAbsolute(value);
+  if (!range) throw new Error(`Invalid blackout: ${value}`);
+  return range;
+}
+
+function parseRecurring(tokens: string[], clause: string): RecurringWindow {
+  let days: number[] | null = null;
+  let start: number | null = null;
+  let end: number | null = null;
+  let timeZone: string | null = null;
+  for (const token of tokens) {
+    const clock = /^(\d{1,2}:\d{2})[-/](\d{1,2}:\d{2})$/.exec(token);
+    if (clock && start === null) {
+      start = parseClock(clock[1]);
+      end = parseClock(clock[2]);
+      if (start === null || end === null) throw new Error(`Invalid clock time in: ${clause}`);
+      continue;
+    }
+    const parsedDays: number[] | null = days === null ? parseDays(token) : null;
+    if (parsedDays) {
+      days = parsedDays;
+      continue;
+    }
+    if (timeZone === null && isTimeZone(token)) {
+      timeZone = token;
+      continue;
+    }
+    throw new Error(`Unrecognised time window token "${token}" in: ${clause}`);
+  }
+  if (start === null || end === null) throw new Error(`Missing clock range in: ${clause}`);
+  return { kind: 'recurring', days: days ?? ALL_DAYS, start, end, timeZone: timeZone ?? DEFAULT_ZONE };
+}
+
+/**
+ * Parse a time_window parameter. Throws on anything it cannot interpret, so that
+ * callers never silently treat a malformed window as unrestricted.
+ */
+export function parseTimeWindow(parameter: string): TimeWindowSpec {
+  const spec: TimeWindowSpec = { windows: [], blackouts: [] };
+  const clauses = parameter.split(';').map((c) => c.trim()).filter(Boolean);
+  if (clauses.length === 0) throw new Error('Empty time window');
+  for (const clause of clauses) {
+    const tokens = clause.split(/\s+/);
+    if (tokens[0].toLowerCase() === 'except') {
+      spec.blackouts.push(parseBlackout(tokens.slice(1)));
+      continue;
+    }
+    const absolute = tokens.length === 1 ? parseAbsolute(tokens[0]) : null;
+    spec.windows.push(absolute ?? parseRecurring(tokens, clause));
+  }
+  return spec;
+}
+
+function inRecurring(w: RecurringWindow, t: number): boolean {
+  const { weekday, minutes } = localTime(t, w.timeZone);
+  if (w.start === w.end) return w.days.includes(weekday);
+  if (w.start < w.end) return w.days.includes(weekday) && minutes >= w.start && minutes < w.end;
+  // Overnight: the late part belongs to the listed day, the early part to the day after
+  const previous = (weekday + 6) % 7;
+  return (w.days.includes(weekday) && minutes >= w.start) || (w.days.includes(previous) && minutes < w.end);
+}
+
+function inAbsolute(w: AbsoluteWindow, t: number): boolean {
+  return t >= w.start && t <= w.end;
+}
+
+/**
+ * Evaluate an instant against a parsed time window.
+ */
+export function evaluateTimeWindow(spec: TimeWindowSpec, t: number): TimeWindowResult {
+  for (const b of spec.blackouts) {
+    if (b.kind === 'dates') {
+      const { date } = localTime(t, b.timeZone);
+      if (b.dates.includes(date)) return { allowed: false, reason: `blackout date ${date} (${b.timeZone})` };
+    } else if (inAbsolute(b, t)) {
+      return { allowed: false, reason: 'blackout period' };
+    }
+  }
+  if (spec.windows.length === 0) return { allowed: true, reason: null };
+  const inside = spec.windows.some((w) => (w.kind === 'recurring' ? inRecurring(w, t) : inAbsolute(w, t)));
+  return inside ? { allowed: true, reason: null } : { allowed: false, reason: 'outside permitted window' };
+}
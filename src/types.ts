@@ -2,6 +2,13 @@
  * Consent Ledger Protocol (CNL-1.0) — type definitions
  */
 
+import type { RateProvider } from './currency';
+import type { ConstraintRegistry } from './constraint-registry';
+import type { ParameterSchema } from './parameter-schema';
+import type { DomainTaxonomy } from './domain';
+import type { HookErrorHandler } from './hooks';
+import type { AgentRegistry } from './agent-registry';
+
 export const schema = 'CNL-1.0' as const;
 
 export type ConsentScope =
@@ -17,17 +24,23 @@ export type ConsentStatus =
   | 'within_bounds'
   | 'revoked'
   | 'expired'
-  | 'pending_ratification';
+  | 'pending_ratification'
+  | 'denied';
 
-export type ConstraintType =
+export type BuiltinConstraintType =
   | 'monetary_limit'
   | 'domain_restriction'
   | 'time_window'
   | 'approval_required'
   | 'recipient_restriction'
   | 'frequency_limit'
+  | 'budget'
+  | 'policy'
   | 'custom';
 
+/** Built-in types plus any type registered with a ConstraintRegistry */
+export type ConstraintType = BuiltinConstraintType | (string & {});
+
 export type ViolationSeverity = 'minor' | 'major' | 'critical';
 
 export interface ConsentConstraint {
@@ -47,10 +60,58 @@ export interface AuthorisationEntry {
   expires_at: string | null;
   revoked: boolean;
   revoked_at: string | null;
+  /** Replayed from expiry_change events, oldest first; absent on stored grants */
+  expiry_changes?: ExpiryChange[];
+  /** Emergency scope: how long the principal has to ratify each action, e.g. "24h" */
+  ratification_period?: string;
+  /** Required for delegated scope: the authorisation this one was delegated from */
+  parent_authorisation_id?: string;
+  /** Optional schema every action's parameters must satisfy */
+  parameter_schema?: ParameterSchema;
+  /** Optional Ed25519 signature by the principal over the entry payload (base64) */
+  signature?: string;
   hash: string;
   previous_hash: string;
 }
 
+/** An expiry change applies to actions taken from when it was made */
+export interface ExpiryChange {
+  changed_at: string;
+  /** Expiry in force until the change */
+  previous_expires_at: string | null;
+  expires_at: string | null;
+}
+
+export type AuthorisationEventType = 'revocation' | 'expiry_change' | 'ratification' | 'rejection';
+
+/**
+ * Lifecycle change to an authorisation. Grants are never rewritten; events are
+ * appended to their own hash chain and replayed to derive current state.
+ */
+export interface AuthorisationEvent {
+  id: string;
+  timestamp: string;
+  authorisation_id: string;
+  /** Hash of the grant this event applies to */
+  authorisation_hash: string;
+  event_type: AuthorisationEventType;
+  principal_id: string;
+  reason: string | null;
+  /** New expiry for expiry_change events; null otherwise or to remove expiry */
+  expires_at: string | null;
+  /** Set on revocations cascaded from an ancestor's revocation */
+  cascaded_from?: string;
+  /** Emergency action the principal ratified or rejected */
+  action_id?: string;
+  /** Optional Ed25519 signature by the principal over the event payload (base64) */
+  signature?: string;
+  hash: string;
+  previous_hash: string;
+}
+
+/** Absent on ordinary actions; 'denied' marks an attempt refused by the enforcement gate */
+export type ActionOutcome = 'performed' | 'denied';
+
 export interface ActionRecord {
   id: string;
   timestamp: string;
@@ -60,16 +121,49 @@ export interface ActionRecord {
   description: string;
   parameters: Record<string, unknown>;
   clearpath_trace_id?: string;
+  outcome?: ActionOutcome;
+  /** Optional Ed25519 signature by the agent over the action payload (base64) */
+  signature?: string;
   hash: string;
   previous_hash: string;
 }
 
+/** Running total against a budget constraint, in the budget currency */
+export interface BudgetUsage {
+  limit: number;
+  currency: string | null;
+  /** Period label, or null for a lifetime budget */
+  period: string | null;
+  spent: number;
+  remaining: number;
+  overspend: number;
+}
+
+/** Location of the sub-expression that failed a policy constraint */
+export interface PolicyFailure {
+  /** Source text of the failing sub-expression */
+  expression: string;
+  /** Character offsets within the policy source */
+  start: number;
+  end: number;
+  /** Values of the names referenced by the sub-expression */
+  values: Record<string, unknown>;
+  /** Set when evaluation stopped on a type error rather than a false result */
+  reason?: string;
+}
+
 export interface ConsentViolation {
   constraint_type: string;
   expected: string;
   actual: string;
   severity: ViolationSeverity;
   description: string;
+  /** Set on budget violations */
+  budget?: BudgetUsage;
+  /** Set on policy violations: the failing sub-expression */
+  policy?: PolicyFailure;
+  /** Set on parameter_schema violations: JSON pointer into the action parameters */
+  path?: string;
 }
 
 export interface ConsentMatch {
@@ -80,6 +174,60 @@ export interface ConsentMatch {
   matched_at: string;
 }
 
+export interface PendingRatification {
+  action_id: string;
+  authorisation_id: string;
+  action_timestamp: string;
+  /** null for grants recorded without a ratification period */
+  deadline: string | null;
+  overdue: boolean;
+}
+
+export type ActionDecisionKind = 'allow' | 'deny' | 'needs_approval';
+
+/**
+ * What the ledger does with a proposed action that is not allowed:
+ * - reject: nothing is appended
+ * - record_denied: the attempt is appended to the action chain with outcome 'denied'
+ */
+export type EnforcementMode = 'reject' | 'record_denied';
+
+export interface CheckOptions {
+  /** Judge ratification deadlines at this time (ISO) instead of the ledger's latest entry */
+  at?: string;
+}
+
+export interface LedgerOptions {
+  /** Applies to requestAction(); defaults to 'reject' */
+  enforcement?: EnforcementMode;
+  /** Converts action amounts for currency-aware monetary constraints */
+  rateProvider?: RateProvider;
+  /** Evaluators for application-defined constraint types; defaults to an empty registry */
+  constraintRegistry?: ConstraintRegistry;
+  /** Resolves parent and alias domains for domain restrictions; defaults to slash-separated paths */
+  taxonomy?: DomainTaxonomy;
+  /** Registered agents and authority levels; when set, unknown or suspended agents cannot act */
+  agentRegistry?: AgentRegistry;
+  /** Who besides the principal may decide approval requests; the requesting agent never may */
+  approvers?: string[];
+  /** Record a Merkle checkpoint automatically after every N actions */
+  checkpointEvery?: number;
+  /** Run detectScopeCreep() after every N actions, so scopeCreepDetected handlers hear of new patterns */
+  detectScopeCreepEvery?: number;
+  /** Receives errors thrown or rejected by event handlers; otherwise they are dropped */
+  onHookError?: HookErrorHandler;
+}
+
+export interface ActionDecision {
+  decision: ActionDecisionKind;
+  violations: ConsentViolation[];
+  match: ConsentMatch;
+  /** The appended record: the action if allowed, the denied attempt under record_denied, otherwise null */
+  record: ActionRecord | null;
+  /** Open approval request for the action when the decision is needs_approval */
+  approval_request?: ApprovalRequest;
+}
+
 export type ScopeCreepPatternType =
   | 'gradual_expansion'
   | 'constraint_erosion'
@@ -97,17 +245,205 @@ export interface ScopeCreepPattern {
   occurrences: number;
 }
 
+export type ApprovalDecisionType = 'approved' | 'denied';
+
+/** An agent asking a human to approve a specific action */
+export interface ApprovalRequest {
+  id: string;
+  timestamp: string;
+  record_type: 'request';
+  authorisation_id: string;
+  agent_id: string;
+  action_type: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  /** Denied attempt awaiting this approval, when recorded under record_denied */
+  action_id?: string;
+  /** Optional Ed25519 signature by the agent over the record payload (base64) */
+  signature?: string;
+  hash: string;
+  previous_hash: string;
+}
+
+/** A human's answer to an approval request */
+export interface ApprovalDecision {
+  id: string;
+  timestamp: string;
+  record_type: ApprovalDecisionType;
+  authorisation_id: string;
+  request_id: string;
+  approver_id: string;
+  reason: string | null;
+  /** Optional Ed25519 signature by the approver over the record payload (base64) */
+  signature?: string;
+  hash: string;
+  previous_hash: string;
+}
+
+export type ApprovalRecord = ApprovalRequest | ApprovalDecision;
+
+/** Public key registered for a principal or agent */
+export interface SignerKey {
+  signer_id: string;
+  algorithm: 'ed25519';
+  /** SPKI PEM */
+  public_key: string;
+  registered_at: string;
+}
+
+export type MerkleChain = 'authorisation' | 'action';
+
+/** Merkle roots over the authorisation and action chains at one point in time, hash-chained */
+export interface MerkleCheckpoint {
+  id: string;
+  timestamp: string;
+  authorisation_count: number;
+  authorisation_root: string;
+  action_count: number;
+  action_root: string;
+  hash: string;
+  previous_hash: string;
+}
+
+/** Proof that one entry is a leaf of the tree with tree_size leaves */
+export interface InclusionProof {
+  chain: MerkleChain;
+  entry_id: string;
+  /** The entry's chain hash (the leaf data) */
+  entry_hash: string;
+  leaf_index: number;
+  tree_size: number;
+  /** Sibling hashes, bottom-up */
+  path: string[];
+  /** The entry itself, so its content can be checked against entry_hash */
+  entry?: AuthorisationEntry | ActionRecord;
+  /** Checkpoint whose root the proof targets, if any */
+  checkpoint_id?: string;
+}
+
+/** Proof that a tree of second_size leaves extends the one of first_size leaves */
+export interface ConsistencyProof {
+  chain: MerkleChain;
+  first_size: number;
+  second_size: number;
+  path: string[];
+}
+
+export interface CheckpointConsistency {
+  from_checkpoint_id: string;
+  to_checkpoint_id: string;
+  authorisations: ConsistencyProof;
+  actions: ConsistencyProof;
+}
+
+export type AnchorChain = 'authorisation' | 'event' | 'action' | 'approval';
+
+export interface ChainHead {
+  count: number;
+  /** Hash of the last entry, or '0' for an empty chain */
+  head_hash: string;
+}
+
+/**
+ * Head of every chain at one moment, to be kept outside the ledger (a file,
+ * a witness service). Later verification against it exposes deleted or rewritten entries.
+ */
+export interface LedgerAnchor {
+  schema: typeof schema;
+  principal_id: string;
+  timestamp: string;
+  chains: Record<AnchorChain, ChainHead>;
+  /** Optional Ed25519 signature by the principal over the anchor payload (base64) */
+  signature?: string;
+}
+
+export type AnchorFindingKind = 'truncation' | 'rollback' | 'fork' | 'invalid_anchor';
+
+export interface AnchorFinding {
+  kind: AnchorFindingKind;
+  anchor_timestamp: string;
+  /** Null for findings about the anchor itself */
+  chain: AnchorChain | null;
+  expected: string;
+  actual: string;
+}
+
+/** toJSON() writes actions last so a snapshot can be verified as a stream */
 export interface LedgerSnapshot {
   schema: typeof schema;
   principal_id: string;
+  keys: SignerKey[];
   authorisations: AuthorisationEntry[];
+  events: AuthorisationEvent[];
+  approvals: ApprovalRecord[];
+  checkpoints: MerkleCheckpoint[];
   actions: ActionRecord[];
 }
 
+export type SignatureFailureReason = 'missing' | 'invalid' | 'unknown_key';
+
+export interface SignatureFailure {
+  chain: 'authorisation' | 'event' | 'action' | 'approval';
+  index: number;
+  entry_id: string;
+  signer_id: string;
+  reason: SignatureFailureReason;
+}
+
+export type IntegrityChain = 'authorisation' | 'event' | 'action' | 'approval' | 'checkpoint';
+
+export type IntegrityFindingKind =
+  /** previous_hash does not equal the hash of the entry before */
+  | 'broken_link'
+  /** The stored hash does not match the recomputed payload hash */
+  | 'hash_mismatch'
+  | 'duplicate_id'
+  /** Timestamp earlier than an entry before it in the same chain */
+  | 'timestamp_regression'
+  /** Action timestamped before the authorisation it references was granted */
+  | 'authorisation_after_action'
+  /** principal_id differs from the ledger's principal */
+  | 'principal_mismatch'
+  /** Event references an authorisation missing from the ledger */
+  | 'unknown_authorisation'
+  /** Event's authorisation_hash differs from the referenced grant */
+  | 'authorisation_hash_mismatch'
+  /** Checkpoint roots or sizes do not match the chains */
+  | 'checkpoint_mismatch';
+
+export interface IntegrityFinding {
+  chain: IntegrityChain;
+  /** Position of the entry in its chain */
+  index: number;
+  entry_id: string;
+  kind: IntegrityFindingKind;
+  expected: string;
+  actual: string;
+}
+
 export interface VerifyResult {
   valid: boolean;
   authorisations_checked: number;
+  events_checked: number;
   actions_checked: number;
+  approvals_checked: number;
+  checkpoints_checked: number;
+  /** Every integrity problem found, in chain order; verification does not stop at the first */
+  findings: IntegrityFinding[];
+  signatures_checked: number;
+  signature_failures: SignatureFailure[];
+  anchors_checked: number;
+  anchor_findings: AnchorFinding[];
+}
+
+export interface VerifyOptions {
+  /**
+   * Trusted keys obtained out-of-band. When given, these replace the keys stored
+   * in the ledger (which an attacker rebuilding the JSON could also replace).
+   */
+  keys?: SignerKey[];
+  /** Anchors emitted earlier; the ledger must still contain and extend each of them */
+  anchors?: LedgerAnchor[];
 }
 
 export interface ActionFilters {
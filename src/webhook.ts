@@ -0,0 +1,176 @@
+/**
+ * Consent Ledger Protocol (CNL-1.0) — webhook dispatcher
+ * Posts ledger events as JSON to an HTTP endpoint. A failed delivery (network
+ * error, timeout, 408, 429 or 5xx) is retried with exponential backoff; other
+ * responses are final. Every attempt of one delivery carries the same delivery
+ * ID, so the receiver can drop duplicates.
+ */
+
+import { createHmac } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { generateId } from './hash';
+import { LEDGER_EVENTS, type LedgerEventMap, type LedgerEventName } from './hooks';
+import type { ConsentLedger } from './consent-ledger';
+
+export interface WebhookOptions {
+  url: string;
+  /** Events to deliver; defaults to all of them */
+  events?: LedgerEventName[];
+  headers?: Record<string, string>;
+  /** Signs each body: X-Consent-Ledger-Signature: sha256=<HMAC-SHA256 hex> */
+  secret?: string;
+  /** Attempts per delivery, including the first; defaults to 5 */
+  maxAttempts?: number;
+  /** Wait before the first retry, doubled for each one after; defaults to 1000 */
+  backoffMs?: number;
+  /** Upper bound on a single wait, including a Retry-After from the receiver; defaults to 60000 */
+  maxBackoffMs?: number;
+  /** Per-attempt timeout; defaults to 10000 */
+  timeoutMs?: number;
+  /** Called once per delivery when it succeeds or gives up */
+  onDelivery?: (delivery: WebhookDelivery) => void;
+}
+
+/** JSON body of each request */
+export interface WebhookBody<K extends LedgerEventName = LedgerEventName> {
+  id: string;
+  event: K;
+  principal_id: string;
+  created_at: string;
+  payload: LedgerEventMap[K];
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: LedgerEventName;
+  ok: boolean;
+  attempts: number;
+  /** Status of the last response, or null if none arrived */
+  status: number | null;
+  error?: string;
+}
+
+interface AttemptResult {
+  status: number | null;
+  retryAfterMs: number | null;
+  error?: string;
+}
+
+function retryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class WebhookDispatcher {
+  private readonly url: URL;
+  private readonly events: Set<LedgerEventName>;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly timeoutMs: number;
+  private inFlight = new Set<Promise<WebhookDelivery>>();
+
+  constructor(private readonly options: WebhookOptions) {
+    this.url = new URL(options.url);
+    if (this.url.protocol !== 'http:' && this.url.protocol !== 'https:') {
+      throw new Error(`Unsupported webhook URL: ${options.url}`);
+    }
+    for (const e of options.events ?? []) {
+      if (!LEDGER_EVENTS.includes(e)) throw new Error(`Unknown ledger event: ${e}`);
+    }
+    this.events = new Set(options.events ?? LEDGER_EVENTS);
+    this.maxAttempts = options.maxAttempts ?? 5;
+    if (!(Number.isInteger(this.maxAttempts) && this.maxAttempts > 0)) {
+      throw new Error(`Invalid maxAttempts: ${options.maxAttempts}`);
+    }
+    this.backoffMs = options.backoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  /**
+   * Deliver the ledger's events as they happen. Returns a function that stops.
+   */
+  attach(ledger: ConsentLedger): () => void {
+    const unsubscribe = [...this.events].map((event) =>
+      ledger.on(event, (payload) => {
+        this.send(event, payload, ledger.principal_id);
+      })
+    );
+    return () => unsubscribe.forEach((off) => off());
+  }
+
+  /**
+   * Deliver one event, retrying until it is accepted or attempts run out. Never rejects.
+   */
+  send<K extends LedgerEventName>(event: K, payload: LedgerEventMap[K], principal_id: string): Promise<WebhookDelivery> {
+    const body: WebhookBody<K> = { id: generateId(), event, principal_id, created_at: new Date().toISOString(), payload };
+    const delivery = this.deliver(body).then((result) => {
+      try {
+        this.options.onDelivery?.(result);
+      } catch {
+        // A throwing callback must not turn a delivery into a rejection
+      }
+      return result;
+    });
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+    return delivery;
+  }
+
+  /** Resolves once every delivery started so far has succeeded or given up */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) await Promise.all([...this.inFlight]);
+  }
+
+  private async deliver(body: WebhookBody): Promise<WebhookDelivery> {
+    const text = JSON.stringify(body);
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.attempt(body, text);
+      if (last.status !== null && last.status >= 200 && last.status < 300) {
+        return { id: body.id, event: body.event, ok: true, attempts: attempt, status: last.status };
+      }
+      if (!retryable(last.status) || attempt === this.maxAttempts) {
+        return { id: body.id, event: body.event, ok: false, attempts: attempt, status: last.status, error: last.error ?? `HTTP ${last.status}` };
+      }
+      const backoff = this.backoffMs * 2 ** (attempt - 1);
+      await sleep(Math.min(Math.max(backoff, last.retryAfterMs ?? 0), this.maxBackoffMs));
+    }
+  }
+
+  private attempt(body: WebhookBody, text: string): Promise<AttemptResult> {
+    const headers: Record<string, string> = {
+      ...this.options.headers,
+      'Content-Type': 'application/json',
+      'Content-Length': String(Buffer.byteLength(text)),
+      'X-Consent-Ledger-Event': body.event,
+      'X-Consent-Ledger-Delivery': body.id,
+    };
+    if (this.options.secret) {
+      headers['X-Consent-Ledger-Signature'] = `sha256=${createHmac('sha256', this.options.secret).update(text).digest('hex')}`;
+    }
+    const request = this.url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const failed = (error: unknown): AttemptResult => ({
+      status: null,
+      retryAfterMs: null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Promise<AttemptResult>((resolve) => {
+      const req = request(this.url, { method: 'POST', headers, timeout: this.timeoutMs }, (res) => {
+        res.resume();
+        res.on('end', () => {
+          const retryAfter = Number(res.headers['retry-after']);
+          resolve({ status: res.statusCode ?? null, retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : null });
+        });
+        res.on('error', (error) => resolve(failed(error)));
+      });
+      req.on('timeout', () => req.destroy(new Error(`Timed out after ${this.timeoutMs}ms`)));
+      req.on('error', (error) => resolve(failed(error)));
+      req.end(text);
+    }).catch(failed);
+  }
+}
@@ -3,7 +3,41 @@
  */
 
 import { ConsentLedger } from '../src/consent-ledger';
-import type { AuthorisationEntry, ActionRecord } from '../src/types';
+import { generateSigningKeyPair } from '../src/signing';
+import { parseFrequencyLimit } from '../src/period';
+import { parseTimeWindow, evaluateTimeWindow } from '../src/time-window';
+import { StaticRateProvider, parseMoney } from '../src/currency';
+import { compilePolicy, evaluatePolicy } from '../src/policy';
+import { FileAnchorStore } from '../src/anchor';
+import { FileStorageAdapter, MemoryStorageAdapter, type StoredRecord } from '../src/storage';
+import { StreamingVerifier, verifyLedgerFile, verifyStream } from '../src/stream';
+import { ActionIndex } from '../src/action-index';
+import { matchConsent } from '../src/matcher';
+import { applyAuthorisationEvent } from '../src/lifecycle';
+import { runCli } from '../src/cli';
+import { LedgerServer } from '../src/server';
+import { LedgerRegistry } from '../src/ledger-registry';
+import { AgentRegistry } from '../src/agent-registry';
+import { WebhookDispatcher, type WebhookBody, type WebhookDelivery } from '../src/webhook';
+import { chainHash, actionPayload, authorisationPayload } from '../src/hash';
+import { merkleRoot, inclusionPath, consistencyPath, verifyInclusion, verifyConsistency } from '../src/merkle';
+import { StaticTaxonomy, parseDomainRestriction, domainAllowed } from '../src/domain';
+import { ConstraintRegistry, type ConstraintTypeDefinition } from '../src/constraint-registry';
+import type {
+  AuthorisationEntry,
+  AuthorisationEvent,
+  ActionDecision,
+  ActionRecord,
+  ConsentMatch,
+  LedgerSnapshot,
+  VerifyResult,
+} from '../src/types';
+import fs, { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createServer, request as httpRequest, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
 
 // --- Helpers ---
 
@@ -200,6 +234,794 @@ describe('ConsentLedger — Matching', () => {
   });
 });
 
+// --- Frequency limits ---
+
+describe('ConsentLedger — Frequency limits', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function at(ledger: ConsentLedger, authorisation_id: string, iso: string): ActionRecord {
+    jest.setSystemTime(new Date(iso));
+    return action(ledger, authorisation_id, { parameters: {} });
+  }
+
+  function limited(ledger: ConsentLedger, parameter: string): AuthorisationEntry {
+    return auth(ledger, {
+      constraints: [{ type: 'frequency_limit', description: 'Rate limit', parameter }],
+    });
+  }
+
+  test('parses counts, periods and window modes', () => {
+    expect(parseFrequencyLimit('3/day')).toMatchObject({ limit: 3, period: { ms: 86400000 }, window: 'rolling' });
+    expect(parseFrequencyLimit('10/hour calendar')).toMatchObject({ limit: 10, period: { ms: 3600000 }, window: 'calendar' });
+    expect(parseFrequencyLimit('50/30d')).toMatchObject({ limit: 50, period: { ms: 30 * 86400000 } });
+    expect(parseFrequencyLimit('3')).toMatchObject({ limit: 3, period: { ms: 86400000 } });
+    expect(parseFrequencyLimit('3/fortnight')).toBeNull();
+  });
+
+  test('only earlier actions inside the window count', () => {
+    jest.useFakeTimers();
+    const ledger = new ConsentLedger('user-1');
+    const a = limited(ledger, '2/day');
+    const first = at(ledger, a.id, '2026-03-02T09:00:00Z');
+    at(ledger, a.id, '2026-03-02T10:00:00Z');
+    const third = at(ledger, a.id, '2026-03-02T11:00:00Z');
+    const nextDay = at(ledger, a.id, '2026-03-03T10:30:00Z');
+    expect(ledger.checkConsent(first.id).status).toBe('within_bounds');
+    const v = ledger.checkConsent(third.id).violations[0];
+    expect(v.constraint_type).toBe('frequency_limit');
+    expect(v.actual).toBe('3');
+    expect(v.expected).toContain('per day (rolling)');
+    expect(ledger.checkConsent(nextDay.id).status).toBe('within_bounds');
+  });
+
+  test('calendar windows reset at the period boundary', () => {
+    jest.useFakeTimers();
+    const rolling = new ConsentLedger('user-1');
+    const calendar = new ConsentLedger('user-1');
+    const r = limited(rolling, '2/hour');
+    const c = limited(calendar, '2/hour calendar');
+    let lastRolling: ActionRecord | null = null;
+    let lastCalendar: ActionRecord | null = null;
+    for (const iso of ['2026-03-02T10:50:00Z', '2026-03-02T10:55:00Z', '2026-03-02T11:05:00Z']) {
+      lastRolling = at(rolling, r.id, iso);
+      lastCalendar = at(calendar, c.id, iso);
+    }
+    expect(rolling.checkConsent(lastRolling!.id).status).toBe('exceeded');
+    expect(calendar.checkConsent(lastCalendar!.id).status).toBe('within_bounds');
+  });
+
+  test('enforcement gate refuses the action that would exceed the limit', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = limited(ledger, '1/hour');
+    const proposal = { agent_id: 'agent-1', authorisation_id: a.id, action_type: 'query', description: 'Query', parameters: {} };
+    expect(ledger.requestAction(proposal).decision).toBe('allow');
+    expect(ledger.requestAction(proposal).decision).toBe('deny');
+    expect(ledger.getActions()).toHaveLength(1);
+  });
+
+  test('limits that cannot be parsed are refused when authorising and fail closed when matching', () => {
+    const ledger = new ConsentLedger('user-1');
+    expect(() => limited(ledger, '3/fortnight')).toThrow('Invalid frequency_limit parameter "3/fortnight"');
+    const a = limited(ledger, '3/day');
+    const unparseable = { ...a, constraints: [{ type: 'frequency_limit', description: 'Rate limit', parameter: '3/fortnight' }] };
+    const match = matchConsent(unparseable, action(ledger, a.id, { parameters: {} }));
+    expect(match.status).toBe('exceeded');
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'frequency_limit', expected: 'valid frequency limit' });
+  });
+
+  test('frequency escalation buckets by the constraint period', () => {
+    jest.useFakeTimers();
+    const ledger = new ConsentLedger('user-1');
+    const a = limited(ledger, '100/hour');
+    const times = ['10:05', '11:05', '11:10', '12:05', '12:10', '12:15'];
+    for (const t of times) at(ledger, a.id, `2026-03-02T${t}:00Z`);
+    const escalation = ledger.detectScopeCreep().filter((p) => p.pattern_type === 'frequency_escalation');
+    expect(escalation).toHaveLength(1);
+    expect(escalation[0].description).toContain('1 → 2 → 3 per hour');
+  });
+});
+
+// --- Time windows ---
+
+describe('ConsentLedger — Time windows', () => {
+  const allowed = (parameter: string, iso: string) =>
+    evaluateTimeWindow(parseTimeWindow(parameter), new Date(iso).getTime()).allowed;
+
+  test('recurring business hours resolve in the given time zone', () => {
+    const hours = 'Mon-Fri 09:00-17:00 Europe/London';
+    expect(allowed(hours, '2026-07-06T08:30:00Z')).toBe(true); // Mon 09:30 BST
+    expect(allowed(hours, '2026-07-06T16:30:00Z')).toBe(false); // Mon 17:30 BST
+    expect(allowed(hours, '2026-01-05T16:30:00Z')).toBe(true); // Mon 16:30 GMT
+    expect(allowed(hours, '2026-07-04T10:00:00Z')).toBe(false); // Saturday
+  });
+
+  test('multiple windows, overnight windows and clock-only ranges', () => {
+    const split = 'Mon-Fri 09:00-12:00 UTC; Sat 10:00-11:00 UTC';
+    expect(allowed(split, '2026-07-04T10:30:00Z')).toBe(true);
+    expect(allowed(split, '2026-07-06T13:00:00Z')).toBe(false);
+    expect(allowed('Fri 22:00-06:00', '2026-07-04T05:00:00Z')).toBe(true); // Saturday early hours
+    expect(allowed('Fri 22:00-06:00', '2026-07-05T05:00:00Z')).toBe(false);
+    expect(allowed('09:00/17:00', '2026-07-05T12:00:00Z')).toBe(true);
+    expect(allowed('2024-01-01/2024-12-31', '2025-02-01T00:00:00Z')).toBe(false);
+  });
+
+  test('blackout dates are excluded', () => {
+    const window = 'Mon-Fri 09:00-17:00 Europe/London; except 2026-12-25,2026-12-28 Europe/London';
+    expect(allowed(window, '2026-12-24T10:00:00Z')).toBe(true);
+    expect(allowed(window, '2026-12-25T10:00:00Z')).toBe(false);
+    expect(allowed('except 2026-12-24T18:00Z/2026-12-27T00:00Z', '2026-12-26T12:00:00Z')).toBe(false);
+  });
+
+  test('matcher reports actions outside the window and malformed windows', () => {
+    jest.useFakeTimers();
+    try {
+      jest.setSystemTime(new Date('2026-07-04T10:00:00Z'));
+      const ledger = new ConsentLedger('user-1');
+      const businessHours = auth(ledger, {
+        constraints: [{ type: 'time_window', description: 'Business hours', parameter: 'Mon-Fri 09:00-17:00 Europe/London' }],
+      });
+      const weekend = ledger.checkConsent(action(ledger, businessHours.id).id);
+      expect(weekend.status).toBe('exceeded');
+      expect(weekend.violations[0].actual).toContain('outside permitted window');
+      expect(() =>
+        auth(ledger, { constraints: [{ type: 'time_window', description: 'Broken', parameter: 'Mon-Fri 09:00-17:00 Mars/Olympus' }] })
+      ).toThrow('Unrecognised time window token "Mars/Olympus"');
+      // A window that slipped in without validation still fails closed
+      const restored = ConsentLedger.fromJSON(ledger.toJSON().replace('Europe/London', 'Mars/Olympus'));
+      const invalid = restored.checkConsent(weekend.action_id);
+      expect(invalid.violations[0].expected).toBe('valid time window');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+// --- Currency ---
+
+describe('ConsentLedger — Currency', () => {
+  const rates = new StaticRateProvider('GBP', { USD: 1.25, JPY: 190 });
+
+  function gbpLedger(): { ledger: ConsentLedger; a: AuthorisationEntry } {
+    const ledger = new ConsentLedger('user-1', { rateProvider: rates });
+    const a = auth(ledger, {
+      constraints: [{ type: 'monetary_limit', description: 'Max £500', parameter: '500 GBP' }],
+    });
+    return { ledger, a };
+  }
+
+  test('parses limits with codes and symbols', () => {
+    expect(parseMoney('500 GBP')).toEqual({ amount: 500, currency: 'GBP' });
+    expect(parseMoney('usd 2,000')).toEqual({ amount: 2000, currency: 'USD' });
+    expect(parseMoney('£500')).toEqual({ amount: 500, currency: 'GBP' });
+    expect(parseMoney('500')).toEqual({ amount: 500, currency: null });
+    expect(parseMoney('lots')).toBeNull();
+    for (const bad of ['£-5', '$+-1', '500abc', '1.2.3 GBP', '€Infinity', '¥1e999']) expect(parseMoney(bad)).toBeNull();
+  });
+
+  test('foreign amounts are converted before comparison', () => {
+    const { ledger, a } = gbpLedger();
+    const yen = action(ledger, a.id, { parameters: { amount: 499, currency: 'JPY' } });
+    const dollars = action(ledger, a.id, { parameters: { amount: 700, currency: 'USD' } });
+    expect(ledger.checkConsent(yen.id).status).toBe('within_bounds');
+    const v = ledger.checkConsent(dollars.id).violations[0];
+    expect(v.constraint_type).toBe('monetary_limit');
+    expect(v.actual).toBe('700 USD (≈ 560 GBP)');
+    expect(v.severity).toBe('major');
+  });
+
+  test('currency without a known rate is a violation', () => {
+    const { ledger, a } = gbpLedger();
+    const act = action(ledger, a.id, { parameters: { amount: 10, currency: 'CHF' } });
+    const v = ledger.checkConsent(act.id).violations[0];
+    expect(v.constraint_type).toBe('monetary_limit');
+    expect(v.actual).toContain('no CHF/GBP rate');
+  });
+
+  test('amounts must state a currency when the limit names one, and limits must parse', () => {
+    const { ledger, a } = gbpLedger();
+    const bare = ledger.checkConsent(action(ledger, a.id, { parameters: { amount: 10 } }).id);
+    expect(bare.violations[0]).toMatchObject({ constraint_type: 'monetary_limit', actual: '10 (no currency)' });
+    expect(() =>
+      auth(ledger, { constraints: [{ type: 'monetary_limit', description: 'Max £500', parameter: '500 pounds' }] })
+    ).toThrow('Invalid monetary_limit parameter "500 pounds"');
+    const unparseable = { ...a, constraints: [{ type: 'monetary_limit', description: 'Max', parameter: '500 pounds' }] };
+    const match = matchConsent(unparseable, action(ledger, a.id, { parameters: { amount: 10, currency: 'GBP' } }));
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'monetary_limit', expected: 'valid monetary limit' });
+  });
+
+  test('gradual expansion normalises currencies', () => {
+    const { ledger, a } = gbpLedger();
+    action(ledger, a.id, { parameters: { amount: 200, currency: 'GBP' } });
+    action(ledger, a.id, { parameters: { amount: 400, currency: 'USD' } });
+    action(ledger, a.id, { parameters: { amount: 450, currency: 'USD' } });
+    action(ledger, a.id, { parameters: { amount: 90000, currency: 'JPY' } });
+    const gradual = ledger.detectScopeCreep().filter((p) => p.pattern_type === 'gradual_expansion');
+    expect(gradual).toHaveLength(1);
+    expect(gradual[0].description).toContain('500 GBP');
+  });
+});
+
+// --- Budgets ---
+
+describe('ConsentLedger — Budgets', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function budgeted(ledger: ConsentLedger, parameter: string): AuthorisationEntry {
+    return auth(ledger, {
+      constraints: [
+        { type: 'monetary_limit', description: 'Max £500 each', parameter: '500 GBP' },
+        { type: 'budget', description: 'Budget', parameter },
+      ],
+    });
+  }
+
+  test('running total across actions exceeds a lifetime budget', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = budgeted(ledger, '1000 GBP');
+    const first = action(ledger, a.id, { parameters: { amount: 499, currency: 'GBP' } });
+    action(ledger, a.id, { parameters: { amount: 499, currency: 'GBP' } });
+    const third = action(ledger, a.id, { parameters: { amount: 499, currency: 'GBP' } });
+    expect(ledger.checkConsent(first.id).status).toBe('within_bounds');
+    const v = ledger.checkConsent(third.id).violations[0];
+    expect(v.constraint_type).toBe('budget');
+    expect(v.actual).toBe('1497 GBP spent (overspend 497 GBP)');
+    expect(v.budget).toEqual({ limit: 1000, currency: 'GBP', period: null, spent: 1497, remaining: 0, overspend: 497 });
+  });
+
+  test('calendar-month budget resets on the 1st', () => {
+    jest.useFakeTimers();
+    const ledger = new ConsentLedger('user-1');
+    const a = budgeted(ledger, '600 GBP/month calendar');
+    jest.setSystemTime(new Date('2026-03-20T10:00:00Z'));
+    action(ledger, a.id, { parameters: { amount: 400, currency: 'GBP' } });
+    jest.setSystemTime(new Date('2026-03-31T10:00:00Z'));
+    const overspent = action(ledger, a.id, { parameters: { amount: 300, currency: 'GBP' } });
+    jest.setSystemTime(new Date('2026-04-01T10:00:00Z'));
+    const april = action(ledger, a.id, { parameters: { amount: 300, currency: 'GBP' } });
+    expect(ledger.checkConsent(overspent.id).violations[0].budget?.overspend).toBe(100);
+    expect(ledger.checkConsent(april.id).status).toBe('within_bounds');
+  });
+
+  test('enforcement gate refuses the action that would overspend', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = budgeted(ledger, '800 GBP');
+    const proposal = (amount: number) => ({
+      agent_id: 'agent-1',
+      authorisation_id: a.id,
+      action_type: 'pay',
+      description: 'Pay',
+      parameters: { amount, currency: 'GBP' },
+    });
+    expect(ledger.requestAction(proposal(450)).decision).toBe('allow');
+    expect(ledger.requestAction(proposal(400)).decision).toBe('deny');
+    expect(ledger.requestAction(proposal(350)).decision).toBe('allow');
+  });
+
+  test('zero and negative amounts are violations and never offset spend', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = budgeted(ledger, '1000 GBP');
+    action(ledger, a.id, { parameters: { amount: 450, currency: 'GBP' } });
+    const refund = action(ledger, a.id, { parameters: { amount: -5000, currency: 'GBP' } });
+    const free = action(ledger, a.id, { parameters: { amount: 0, currency: 'GBP' } });
+    action(ledger, a.id, { parameters: { amount: 450, currency: 'GBP' } });
+    const last = action(ledger, a.id, { parameters: { amount: 450, currency: 'GBP' } });
+    expect(ledger.checkConsent(refund.id).violations.map((v) => [v.constraint_type, v.expected, v.severity])).toEqual([
+      ['monetary_limit', 'positive amount', 'critical'],
+      ['budget', 'positive amount', 'critical'],
+    ]);
+    expect(ledger.checkConsent(free.id).violations.map((v) => v.severity)).toEqual(['major', 'major']);
+    expect(ledger.checkConsent(last.id).violations[0].budget?.spent).toBe(1350);
+  });
+
+  test('budgets that cannot be parsed are refused when authorising and fail closed when matching', () => {
+    const ledger = new ConsentLedger('user-1');
+    expect(() => budgeted(ledger, '2000 GBP per month')).toThrow('Invalid budget parameter "2000 GBP per month"');
+    const a = budgeted(ledger, '2000 GBP');
+    const unparseable = { ...a, constraints: [{ type: 'budget', description: 'Budget', parameter: '2000 GBP per month' }] };
+    const match = matchConsent(unparseable, action(ledger, a.id, { parameters: { amount: 900, currency: 'GBP' } }));
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'budget', expected: 'valid budget' });
+  });
+
+  test('compliance report shows budget utilisation', () => {
+    const ledger = new ConsentLedger('user-1', { rateProvider: new StaticRateProvider('GBP', { USD: 1.25 }) });
+    const a = budgeted(ledger, '2000 GBP');
+    action(ledger, a.id, { parameters: { amount: 250, currency: 'USD' } });
+    action(ledger, a.id, { parameters: { amount: 300, currency: 'GBP' } });
+    const md = ledger.toMarkdown();
+    expect(md).toContain('## Budgets');
+    expect(md).toContain(`| ${a.id} | 2000 GBP total | 500 GBP | 1500 GBP | 25% |`);
+  });
+});
+
+// --- Delegation ---
+
+describe('ConsentLedger — Delegation', () => {
+  function parentAuth(ledger: ConsentLedger): AuthorisationEntry {
+    return auth(ledger, {
+      constraints: [
+        { type: 'monetary_limit', description: 'Max £500', parameter: '500 GBP' },
+        { type: 'domain_restriction', description: 'Europe only', parameter: 'europe,uk' },
+        { type: 'budget', description: 'Total £1000', parameter: '1000 GBP' },
+      ],
+      expires_at: new Date(Date.now() + 86400000).toISOString(),
+    });
+  }
+
+  function delegate(
+    ledger: ConsentLedger,
+    parent: AuthorisationEntry,
+    overrides: Partial<Parameters<ConsentLedger['authorise']>[0]> = {}
+  ): AuthorisationEntry {
+    return auth(ledger, {
+      agent_id: 'agent-2',
+      scope: 'delegated',
+      parent_authorisation_id: parent.id,
+      constraints: [{ type: 'monetary_limit', description: 'Max £200', parameter: '200 GBP' }],
+      expires_at: parent.expires_at,
+      ...overrides,
+    });
+  }
+
+  test('delegated grants must name an active parent', () => {
+    const ledger = new ConsentLedger('user-1');
+    expect(() => auth(ledger, { scope: 'delegated' })).toThrow('requires parent_authorisation_id');
+    expect(() => auth(ledger, { scope: 'delegated', parent_authorisation_id: 'missing' })).toThrow('not found');
+  });
+
+  test('broader child constraints are rejected', () => {
+    const ledger = new ConsentLedger('user-1');
+    const parent = parentAuth(ledger);
+    expect(() =>
+      delegate(ledger, parent, {
+        constraints: [
+          { type: 'monetary_limit', description: 'Max £900', parameter: '900 GBP' },
+          { type: 'domain_restriction', description: 'Asia too', parameter: 'europe,asia' },
+        ],
+        expires_at: null,
+      })
+    ).toThrow(/expiry.*monetary_limit.*domain_restriction: asia/s);
+    const child = delegate(ledger, parent);
+    expect(child.parent_authorisation_id).toBe(parent.id);
+    expect(ledger.getDelegationChain(child.id).map((a) => a.id)).toEqual([child.id, parent.id]);
+  });
+
+  test('matching walks the chain and applies inherited constraints', () => {
+    const ledger = new ConsentLedger('user-1');
+    const parent = parentAuth(ledger);
+    const child = delegate(ledger, parent);
+    const ok = action(ledger, child.id, { agent_id: 'agent-2', parameters: { amount: 150, currency: 'GBP', domain: 'uk' } });
+    const outside = action(ledger, child.id, { agent_id: 'agent-2', parameters: { amount: 150, currency: 'GBP', domain: 'asia' } });
+    expect(ledger.checkConsent(ok.id).status).toBe('within_bounds');
+    const v = ledger.checkConsent(outside.id).violations;
+    expect(v).toHaveLength(1);
+    expect(v[0].constraint_type).toBe('domain_restriction');
+    expect(v[0].description).toContain(`inherited from ${parent.id}`);
+  });
+
+  test("descendants' spending counts against the parent budget", () => {
+    const ledger = new ConsentLedger('user-1');
+    const parent = parentAuth(ledger);
+    const child = delegate(ledger, parent);
+    action(ledger, parent.id, { parameters: { amount: 450, currency: 'GBP', domain: 'uk' } });
+    action(ledger, parent.id, { parameters: { amount: 450, currency: 'GBP', domain: 'uk' } });
+    const last = action(ledger, child.id, { agent_id: 'agent-2', parameters: { amount: 150, currency: 'GBP', domain: 'uk' } });
+    const v = ledger.checkConsent(last.id).violations[0];
+    expect(v.constraint_type).toBe('budget');
+    expect(v.budget?.spent).toBe(1050);
+  });
+
+  test('revoking a parent cascades to every descendant', () => {
+    const ledger = new ConsentLedger('user-1');
+    const parent = parentAuth(ledger);
+    const child = delegate(ledger, parent);
+    const grandchild = delegate(ledger, child, { agent_id: 'agent-3' });
+    ledger.revoke(parent.id, 'Trip cancelled');
+    expect(ledger.getAuthorisation(child.id)?.revoked).toBe(true);
+    expect(ledger.getAuthorisation(grandchild.id)?.revoked).toBe(true);
+    const events = ledger.getAuthorisationHistory(grandchild.id)!.events;
+    expect(events[0].cascaded_from).toBe(parent.id);
+    expect(ledger.getActiveAuthorisations()).toHaveLength(0);
+    expect(ledger.verify().valid).toBe(true);
+    const act = action(ledger, grandchild.id, { agent_id: 'agent-3' });
+    expect(ledger.checkConsent(act.id).status).toBe('revoked');
+  });
+});
+
+// --- Ratification ---
+
+describe('ConsentLedger — Ratification', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('emergency grants get a default ratification period', () => {
+    const ledger = new ConsentLedger('user-1');
+    expect(auth(ledger, { scope: 'emergency' }).ratification_period).toBe('24h');
+    expect(auth(ledger, { scope: 'emergency', ratification_period: '2h' }).ratification_period).toBe('2h');
+    expect(() => auth(ledger, { ratification_period: '2h' })).toThrow('only valid on emergency');
+    expect(() => auth(ledger, { scope: 'emergency', ratification_period: 'soon' })).toThrow('Invalid ratification_period');
+  });
+
+  test('ratified action is re-evaluated against constraints', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { scope: 'emergency' });
+    const ok = action(ledger, a.id);
+    const tooMuch = action(ledger, a.id, { parameters: { amount: 900, domain: 'europe' } });
+    ledger.ratify(ok.id);
+    ledger.ratify(tooMuch.id, 'Needed the flight');
+    expect(ledger.checkConsent(ok.id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(tooMuch.id).violations[0].constraint_type).toBe('monetary_limit');
+    expect(() => ledger.ratify(ok.id)).toThrow('already ratified');
+    expect(ledger.getPendingRatifications()).toEqual([]);
+    expect(ledger.verify().valid).toBe(true);
+  });
+
+  test('rejected action is a critical violation', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { scope: 'emergency' });
+    const act = action(ledger, a.id);
+    ledger.reject(act.id, 'Not what I wanted');
+    const match = ledger.checkConsent(act.id);
+    expect(match.status).toBe('exceeded');
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'ratification', severity: 'critical', description: 'Not what I wanted' });
+    const other = action(ledger, auth(ledger).id);
+    expect(() => ledger.ratify(other.id)).toThrow('not under an emergency authorisation');
+  });
+
+  test('unratified action becomes critical once the ledger passes the deadline and is reported', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-05-01T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { scope: 'emergency', ratification_period: '2h' });
+    const late = action(ledger, a.id);
+    jest.setSystemTime(new Date('2026-05-01T11:30:00Z'));
+    const recent = action(ledger, a.id);
+    expect(ledger.checkConsent(late.id).status).toBe('pending_ratification');
+    jest.setSystemTime(new Date('2026-05-01T12:30:00Z'));
+    // Nothing recorded since 11:30, so reading the ledger later does not change its verdicts
+    expect(ledger.checkConsent(late.id).status).toBe('pending_ratification');
+    expect(ledger.checkConsent(late.id, { at: '2026-05-01T12:30:00Z' }).status).toBe('exceeded');
+    expect(() => ledger.ratify(late.id)).toThrow(`Ratification deadline passed: ${late.id}`);
+    action(ledger, auth(ledger).id);
+    const match = ledger.checkConsent(late.id);
+    expect(match.status).toBe('exceeded');
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'ratification', severity: 'critical', actual: 'unratified' });
+    expect(ledger.checkConsent(recent.id).status).toBe('pending_ratification');
+    const pending = ledger.getPendingRatifications();
+    expect(pending.map((p) => [p.action_id, p.overdue])).toEqual([[late.id, true], [recent.id, false]]);
+    expect(pending[0].deadline).toBe('2026-05-01T12:00:00.000Z');
+    const md = ledger.toMarkdown();
+    expect(md).toContain('## Ratifications');
+    expect(md).toContain(`| ${late.id} | ${a.id} | 2026-05-01T12:00:00.000Z | Yes |`);
+  });
+
+  test('a ratification recorded after the deadline does not clear the action', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-05-01T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { scope: 'emergency', ratification_period: '2h' });
+    const act = action(ledger, a.id);
+    const late = { event_type: 'ratification', timestamp: '2026-05-01T12:00:01Z' } as AuthorisationEvent;
+    const match = matchConsent(a, act, { ratificationsByAction: new Map([[act.id, late]]) });
+    expect(match.status).toBe('exceeded');
+    expect(match.violations[0]).toMatchObject({ constraint_type: 'ratification', actual: 'ratified late at 2026-05-01T12:00:01Z' });
+  });
+
+  test('emergency grants cannot be delegated', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { scope: 'emergency' });
+    expect(() => auth(ledger, { agent_id: 'agent-2', scope: 'delegated', parent_authorisation_id: a.id })).toThrow(
+      `Emergency authorisation cannot be delegated: ${a.id}`
+    );
+  });
+});
+
+// --- Domains ---
+
+describe('ConsentLedger — Domains', () => {
+  const domainAuth = (ledger: ConsentLedger, parameter: string) =>
+    auth(ledger, { constraints: [{ type: 'domain_restriction', description: 'Domains', parameter }] });
+  const statusFor = (ledger: ConsentLedger, authId: string, domain?: string) => {
+    const parameters = domain === undefined ? { amount: 10 } : { amount: 10, domain };
+    return ledger.checkConsent(action(ledger, authId, { parameters }).id).status;
+  };
+
+  test('substrings and missing domains no longer match', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = domainAuth(ledger, 'europe-travel');
+    expect(statusFor(ledger, a.id, 'e')).toBe('exceeded');
+    expect(statusFor(ledger, a.id, 'travel')).toBe('exceeded');
+    expect(statusFor(ledger, a.id, '  ')).toBe('exceeded');
+    expect(statusFor(ledger, a.id)).toBe('exceeded');
+    expect(statusFor(ledger, a.id, 'Europe-Travel')).toBe('within_bounds');
+  });
+
+  test('hierarchical restrictions allow descendants but not parents or siblings', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = domainAuth(ledger, 'travel/flights');
+    expect(statusFor(ledger, a.id, 'travel/flights/europe')).toBe('within_bounds');
+    expect(statusFor(ledger, a.id, 'travel')).toBe('exceeded');
+    expect(statusFor(ledger, a.id, 'travel/hotels')).toBe('exceeded');
+    const exact = domainAuth(ledger, 'exact: travel/flights');
+    expect(statusFor(ledger, exact.id, 'travel/flights/europe')).toBe('exceeded');
+  });
+
+  test('glob restrictions match single segments and any depth', () => {
+    const one = parseDomainRestriction('glob: travel/*/europe');
+    expect(domainAllowed(one, 'travel/flights/europe')).toBe(true);
+    expect(domainAllowed(one, 'travel/flights/cheap/europe')).toBe(false);
+    const deep = parseDomainRestriction('glob: shop/**');
+    expect(domainAllowed(deep, 'shop')).toBe(true);
+    expect(domainAllowed(deep, 'shop/books/used')).toBe(true);
+    expect(domainAllowed(deep, 'shopping')).toBe(false);
+    expect(() => parseDomainRestriction('fuzzy: travel')).toThrow('Unknown domain match mode: fuzzy');
+  });
+
+  test('a pluggable taxonomy resolves parents and aliases', () => {
+    const taxonomy = new StaticTaxonomy({ paris: 'france', france: 'europe' }, { eu: 'europe' });
+    const ledger = new ConsentLedger('user-1', { taxonomy });
+    const a = domainAuth(ledger, 'eu');
+    expect(statusFor(ledger, a.id, 'Paris')).toBe('within_bounds');
+    expect(statusFor(ledger, a.id, 'tokyo')).toBe('exceeded');
+  });
+
+  test('drift detection and delegation use the same matching', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = domainAuth(ledger, 'travel/flights');
+    for (const d of ['travel/flights/europe', 'travel', 'travel/hotels', 'flights']) statusFor(ledger, a.id, d);
+    const drift = ledger.detectScopeCreep().find((p) => p.pattern_type === 'domain_drift');
+    expect(drift?.evidence_ids).toHaveLength(3);
+    const delegate = (parameter: string) =>
+      ledger.authorise({
+        principal_id: 'user-1',
+        agent_id: 'agent-2',
+        scope: 'delegated',
+        parent_authorisation_id: a.id,
+        description: 'Sub-agent',
+        constraints: [{ type: 'domain_restriction', description: 'Narrower', parameter }],
+        expires_at: null,
+      });
+    expect(() => delegate('travel/flights/europe')).not.toThrow();
+    expect(() => delegate('glob: travel/flights/*')).not.toThrow();
+    expect(() => delegate('travel')).toThrow('domain_restriction: travel not allowed by parent');
+    expect(() => delegate('glob: travel/*')).toThrow('domain_restriction: travel/* not allowed by parent');
+  });
+});
+
+// --- Parameter schemas ---
+
+describe('ConsentLedger — Parameter schemas', () => {
+  const parameter_schema = {
+    type: 'object' as const,
+    required: ['amount', 'domain'],
+    additionalProperties: false,
+    properties: {
+      amount: { type: 'number' as const, minimum: 0, maximum: 500 },
+      domain: { enum: ['europe', 'eu'] },
+      destination: { type: 'string' as const },
+      passengers: { type: 'array' as const, items: { type: 'integer' as const, exclusiveMinimum: 0 } },
+    },
+  };
+
+  test('conforming parameters produce no violations', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { parameter_schema });
+    const act = action(ledger, a.id, { parameters: { amount: 300, domain: 'europe', destination: 'Paris', passengers: [1, 2] } });
+    expect(ledger.checkConsent(act.id).status).toBe('within_bounds');
+  });
+
+  test('renamed keys cannot sidestep the constraints', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { parameter_schema });
+    const act = action(ledger, a.id, { parameters: { price: 9000, domain: 'europe' } });
+    const violations = ledger.checkConsent(act.id).violations;
+    expect(violations.map((v) => [v.constraint_type, v.path, v.expected])).toEqual([
+      ['parameter_schema', '/amount', 'required: present'],
+      ['parameter_schema', '/price', 'additionalProperties: no undeclared keys'],
+    ]);
+  });
+
+  test('types, enums, ranges and nested items are reported with JSON pointers', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { parameter_schema, constraints: [] });
+    const act = action(ledger, a.id, {
+      parameters: { amount: '300', domain: 'asia', passengers: [2, 0], 'a/b': 1 },
+    });
+    const byPath = Object.fromEntries(ledger.checkConsent(act.id).violations.map((v) => [v.path, v.expected]));
+    expect(byPath).toEqual({
+      '/amount': 'type: number',
+      '/domain': 'enum: one of "europe", "eu"',
+      '/passengers/1': 'exclusiveMinimum: > 0',
+      '/a~1b': 'additionalProperties: no undeclared keys',
+    });
+  });
+
+  test('schemas are validated when authorising and covered by the hash chain', () => {
+    const ledger = new ConsentLedger('user-1');
+    expect(() => auth(ledger, { parameter_schema: { pattern: '^x' } as never })).toThrow(
+      'Unsupported parameter schema keyword at #: pattern'
+    );
+    auth(ledger, { parameter_schema });
+    expect(ledger.verify().valid).toBe(true);
+    const tampered = ledger.toJSON().replace('"maximum": 500', '"maximum": 5000');
+    expect(tampered).not.toBe(ledger.toJSON());
+    expect(ConsentLedger.fromJSON(tampered).verify().valid).toBe(false);
+  });
+});
+
+// --- Constraint registry ---
+
+describe('ConsentLedger — Constraint registry', () => {
+  // Allowed cabin classes, e.g. "economy,premium"
+  const cabinClass: ConstraintTypeDefinition = {
+    type: 'cabin_class',
+    validateParameter: (p) => (p.trim() ? null : 'at least one cabin class'),
+    evaluate: (c, a) => {
+      const cabin = String(a.parameters.cabin ?? '');
+      const allowed = c.parameter.split(',').map((s) => s.trim());
+      return cabin && !allowed.includes(cabin) ? { expected: allowed.join(', '), actual: cabin } : null;
+    },
+    severity: (outcome) => (outcome.actual === 'first' ? 'critical' : 'minor'),
+    drift: 'domain_drift',
+  };
+
+  function cabinLedger(): { ledger: ConsentLedger; a: AuthorisationEntry } {
+    const ledger = new ConsentLedger('user-1');
+    ledger.registerConstraintType(cabinClass);
+    const a = auth(ledger, {
+      constraints: [{ type: 'cabin_class', description: 'Economy or premium only', parameter: 'economy,premium' }],
+    });
+    return { ledger, a };
+  }
+
+  test('custom constraints no longer raise spurious violations', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, {
+      constraints: [{ type: 'custom', description: 'Prefer window seats', parameter: '' }],
+    });
+    expect(ledger.checkConsent(action(ledger, a.id).id).violations).toEqual([]);
+  });
+
+  test('registered types are evaluated with their severity policy', () => {
+    const { ledger, a } = cabinLedger();
+    const ok = action(ledger, a.id, { parameters: { amount: 100, cabin: 'economy' } });
+    const business = action(ledger, a.id, { parameters: { amount: 100, cabin: 'business' } });
+    const first = action(ledger, a.id, { parameters: { amount: 100, cabin: 'first' } });
+    expect(ledger.checkConsent(ok.id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(business.id).violations).toEqual([
+      expect.objectContaining({ constraint_type: 'cabin_class', actual: 'business', severity: 'minor' }),
+    ]);
+    expect(ledger.checkConsent(first.id).violations[0].severity).toBe('critical');
+    expect(ledger.checkAllActions().filter((m) => m.violations.length > 0)).toHaveLength(2);
+  });
+
+  test('unknown types and invalid parameters are rejected at authorisation', () => {
+    const { ledger } = cabinLedger();
+    expect(() => auth(ledger, { constraints: [{ type: 'seat_map', description: 'x', parameter: 'y' }] })).toThrow(
+      'Unknown constraint type: seat_map'
+    );
+    expect(() => auth(ledger, { constraints: [{ type: 'cabin_class', description: 'x', parameter: ' ' }] })).toThrow(
+      'at least one cabin class'
+    );
+    expect(() => new ConstraintRegistry().register({ ...cabinClass, type: 'budget' })).toThrow('Built-in');
+  });
+
+  test('constraints of unregistered types are violations after import', () => {
+    const { ledger, a } = cabinLedger();
+    const act = action(ledger, a.id, { parameters: { amount: 100, cabin: 'economy' } });
+    const restored = ConsentLedger.fromJSON(ledger.toJSON());
+    expect(restored.checkConsent(act.id).violations[0].expected).toBe('registered constraint type');
+    const registry = new ConstraintRegistry().register(cabinClass);
+    expect(ConsentLedger.fromJSON(ledger.toJSON(), { constraintRegistry: registry }).checkConsent(act.id).status).toBe(
+      'within_bounds'
+    );
+  });
+
+  test('registered types with a drift pattern feed scope creep detection', () => {
+    const { ledger, a } = cabinLedger();
+    for (const cabin of ['economy', 'business', 'business', 'first']) {
+      action(ledger, a.id, { parameters: { amount: 100, cabin } });
+    }
+    const drift = ledger.detectScopeCreep().find((p) => p.pattern_type === 'domain_drift');
+    expect(drift?.description).toContain('cabin_class');
+    expect(drift?.evidence_ids).toHaveLength(3);
+  });
+
+  test('drift evaluators see only the actions up to the one being judged', () => {
+    const ledger = new ConsentLedger('user-1');
+    ledger.registerConstraintType({
+      type: 'trip_cap',
+      validateParameter: (p) => (/^\d+$/.test(p) ? null : 'a whole number of trips'),
+      evaluate: (c, _a, context) => {
+        const trips = context.actions.length;
+        return trips > Number(c.parameter) ? { expected: `${c.parameter} trips`, actual: `${trips} trips` } : null;
+      },
+      drift: 'frequency_escalation',
+    });
+    const a = auth(ledger, { constraints: [{ type: 'trip_cap', description: 'One trip', parameter: '1' }] });
+    const trips = Array.from({ length: 4 }, () => action(ledger, a.id));
+    const drift = ledger.detectScopeCreep().find((p) => p.description.includes('trip_cap'));
+    expect(drift?.evidence_ids).toEqual(trips.slice(1).map((t) => t.id));
+    expect(ledger.checkConsent(trips[0].id).status).toBe('within_bounds');
+  });
+});
+
+// --- Policy expressions ---
+
+describe('ConsentLedger — Policy expressions', () => {
+  const rule = 'amount <= 500 && destination in ["Paris", "Rome"] && !parameters.refundable';
+
+  function policyLedger(): { ledger: ConsentLedger; a: AuthorisationEntry } {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, {
+      constraints: [{ type: 'policy', description: 'Cheap non-refundable city breaks', parameter: rule }],
+    });
+    return { ledger, a };
+  }
+
+  test('actions satisfying the expression are within bounds', () => {
+    const { ledger, a } = policyLedger();
+    const act = action(ledger, a.id, { parameters: { amount: 320, destination: 'Rome', refundable: false } });
+    expect(ledger.checkConsent(act.id).status).toBe('within_bounds');
+  });
+
+  test('violations point to the failing sub-expression', () => {
+    const { ledger, a } = policyLedger();
+    const pricey = action(ledger, a.id, { parameters: { amount: 620, destination: 'Paris', refundable: false } });
+    const refundable = action(ledger, a.id, { parameters: { amount: 100, destination: 'Paris', refundable: true } });
+    const v1 = ledger.checkConsent(pricey.id).violations[0];
+    expect(v1).toMatchObject({ constraint_type: 'policy', expected: 'amount <= 500', actual: 'amount = 620' });
+    expect(v1.policy).toMatchObject({ start: 0, end: 13 });
+    const v2 = ledger.checkConsent(refundable.id).violations[0];
+    expect(v2.expected).toBe('!parameters.refundable');
+    expect(rule.slice(v2.policy!.start, v2.policy!.end)).toBe('!parameters.refundable');
+  });
+
+  test('missing or mistyped parameters fail closed', () => {
+    const { ledger, a } = policyLedger();
+    const result = evaluatePolicy(rule, action(ledger, a.id, { parameters: { destination: 'Paris' } }));
+    expect(result.passed).toBe(false);
+    expect(result.failure).toMatchObject({ expression: 'amount <= 500', reason: 'expected number or string, got null' });
+  });
+
+  test('syntax and type errors are rejected when authorising', () => {
+    const ledger = new ConsentLedger('user-1');
+    const policy = (parameter: string) => auth(ledger, { constraints: [{ type: 'policy', description: 'p', parameter }] });
+    expect(() => policy('amount <=')).toThrow('Policy error at 9: unexpected end of expression');
+    expect(() => policy('action_type < 5')).toThrow("'<' compares string with number");
+    expect(() => policy('"yes" && true')).toThrow("'&&' expects boolean");
+    expect(() => compilePolicy('amount; process.exit()')).toThrow("unexpected character ';'");
+  });
+
+  test('metadata, arithmetic and or-expressions are supported', () => {
+    const { ledger } = policyLedger();
+    const a = auth(ledger, {
+      constraints: [
+        { type: 'policy', description: 'p', parameter: '(amount * 1.2 <= 600 || action_type == "refund") && agent_id != "rogue"' },
+      ],
+    });
+    expect(ledger.checkConsent(action(ledger, a.id, { parameters: { amount: 450 } }).id).status).toBe('within_bounds');
+    const over = ledger.checkConsent(action(ledger, a.id, { parameters: { amount: 700 } }).id);
+    expect(over.violations[0].expected).toBe('(amount * 1.2 <= 600 || action_type == "refund")');
+    expect(over.violations[0].actual).toBe('amount = 700, action_type = "book_flight"');
+  });
+
+  test('the compiled policy cache is bounded and keeps recently used expressions', () => {
+    const kept = compilePolicy('amount <= 1');
+    const evicted = compilePolicy('amount <= 2');
+    for (let i = 0; i < 300; i++) {
+      compilePolicy(`amount <= ${1000 + i}`);
+      if (i % 100 === 0) compilePolicy('amount <= 1');
+    }
+    expect(compilePolicy('amount <= 1')).toBe(kept);
+    expect(compilePolicy('amount <= 2')).not.toBe(evicted);
+  });
+});
+
 // --- Drift detection (5) ---
 
 describe('ConsentLedger — Drift detection', () => {
@@ -359,35 +1181,1858 @@ describe('ConsentLedger — Integrity', () => {
   });
 });
 
-// --- Export/Import (2) ---
+// --- Verification diagnostics ---
 
-describe('ConsentLedger — Export/Import', () => {
-  test('JSON roundtrip preserves all data', () => {
+describe('ConsentLedger — Verification diagnostics', () => {
+  // Recompute hashes so only the deliberate inconsistencies remain
+  function rechain<T extends { hash: string; previous_hash: string }>(entries: T[], payload: (e: T) => string): void {
+    let prev = '0';
+    for (const e of entries) {
+      e.previous_hash = prev;
+      e.hash = chainHash(prev, payload(e));
+      prev = e.hash;
+    }
+  }
+
+  test('a clean ledger has no findings', () => {
     const ledger = new ConsentLedger('user-1');
     const a = auth(ledger);
-    const act = action(ledger, a.id);
-    const json = ledger.toJSON();
-    const restored = ConsentLedger.fromJSON(json);
-    expect(restored.principal_id).toBe(ledger.principal_id);
-    expect(restored.getAuthorisation(a.id)?.description).toBe(a.description);
-    const actions = restored.getActions();
-    expect(actions).toHaveLength(1);
-    expect(actions[0].description).toBe(act.description);
-    expect(restored.verify().valid).toBe(true);
+    action(ledger, a.id);
+    ledger.revoke(a.id);
+    expect(ledger.verify().findings).toEqual([]);
   });
 
-  test('Markdown output includes violations summary', () => {
+  test('pinpoints payload tampering and broken links by index and entry ID', () => {
     const ledger = new ConsentLedger('user-1');
     const a = auth(ledger);
-    action(ledger, a.id, { parameters: { amount: 999, domain: 'asia' } });
-    const md = ledger.toMarkdown();
-    expect(md).toContain('Consent Ledger');
-    expect(md).toContain('Violations');
+    const acts = [action(ledger, a.id), action(ledger, a.id), action(ledger, a.id)];
+    const snapshot = JSON.parse(ledger.toJSON());
+    snapshot.actions[1].description = 'TAMPERED';
+    snapshot.actions[2].previous_hash = 'f'.repeat(64);
+    const result = ConsentLedger.fromJSON(JSON.stringify(snapshot)).verify();
+    expect(result.valid).toBe(false);
+    expect(result.findings.map((f) => [f.chain, f.index, f.entry_id, f.kind])).toEqual([
+      ['action', 1, acts[1].id, 'hash_mismatch'],
+      ['action', 2, acts[2].id, 'broken_link'],
+      ['action', 2, acts[2].id, 'hash_mismatch'],
+    ]);
+  });
+
+  test('reports every structural problem in one pass', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const acts = [action(ledger, a.id), action(ledger, a.id), action(ledger, a.id)];
+    const snapshot: LedgerSnapshot = JSON.parse(ledger.toJSON());
+    snapshot.authorisations[0].principal_id = 'user-2';
+    snapshot.authorisations[0].timestamp = '2999-01-01T00:00:00.000Z';
+    snapshot.actions[1].id = acts[0].id;
+    snapshot.actions[2].timestamp = '2000-01-01T00:00:00.000Z';
+    rechain(snapshot.authorisations, authorisationPayload);
+    rechain(snapshot.actions, actionPayload);
+    const findings = ConsentLedger.fromJSON(JSON.stringify(snapshot)).verify().findings;
+    expect(findings.map((f) => `${f.chain}[${f.index}] ${f.kind}`)).toEqual([
+      'authorisation[0] principal_mismatch',
+      'action[0] authorisation_after_action',
+      'action[1] duplicate_id',
+      'action[1] authorisation_after_action',
+      'action[2] timestamp_regression',
+      'action[2] authorisation_after_action',
+    ]);
+    expect(findings[0]).toMatchObject({ expected: 'user-1', actual: 'user-2' });
+  });
+
+  test('findings are listed in the markdown report', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const tampered = ConsentLedger.fromJSON(ledger.toJSON().replace('Book flight to Paris', 'Book flight to Rome'));
+    expect(tampered.toMarkdown()).toMatch(/\| action \| 0 \| [0-9a-f]+ \| hash_mismatch \|/);
+  });
+});
+
+// --- Lifecycle events ---
+
+describe('ConsentLedger — Lifecycle events', () => {
+  afterEach(() => jest.useRealTimers());
+
+  test('revoking an earlier authorisation keeps both chains valid', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a1 = auth(ledger);
+    const a2 = auth(ledger, { description: 'Second auth' });
+    action(ledger, a1.id);
+    ledger.revoke(a1.id, 'No longer travelling');
+    expect(ledger.verify().valid).toBe(true);
+    expect(ledger.verify().events_checked).toBe(1);
+    expect(ledger.getActiveAuthorisations().map((a) => a.id)).toEqual([a2.id]);
+  });
+
+  test('original grant and revocation history are both retained', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    ledger.revoke(a.id, 'Changed mind');
+    const history = ledger.getAuthorisationHistory(a.id)!;
+    expect(history.grant).toEqual(a);
+    expect(history.grant.revoked).toBe(false);
+    expect(history.events).toHaveLength(1);
+    expect(history.events[0].event_type).toBe('revocation');
+    expect(history.events[0].authorisation_hash).toBe(a.hash);
+    expect(history.events[0].reason).toBe('Changed mind');
+  });
+
+  test('actions before revocation are judged against the grant', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const before = action(ledger, a.id);
+    (before as { timestamp: string }).timestamp = new Date(Date.now() - 60000).toISOString();
+    ledger.revoke(a.id);
+    const after = action(ledger, a.id);
+    expect(ledger.checkConsent(before.id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(after.id).status).toBe('revoked');
+  });
+
+  test('expiry change is recorded as an event', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const later = new Date(Date.now() + 3600 * 1000).toISOString();
+    const updated = ledger.setExpiry(a.id, later);
+    expect(updated.expires_at).toBe(later);
+    expect(updated.expiry_changes).toEqual([expect.objectContaining({ previous_expires_at: null, expires_at: later })]);
+    expect(ledger.getActiveAuthorisations()).toHaveLength(1);
+    expect(ledger.getAuthorisationHistory(a.id)!.grant.expires_at).toBeNull();
+  });
+
+  test('expiry changes must be valid, in the future and made before the grant expires', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { expires_at: '2026-03-02T12:00:00Z' });
+    expect(() => ledger.setExpiry(a.id, 'next week')).toThrow('Invalid expires_at: next week');
+    expect(() => ledger.setExpiry(a.id, '2026-03-02T09:00:00Z')).toThrow('Expiry must be in the future: 2026-03-02T09:00:00Z');
+    jest.setSystemTime(new Date('2026-03-02T13:00:00Z'));
+    expect(() => ledger.setExpiry(a.id, '2026-03-09T00:00:00Z')).toThrow(`Authorisation already expired: ${a.id}`);
+    expect(ledger.getAuthorisationHistory(a.id)!.events).toEqual([]);
+  });
+
+  test('each action is judged against the expiry in force when it was taken', () => {
+    const grant = { ...auth(new ConsentLedger('user-1'), { expires_at: '2026-03-02T12:00:00Z' }) };
+    const change = (timestamp: string, expires_at: string): AuthorisationEvent =>
+      ({ timestamp, authorisation_id: grant.id, event_type: 'expiry_change', expires_at }) as AuthorisationEvent;
+    // Extended after it had lapsed, then shortened into the past: neither re-judges earlier actions
+    const extended = applyAuthorisationEvent(grant, change('2026-03-02T14:00:00Z', '2026-03-03T00:00:00Z'));
+    const shortened = applyAuthorisationEvent(extended, change('2026-03-02T16:00:00Z', '2026-03-02T11:00:00Z'));
+    const at = (timestamp: string): ActionRecord => ({
+      id: timestamp,
+      timestamp,
+      agent_id: 'agent-1',
+      authorisation_id: grant.id,
+      action_type: 'book_flight',
+      description: 'Book flight',
+      parameters: { amount: 300, domain: 'europe' },
+      hash: '',
+      previous_hash: '',
+    });
+    const statuses = ['2026-03-02T11:00:00Z', '2026-03-02T13:00:00Z', '2026-03-02T15:00:00Z', '2026-03-02T17:00:00Z'].map(
+      (t) => matchConsent(shortened, at(t)).status
+    );
+    expect(statuses).toEqual(['within_bounds', 'expired', 'within_bounds', 'expired']);
+  });
+
+  test('JSON roundtrip replays revocation history', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    auth(ledger, { description: 'Second auth' });
+    ledger.revoke(a.id);
+    const restored = ConsentLedger.fromJSON(ledger.toJSON());
+    expect(restored.getAuthorisation(a.id)?.revoked).toBe(true);
+    expect(restored.getAuthorisationHistory(a.id)!.events).toHaveLength(1);
+    expect(restored.verify().valid).toBe(true);
+  });
+
+  test('tampered revocation event breaks chain', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    ledger.revoke(a.id, 'Original reason');
+    const tampered = ledger.toJSON().replace('Original reason', 'TAMPERED');
+    expect(ConsentLedger.fromJSON(tampered).verify().valid).toBe(false);
+  });
+
+  test('fromJSON accepts snapshots without an event chain', () => {
+    const ledger = new ConsentLedger('user-1');
+    auth(ledger);
+    const legacy = JSON.parse(ledger.toJSON());
+    delete legacy.events;
+    const restored = ConsentLedger.fromJSON(JSON.stringify(legacy));
+    expect(restored.verify().valid).toBe(true);
+    expect(restored.getActiveAuthorisations()).toHaveLength(1);
+  });
+});
+
+// --- Enforcement gate ---
+
+describe('ConsentLedger — Enforcement gate', () => {
+  const proposal = (authorisation_id: string, parameters: Record<string, unknown>) => ({
+    agent_id: 'agent-1',
+    authorisation_id,
+    action_type: 'book_flight',
+    description: 'Book flight',
+    parameters,
+  });
+
+  test('allowed action is appended', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const result = ledger.requestAction(proposal(a.id, { amount: 300, domain: 'europe' }));
+    expect(result.decision).toBe('allow');
+    expect(result.violations).toEqual([]);
+    expect(result.record).not.toBeNull();
+    expect(ledger.getActions()).toHaveLength(1);
+    expect(ledger.checkConsent(result.record!.id).status).toBe('within_bounds');
+  });
+
+  test('out-of-bounds action is rejected without appending by default', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const result = ledger.requestAction(proposal(a.id, { amount: 900, domain: 'europe' }));
+    expect(result.decision).toBe('deny');
+    expect(result.violations.map((v) => v.constraint_type)).toEqual(['monetary_limit']);
+    expect(result.record).toBeNull();
+    expect(ledger.getActions()).toHaveLength(0);
+  });
+
+  test('record_denied mode appends the attempt as audit evidence', () => {
+    const ledger = new ConsentLedger('user-1', { enforcement: 'record_denied' });
+    const a = auth(ledger);
+    const result = ledger.requestAction(proposal(a.id, { amount: 900, domain: 'asia' }));
+    expect(result.decision).toBe('deny');
+    expect(result.record?.outcome).toBe('denied');
+    expect(result.match.status).toBe('denied');
+    expect(ledger.checkConsent(result.record!.id).status).toBe('denied');
+    expect(ledger.getViolations()).toHaveLength(1);
+    expect(ledger.verify().valid).toBe(true);
+    const tampered = ledger.toJSON().replace('"outcome": "denied"', '"outcome": "performed"');
+    expect(ConsentLedger.fromJSON(tampered).verify().valid).toBe(false);
+  });
+
+  test('approval-only violations need approval', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, {
+      constraints: [{ type: 'approval_required', description: 'Manager sign-off', parameter: 'manager' }],
+    });
+    const result = ledger.requestAction(proposal(a.id, { amount: 100 }));
+    expect(result.decision).toBe('needs_approval');
+    expect(result.record).toBeNull();
+  });
+
+  test('revoked authorisation is denied', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    ledger.revoke(a.id);
+    expect(ledger.requestAction(proposal(a.id, { amount: 100 })).decision).toBe('deny');
+  });
+});
+
+// --- Approvals ---
+
+describe('ConsentLedger — Approvals', () => {
+  function approvalLedger(): { ledger: ConsentLedger; a: AuthorisationEntry } {
+    const ledger = new ConsentLedger('user-1', { approvers: ['manager-1'] });
+    const a = auth(ledger, {
+      constraints: [{ type: 'approval_required', description: 'Manager sign-off', parameter: 'manager' }],
+    });
+    return { ledger, a };
+  }
+
+  const proposal = (authorisation_id: string) => ({
+    agent_id: 'agent-1',
+    authorisation_id,
+    action_type: 'pay',
+    description: 'Pay supplier',
+    parameters: { amount: 200, recipient: 'acme' },
+  });
+
+  test('self-declared approval flags are not trusted', () => {
+    const { ledger, a } = approvalLedger();
+    const act = action(ledger, a.id, { parameters: { amount: 200, approved: true } });
+    expect(ledger.checkConsent(act.id).violations[0].constraint_type).toBe('approval_required');
+  });
+
+  test('needs_approval opens a request that can be approved and then used once', () => {
+    const { ledger, a } = approvalLedger();
+    const first = ledger.requestAction(proposal(a.id));
+    expect(first.decision).toBe('needs_approval');
+    const request = first.approval_request!;
+    expect(ledger.requestAction(proposal(a.id)).approval_request?.id).toBe(request.id);
+    expect(ledger.getPendingApprovals()).toEqual([request]);
+    const approval = ledger.approve(request.id, 'manager-1', 'Looks fine');
+    expect(approval.approver_id).toBe('manager-1');
+    expect(ledger.getPendingApprovals()).toEqual([]);
+    const allowed = ledger.requestAction(proposal(a.id));
+    expect(allowed.decision).toBe('allow');
+    expect(ledger.checkConsent(allowed.record!.id).status).toBe('within_bounds');
+    expect(ledger.requestAction(proposal(a.id)).decision).toBe('needs_approval');
+    expect(ledger.verify().valid).toBe(true);
+    expect(ledger.verify().approvals_checked).toBe(3);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  test('approval must come before the action and match it exactly', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    const { ledger, a } = approvalLedger();
+    const request = ledger.requestApproval(proposal(a.id));
+    const early = ledger.recordAction(proposal(a.id));
+    jest.setSystemTime(new Date('2026-03-02T10:05:00Z'));
+    ledger.approve(request.id, 'manager-1');
+    const different = ledger.recordAction({ ...proposal(a.id), parameters: { amount: 900, recipient: 'acme' } });
+    expect(ledger.checkConsent(early.id).status).toBe('exceeded');
+    expect(ledger.checkConsent(different.id).status).toBe('exceeded');
+    const later = ledger.recordAction(proposal(a.id));
+    expect(ledger.checkConsent(later.id).status).toBe('within_bounds');
+  });
+
+  test('denied requests do not satisfy the constraint and cannot be answered twice', () => {
+    const { ledger, a } = approvalLedger();
+    const request = ledger.requestApproval(proposal(a.id));
+    ledger.denyApproval(request.id, 'manager-1', 'Too expensive');
+    expect(() => ledger.approve(request.id, 'manager-1')).toThrow('already denied');
+    expect(ledger.requestAction(proposal(a.id)).decision).toBe('needs_approval');
+  });
+
+  test('the requesting agent cannot approve its own request', () => {
+    const { ledger, a } = approvalLedger();
+    const request = ledger.requestApproval(proposal(a.id));
+    expect(() => ledger.approve(request.id, 'agent-1')).toThrow('Agent cannot approve its own request');
+    expect(ledger.getPendingApprovals()).toEqual([request]);
+    expect(ledger.requestAction(proposal(a.id)).decision).toBe('needs_approval');
+  });
+
+  test('only the principal and listed approvers may decide requests', () => {
+    const { ledger, a } = approvalLedger();
+    const request = ledger.requestApproval(proposal(a.id));
+    expect(() => ledger.approve(request.id, 'stranger')).toThrow('Not an authorised approver: stranger');
+    expect(() => ledger.denyApproval(request.id, 'stranger')).toThrow('Not an authorised approver');
+    expect(ledger.approve(request.id, 'user-1').approver_id).toBe('user-1');
+    expect(ledger.requestAction(proposal(a.id)).decision).toBe('allow');
+  });
+
+  test('approvals survive a JSON roundtrip and tampering is detected', () => {
+    const { ledger, a } = approvalLedger();
+    const request = ledger.requestApproval(proposal(a.id));
+    ledger.approve(request.id, 'manager-1', 'Approved by phone');
+    const act = ledger.recordAction(proposal(a.id));
+    const restored = ConsentLedger.fromJSON(ledger.toJSON());
+    expect(restored.checkConsent(act.id).status).toBe('within_bounds');
+    const tampered = ledger.toJSON().replace('Approved by phone', 'TAMPERED');
+    expect(ConsentLedger.fromJSON(tampered).verify().valid).toBe(false);
+  });
+});
+
+// --- Merkle checkpoints ---
+
+describe('ConsentLedger — Merkle checkpoints', () => {
+  function populated(actions: number, options?: { checkpointEvery?: number }) {
+    const ledger = new ConsentLedger('user-1', options);
+    const a = auth(ledger);
+    const records = Array.from({ length: actions }, (_, i) =>
+      action(ledger, a.id, { parameters: { amount: 10 + i, domain: 'europe' } })
+    );
+    return { ledger, a, records };
+  }
+
+  test('inclusion and consistency paths verify for every tree size', () => {
+    const hashes = Array.from({ length: 13 }, (_, i) => `h${i}`);
+    for (let n = 1; n <= hashes.length; n++) {
+      const tree = hashes.slice(0, n);
+      const root = merkleRoot(tree);
+      for (let i = 0; i < n; i++) {
+        const proof = {
+          chain: 'action' as const,
+          entry_id: tree[i],
+          entry_hash: tree[i],
+          leaf_index: i,
+          tree_size: n,
+          path: inclusionPath(tree, i),
+        };
+        expect(verifyInclusion(proof, root)).toBe(true);
+        expect(verifyInclusion({ ...proof, entry_hash: 'forged' }, root)).toBe(false);
+      }
+      for (let m = 0; m <= n; m++) {
+        const proof = { chain: 'action' as const, first_size: m, second_size: n, path: consistencyPath(tree, m) };
+        expect(verifyConsistency(proof, merkleRoot(hashes.slice(0, m)), root)).toBe(true);
+        if (m > 0 && m < n) expect(verifyConsistency(proof, merkleRoot(['x', ...hashes.slice(1, m)]), root)).toBe(false);
+      }
+    }
+  });
+
+  test('proves a single action against a checkpoint root without the ledger', () => {
+    const { ledger, records } = populated(6);
+    const checkpoint = ledger.checkpoint();
+    const proof = ledger.proveInclusion(records[3].id, checkpoint.id);
+    expect(proof).toMatchObject({ chain: 'action', leaf_index: 3, tree_size: 6 });
+    expect(proof.path.length).toBeLessThanOrEqual(3);
+    const received = JSON.parse(JSON.stringify(proof));
+    expect(verifyInclusion(received, checkpoint.action_root)).toBe(true);
+    received.entry.parameters.amount = 1;
+    expect(verifyInclusion(received, checkpoint.action_root)).toBe(false);
+  });
+
+  test('authorisations are provable and later entries are not in older checkpoints', () => {
+    const { ledger, a } = populated(2);
+    const checkpoint = ledger.checkpoint();
+    expect(verifyInclusion(ledger.proveInclusion(a.id, checkpoint.id), checkpoint.authorisation_root)).toBe(true);
+    const late = action(ledger, a.id);
+    expect(() => ledger.proveInclusion(late.id, checkpoint.id)).toThrow('appended after checkpoint');
+    expect(() => ledger.proveInclusion('missing')).toThrow('Entry not found: missing');
+  });
+
+  test('consistency proofs show the ledger was only appended to', () => {
+    const { ledger, a } = populated(5, { checkpointEvery: 5 });
+    const [first] = ledger.getCheckpoints();
+    for (let i = 0; i < 6; i++) action(ledger, a.id);
+    auth(ledger);
+    const second = ledger.checkpoint();
+    expect(ledger.getCheckpoints()).toHaveLength(3);
+    const proof = ledger.proveConsistency(first.id, second.id);
+    expect(verifyConsistency(proof.actions, first.action_root, second.action_root)).toBe(true);
+    expect(verifyConsistency(proof.authorisations, first.authorisation_root, second.authorisation_root)).toBe(true);
+    expect(verifyConsistency(proof.actions, second.action_root, second.action_root)).toBe(false);
+  });
+
+  test('checkpoints survive export and rewritten history fails verification', () => {
+    const { ledger } = populated(4);
+    ledger.checkpoint();
+    const restored = ConsentLedger.fromJSON(ledger.toJSON());
+    expect(restored.verify()).toMatchObject({ valid: true, checkpoints_checked: 1 });
+    // Rewrite the whole action chain consistently: only the checkpoint root catches it
+    const snapshot = JSON.parse(ledger.toJSON());
+    const forged = new ConsentLedger('user-1');
+    const fa = auth(forged);
+    for (let i = 0; i < 4; i++) action(forged, fa.id);
+    const forgedSnapshot = JSON.parse(forged.toJSON());
+    snapshot.authorisations = forgedSnapshot.authorisations;
+    snapshot.actions = forgedSnapshot.actions;
+    expect(ConsentLedger.fromJSON(JSON.stringify(snapshot)).verify().valid).toBe(false);
+  });
+});
+
+// --- Anchors ---
+
+describe('ConsentLedger — Anchors', () => {
+  afterEach(() => jest.useRealTimers());
+
+  test('an intact or extended ledger verifies against earlier anchors', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const anchor = ledger.anchor();
+    expect(anchor.chains.action).toEqual({ count: 1, head_hash: ledger.getActions()[0].hash });
+    action(ledger, a.id);
+    ledger.revoke(a.id);
+    expect(ledger.verify({ anchors: [anchor] })).toMatchObject({ valid: true, anchors_checked: 1, anchor_findings: [] });
+  });
+
+  test('deleting the last actions is reported as truncation', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    for (let i = 0; i < 4; i++) action(ledger, a.id);
+    const anchor = ledger.anchor();
+    const snapshot = JSON.parse(ledger.toJSON());
+    snapshot.actions = snapshot.actions.slice(0, 2);
+    const truncated = ConsentLedger.fromJSON(JSON.stringify(snapshot));
+    expect(truncated.verify().valid).toBe(true);
+    const result = truncated.verify({ anchors: [anchor] });
+    expect(result.valid).toBe(false);
+    expect(result.anchor_findings).toEqual([
+      expect.objectContaining({ kind: 'truncation', chain: 'action', expected: '≥ 4 entries', actual: '2 entries' }),
+    ]);
+  });
+
+  test('swapping in an older anchored snapshot is reported as rollback', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const older = ledger.anchor();
+    const oldJson = ledger.toJSON();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    action(ledger, a.id);
+    const newer = ledger.anchor();
+    const findings = ConsentLedger.fromJSON(oldJson).verify({ anchors: [older, newer] }).anchor_findings;
+    expect(findings.map((f) => [f.kind, f.chain])).toEqual([['rollback', 'action']]);
+  });
+
+  test('rewritten history is reported as a fork', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const anchor = ledger.anchor();
+    const other = ConsentLedger.fromJSON(ledger.toJSON());
+    const forked = new ConsentLedger('user-1');
+    const fa = auth(forked);
+    action(forked, fa.id);
+    action(forked, fa.id);
+    expect(other.verify({ anchors: [anchor] }).valid).toBe(true);
+    const kinds = forked.verify({ anchors: [anchor] }).anchor_findings.map((f) => `${f.kind}:${f.chain}`);
+    expect(kinds).toEqual(['fork:authorisation', 'fork:action']);
+  });
+
+  test('signed anchors round-trip through a file store', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cnl-anchors-'));
+    try {
+      const keys = generateSigningKeyPair();
+      const ledger = new ConsentLedger('user-1');
+      ledger.registerKey('user-1', keys.publicKey);
+      ledger.authorise(
+        {
+          principal_id: 'user-1',
+          agent_id: 'agent-1',
+          scope: 'categorical',
+          description: 'Book flights',
+          constraints: [],
+          expires_at: null,
+        },
+        { privateKey: keys.privateKey }
+      );
+      const store = new FileAnchorStore(join(dir, 'anchors.ndjson'));
+      store.append(ledger.anchor({ privateKey: keys.privateKey }));
+      const [stored] = store.list();
+      expect(ledger.verify({ anchors: [stored] })).toMatchObject({ valid: true, signatures_checked: 2 });
+      const forged = { ...stored, chains: { ...stored.chains, action: { count: 0, head_hash: 'x' } } };
+      expect(ledger.verify({ anchors: [forged] }).anchor_findings[0]).toMatchObject({
+        kind: 'invalid_anchor',
+        actual: 'invalid',
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// --- Signatures ---
+
+describe('ConsentLedger — Signatures', () => {
+  const principalKeys = generateSigningKeyPair();
+  const agentKeys = generateSigningKeyPair();
+
+  function signedLedger(): { ledger: ConsentLedger; a: AuthorisationEntry; act: ActionRecord } {
+    const ledger = new ConsentLedger('user-1');
+    ledger.registerKey('user-1', principalKeys.publicKey);
+    ledger.registerKey('agent-1', agentKeys.publicKey);
+    const a = ledger.authorise(
+      {
+        principal_id: 'user-1',
+        agent_id: 'agent-1',
+        scope: 'categorical',
+        description: 'Book flights',
+        constraints: [],
+        expires_at: null,
+      },
+      { privateKey: principalKeys.privateKey }
+    );
+    const act = ledger.recordAction(
+      {
+        agent_id: 'agent-1',
+        authorisation_id: a.id,
+        action_type: 'book_flight',
+        description: 'Book flight to Paris',
+        parameters: { amount: 300 },
+      },
+      { privateKey: agentKeys.privateKey }
+    );
+    return { ledger, a, act };
+  }
+
+  test('signed entries verify against registered keys', () => {
+    const { ledger, a, act } = signedLedger();
+    ledger.revoke(a.id, 'Done', { privateKey: principalKeys.privateKey });
+    expect(a.signature).toBeDefined();
+    expect(act.signature).toBeDefined();
+    const result = ledger.verify();
+    expect(result.valid).toBe(true);
+    expect(result.signatures_checked).toBe(3);
+    expect(result.signature_failures).toEqual([]);
+  });
+
+  test('rebuilt chain with forged signer is reported per entry', () => {
+    const { ledger, a } = signedLedger();
+    const forger = generateSigningKeyPair();
+    action(ledger, a.id);
+    ledger.recordAction(
+      {
+        agent_id: 'agent-1',
+        authorisation_id: a.id,
+        action_type: 'book_flight',
+        description: 'Forged booking',
+        parameters: {},
+      },
+      { privateKey: forger.privateKey }
+    );
+    const result = ledger.verify();
+    expect(result.valid).toBe(false);
+    expect(result.signature_failures).toEqual([
+      expect.objectContaining({ chain: 'action', index: 1, reason: 'missing' }),
+      expect.objectContaining({ chain: 'action', index: 2, reason: 'invalid' }),
+    ]);
+  });
+
+  test('signature without a registered key is reported as unknown_key', () => {
+    const ledger = new ConsentLedger('user-1');
+    auth(ledger);
+    const stranger = generateSigningKeyPair();
+    ledger.authorise(
+      {
+        principal_id: 'user-1',
+        agent_id: 'agent-1',
+        scope: 'specific',
+        description: 'Signed',
+        constraints: [],
+        expires_at: null,
+      },
+      { privateKey: stranger.privateKey }
+    );
+    const result = ledger.verify();
+    expect(result.signature_failures).toEqual([
+      expect.objectContaining({ chain: 'authorisation', index: 1, reason: 'unknown_key' }),
+    ]);
+  });
+
+  test('trusted keys supplied at verify time override ledger keys', () => {
+    const { ledger } = signedLedger();
+    const json = ledger.toJSON();
+    const restored = ConsentLedger.fromJSON(json);
+    expect(restored.verify().valid).toBe(true);
+    expect(restored.getKeys('agent-1')).toHaveLength(1);
+    const other = generateSigningKeyPair();
+    const result = restored.verify({
+      keys: [{ ...restored.getKeys('user-1')[0] }, { ...restored.getKeys('agent-1')[0], public_key: other.publicKey }],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.signature_failures[0]).toMatchObject({ chain: 'action', reason: 'invalid' });
+  });
+});
+
+// --- Export/Import (2) ---
+
+describe('ConsentLedger — Export/Import', () => {
+  test('JSON roundtrip preserves all data', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const act = action(ledger, a.id);
+    const json = ledger.toJSON();
+    const restored = ConsentLedger.fromJSON(json);
+    expect(restored.principal_id).toBe(ledger.principal_id);
+    expect(restored.getAuthorisation(a.id)?.description).toBe(a.description);
+    const actions = restored.getActions();
+    expect(actions).toHaveLength(1);
+    expect(actions[0].description).toBe(act.description);
+    expect(restored.verify().valid).toBe(true);
+  });
+
+  test('Markdown output includes violations summary', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id, { parameters: { amount: 999, domain: 'asia' } });
+    const md = ledger.toMarkdown();
+    expect(md).toContain('Consent Ledger');
+    expect(md).toContain('Violations');
     expect(md).toContain('Critical');
     expect(md).toContain('Exceeded');
   });
 });
 
+// --- Storage ---
+
+describe('ConsentLedger — Storage', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cnl-storage-'));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('every entry is written as it happens and the ledger is rebuilt on open', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const keys = generateSigningKeyPair();
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    ledger.registerKey('agent-1', keys.publicKey);
+    const a = auth(ledger);
+    expect(readFileSync(path, 'utf8').trim().split('\n')).toHaveLength(3);
+    ledger.recordAction(
+      {
+        agent_id: 'agent-1',
+        authorisation_id: a.id,
+        action_type: 'book_flight',
+        description: 'Book flight to Rome',
+        parameters: { amount: 900, domain: 'europe' },
+      },
+      { privateKey: keys.privateKey }
+    );
+    ledger.checkpoint();
+    ledger.revoke(a.id, 'trip cancelled');
+    ledger.close();
+
+    const reopened = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    expect(reopened.getStorageReport()).toEqual({ records_loaded: 6, torn: null });
+    expect(reopened.toJSON()).toBe(ledger.toJSON());
+    expect(reopened.getAuthorisation(a.id)?.revoked).toBe(true);
+    expect(reopened.getViolations()).toHaveLength(1);
+    expect(reopened.verify()).toMatchObject({ valid: true, signatures_checked: 1, checkpoints_checked: 1 });
+    reopened.close();
+  });
+
+  test('the memory adapter round-trips and a store opens only for its own principal', () => {
+    const storage = new MemoryStorageAdapter();
+    const ledger = ConsentLedger.open(storage, 'user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const reopened = ConsentLedger.open(storage, 'user-1');
+    expect(reopened.getActions()).toEqual(ledger.getActions());
+    expect(new ConsentLedger('user-1').getStorageReport()).toBeNull();
+    expect(() => ConsentLedger.open(storage, 'user-2')).toThrow('Storage belongs to principal: user-1');
+  });
+
+  test('a torn final line is dropped, reported and cut from the file', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    ledger.close();
+    const intact = readFileSync(path, 'utf8');
+    appendFileSync(path, '{"kind":"action","entry":{"id":"act', 'utf8');
+
+    const storage = new FileStorageAdapter(path);
+    const reopened = ConsentLedger.open(storage, 'user-1');
+    expect(reopened.getStorageReport()?.torn).toEqual({
+      line: 4,
+      offset: Buffer.byteLength(intact),
+      text: '{"kind":"action","entry":{"id":"act',
+    });
+    expect(reopened.getActions()).toHaveLength(1);
+    expect(readFileSync(path, 'utf8')).toBe(intact);
+    action(reopened, a.id);
+    reopened.close();
+    const again = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    expect(again.getStorageReport()?.torn).toBeNull();
+    expect(again.getActions()).toHaveLength(2);
+    expect(again.verify().valid).toBe(true);
+  });
+
+  test('a complete final record without its newline is kept and the next append terminates it', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    ledger.close();
+    const unterminated = readFileSync(path, 'utf8').replace(/\n$/, '');
+    writeFileSync(path, unterminated, 'utf8');
+
+    const reopened = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    expect(reopened.getStorageReport()).toEqual({ records_loaded: 3, torn: null });
+    expect(readFileSync(path, 'utf8')).toBe(unterminated);
+    expect(verifyStream([unterminated], { format: 'ndjson' })).toMatchObject({ valid: true, actions_checked: 1, torn: null });
+    action(reopened, a.id);
+    reopened.close();
+    const again = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    expect(again.getStorageReport()).toEqual({ records_loaded: 4, torn: null });
+    expect(again.verify().valid).toBe(true);
+  });
+
+  test('a write that fails part way is cut back so the file stays loadable', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    const a = auth(ledger);
+    const intact = readFileSync(path, 'utf8');
+    const write = fs.writeSync;
+    const full = jest.spyOn(fs, 'writeSync').mockImplementationOnce((fd: number, buffer: unknown) => {
+      write(fd, (buffer as Buffer).subarray(0, 20));
+      throw Object.assign(new Error('ENOSPC: no space left on device, write'), { code: 'ENOSPC' });
+    });
+    try {
+      expect(() => action(ledger, a.id)).toThrow('ENOSPC');
+    } finally {
+      full.mockRestore();
+    }
+    expect(readFileSync(path, 'utf8')).toBe(intact);
+    expect(ledger.getActions()).toHaveLength(0);
+    action(ledger, a.id);
+    ledger.close();
+    const reopened = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    expect(reopened.getStorageReport()).toEqual({ records_loaded: 3, torn: null });
+    expect(reopened.verify().valid).toBe(true);
+  });
+
+  test('damage before the final line, or a torn line under tornTail: throw, refuses to load', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path, { fsync: 'close' }), 'user-1');
+    action(ledger, auth(ledger).id);
+    ledger.close();
+    const lines = readFileSync(path, 'utf8').split('\n');
+    writeFileSync(path, [lines[0], 'not json', ...lines.slice(1)].join('\n'), 'utf8');
+    expect(() => ConsentLedger.open(new FileStorageAdapter(path), 'user-1')).toThrow('Corrupt record at line 2');
+    writeFileSync(path, lines.join('\n') + '{"kind":', 'utf8');
+    expect(() => ConsentLedger.open(new FileStorageAdapter(path, { tornTail: 'throw' }), 'user-1')).toThrow(
+      'Torn record at line 4'
+    );
+  });
+
+  test('an entry the store fails to write is not appended', () => {
+    const written: StoredRecord[] = [];
+    let failing = false;
+    const storage = {
+      load: () => ({ records: [], torn: null }),
+      append: (record: StoredRecord) => {
+        if (failing) throw new Error('disk full');
+        written.push(record);
+      },
+      close: () => undefined,
+    };
+    const ledger = ConsentLedger.open(storage, 'user-1');
+    const a = auth(ledger);
+    failing = true;
+    expect(() => action(ledger, a.id)).toThrow('disk full');
+    expect(ledger.getActions()).toHaveLength(0);
+    expect(written.map((r) => r.kind)).toEqual(['ledger', 'authorisation']);
+    failing = false;
+    action(ledger, a.id);
+    expect(ledger.verify().valid).toBe(true);
+  });
+});
+
+// --- Streaming verification ---
+
+describe('ConsentLedger — Streaming verification', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cnl-stream-'));
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const summary = (m: ConsentMatch) => ({
+    action_id: m.action_id,
+    status: m.status,
+    violations: m.violations.map((v) => `${v.constraint_type}: ${v.actual}`),
+  });
+
+  /** A ledger with windowed limits, a lifetime budget, an approval and an emergency action over several days */
+  function busyLedger(ledger: ConsentLedger): void {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    const a = auth(ledger, {
+      constraints: [
+        { type: 'frequency_limit', description: 'Three a day', parameter: '3/day' },
+        { type: 'budget', description: 'Trip budget', parameter: '2000 GBP' },
+        { type: 'approval_required', description: 'Manager sign-off', parameter: 'manager' },
+      ],
+    });
+    const emergency = auth(ledger, { scope: 'emergency', constraints: [] });
+    const request = ledger.requestApproval({
+      authorisation_id: a.id,
+      agent_id: 'agent-1',
+      action_type: 'book_flight',
+      description: 'Book flight to Paris £300',
+      parameters: { amount: 300, currency: 'GBP', domain: 'europe' },
+    });
+    ledger.approve(request.id, 'user-1');
+    for (let i = 0; i < 12; i++) {
+      jest.setSystemTime(new Date(Date.parse('2026-03-02T09:00:00Z') + i * 5 * 3600 * 1000));
+      action(ledger, a.id, { parameters: { amount: 300, currency: 'GBP', domain: 'europe' } });
+    }
+    const urgent = action(ledger, emergency.id, { parameters: { amount: 50 } });
+    ledger.checkpoint();
+    ledger.ratify(urgent.id);
+  }
+
+  test('NDJSON storage streams in small chunks with the same matches as checkAllActions()', () => {
+    const path = join(dir, 'ledger.ndjson');
+    const ledger = ConsentLedger.open(new FileStorageAdapter(path), 'user-1');
+    busyLedger(ledger);
+    ledger.close();
+    const matches: ConsentMatch[] = [];
+    const progress: number[] = [];
+    const result = verifyLedgerFile(path, {
+      chunkSize: 7,
+      progressEvery: 5,
+      onMatch: (m) => matches.push(m),
+      onProgress: (p) => progress.push(p.entries_read),
+    });
+    expect(result).toMatchObject({ valid: true, principal_id: 'user-1', actions_checked: 13, checkpoints_checked: 1, torn: null });
+    const expected = ledger.checkAllActions().map(summary);
+    expect(matches.map(summary).sort((x, y) => x.action_id.localeCompare(y.action_id))).toEqual(
+      expected.sort((x, y) => x.action_id.localeCompare(y.action_id))
+    );
+    expect(result.statuses.exceeded).toBe(expected.filter((m) => m.status === 'exceeded').length);
+    expect(progress).toEqual([5, 10, 15, 19]);
+  });
+
+  test('a JSON snapshot split mid-character matches in chain order and keeps only the windows it needs', () => {
+    const ledger = new ConsentLedger('user-1');
+    busyLedger(ledger);
+    const bytes = Buffer.from(ledger.toJSON(), 'utf8');
+    const verifier = new StreamingVerifier({ format: 'json' });
+    const matches: ConsentMatch[] = [];
+    const streaming = new StreamingVerifier({ format: 'json', onMatch: (m) => matches.push(m) });
+    for (let i = 0; i < bytes.length; i += 5) {
+      verifier.write(bytes.subarray(i, i + 5));
+      streaming.write(bytes.subarray(i, i + 5));
+    }
+    const result = streaming.end();
+    expect(verifier.end().valid).toBe(true);
+    expect(result.bytes_read).toBe(bytes.length);
+    expect(matches.map(summary)).toEqual(ledger.checkAllActions().map(summary));
+    const histories = (streaming as unknown as { histories: Map<string, ActionRecord[]> }).histories;
+    expect(Math.max(...Array.from(histories.values(), (h) => h.length))).toBeLessThanOrEqual(5);
+  });
+
+  test('tampering is reported as by verify() and a torn NDJSON line is reported', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    for (let i = 0; i < 3; i++) action(ledger, a.id);
+    const snapshot: LedgerSnapshot = JSON.parse(ledger.toJSON());
+    snapshot.actions[1].parameters.amount = 5;
+    const tampered = JSON.stringify(snapshot);
+    const result = verifyStream([tampered.slice(0, 100), tampered.slice(100)], { format: 'json' });
+    expect(result.valid).toBe(false);
+    expect(result.findings).toEqual(ConsentLedger.fromJSON(tampered).verify().findings);
+
+    const lines = [
+      JSON.stringify({ kind: 'ledger', entry: { schema: 'CNL-1.0', principal_id: 'user-1' } }),
+      ...JSON.parse(ledger.toJSON()).authorisations.map((entry: AuthorisationEntry) => JSON.stringify({ kind: 'authorisation', entry })),
+    ];
+    const torn = verifyStream([lines.join('\n') + '\n{"kind":"act'], { format: 'ndjson' });
+    expect(torn).toMatchObject({ valid: true, authorisations_checked: 1, torn: { line: 3, text: '{"kind":"act' } });
+    expect(() => verifyStream([lines.join('\n') + '\n{"kind":"act\n' + lines[1] + '\n'], { format: 'ndjson' })).toThrow(
+      'Corrupt record at line 3'
+    );
+  });
+
+  test('snapshots must list actions last, and findings beyond maxFindings are counted', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    for (let i = 0; i < 4; i++) action(ledger, a.id);
+    ledger.revoke(a.id);
+    const snapshot: LedgerSnapshot = JSON.parse(ledger.toJSON());
+    const { schema, principal_id, authorisations, actions, events } = snapshot;
+    const legacy = JSON.stringify({ schema, principal_id, authorisations, actions, events });
+    expect(() => verifyStream([legacy], { format: 'json' })).toThrow('Snapshot lists events after actions');
+    for (const act of snapshot.actions) act.previous_hash = 'x';
+    const result = verifyStream([JSON.stringify(snapshot)], { format: 'json', maxFindings: 2 });
+    expect(result).toMatchObject({ valid: false, findings_omitted: 6 });
+    expect(result.findings).toHaveLength(2);
+    expect(() => verifyStream([ledger.toJSON()], { format: 'json', principal_id: 'user-2' })).toThrow(
+      'Stream belongs to principal: user-1'
+    );
+  });
+
+  test('a verified snapshot can be imported into file storage as it streams', () => {
+    const ledger = new ConsentLedger('user-1');
+    busyLedger(ledger);
+    const json = join(dir, 'ledger.json');
+    writeFileSync(json, ledger.toJSON(), 'utf8');
+    const storage = new FileStorageAdapter(join(dir, 'imported.ndjson'), { fsync: 'close' });
+    expect(verifyLedgerFile(json, { storage, chunkSize: 1024 }).valid).toBe(true);
+    storage.close();
+    const imported = ConsentLedger.open(new FileStorageAdapter(join(dir, 'imported.ndjson')), 'user-1');
+    expect(imported.toJSON()).toBe(ledger.toJSON());
+  });
+});
+
+// --- Indexed matching ---
+
+describe('ConsentLedger — Indexed matching', () => {
+  afterEach(() => jest.useRealTimers());
+
+  const summary = (m: ConsentMatch) => ({
+    action_id: m.action_id,
+    status: m.status,
+    violations: m.violations.map((v) => `${v.constraint_type}: ${v.actual}`),
+  });
+
+  test('cached matches are reused and agree with a ledger rebuilt from JSON', () => {
+    jest.useFakeTimers();
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, {
+      constraints: [
+        { type: 'frequency_limit', description: 'Two an hour', parameter: '2/hour calendar' },
+        { type: 'budget', description: 'Daily budget', parameter: '700 GBP/day' },
+      ],
+    });
+    for (let i = 0; i < 8; i++) {
+      jest.setSystemTime(new Date(Date.parse('2026-03-02T09:40:00Z') + i * 20 * 60 * 1000));
+      action(ledger, a.id, { parameters: { amount: 150, currency: 'GBP' } });
+    }
+    const first = ledger.checkAllActions();
+    expect(ledger.checkAllActions()[3]).toBe(first[3]);
+    expect(first.filter((m) => m.status === 'exceeded').length).toBeGreaterThan(0);
+    const fresh = ConsentLedger.fromJSON(ledger.toJSON()).checkAllActions();
+    expect(first.map(summary)).toEqual(fresh.map(summary));
+  });
+
+  test('checking an action does not rescan the history before it', () => {
+    // The scanning fallback reads every earlier action's timestamp; the index answers with binary search
+    const timestampReads = (history: number): number[] => {
+      jest.useFakeTimers();
+      const ledger = new ConsentLedger('user-1');
+      const a = auth(ledger, {
+        constraints: [
+          { type: 'frequency_limit', description: 'Five an hour', parameter: '5/hour' },
+          { type: 'budget', description: 'Daily budget', parameter: '100000 GBP/day' },
+        ],
+      });
+      let last!: ActionRecord;
+      for (let i = 0; i < history; i++) {
+        jest.setSystemTime(new Date(Date.parse('2026-03-02T09:00:00Z') + i * 60 * 1000));
+        last = action(ledger, a.id, { parameters: { amount: 10, currency: 'GBP' } });
+      }
+      jest.useRealTimers();
+      const getTime = jest.spyOn(Date.prototype, 'getTime');
+      const counts = jest.spyOn(ActionIndex.prototype, 'countInWindow');
+      const budgets = jest.spyOn(ActionIndex.prototype, 'budgetUsage');
+      // Judged at a fixed time, which bypasses the match cache
+      expect(ledger.checkConsent(last.id, { at: '2026-04-01T00:00:00Z' }).status).toBe('exceeded');
+      const reads = [getTime.mock.calls.length, counts.mock.calls.length, budgets.mock.calls.length];
+      expect([...counts.mock.results, ...budgets.mock.results].every((r) => r.value !== null)).toBe(true);
+      jest.restoreAllMocks();
+      return reads;
+    };
+    expect(timestampReads(1000)).toEqual(timestampReads(50));
+  });
+
+  test('revoking a parent drops cached matches of actions under its delegates', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const parent = auth(ledger, { constraints: [] });
+    const child = auth(ledger, { agent_id: 'agent-2', scope: 'delegated', parent_authorisation_id: parent.id, constraints: [] });
+    const act = action(ledger, child.id, { agent_id: 'agent-2' });
+    expect(ledger.checkConsent(act.id).status).toBe('within_bounds');
+    ledger.revoke(parent.id);
+    expect(ledger.checkConsent(act.id).status).toBe('revoked');
+  });
+
+  test('ratification and late approvals replace cached matches', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1');
+    const emergency = auth(ledger, { scope: 'emergency', constraints: [] });
+    const urgent = action(ledger, emergency.id, { parameters: { amount: 50 } });
+    expect(ledger.checkConsent(urgent.id).status).toBe('pending_ratification');
+    ledger.reject(urgent.id, 'Not needed');
+    expect(ledger.checkConsent(urgent.id).status).toBe('exceeded');
+
+    const a = auth(ledger, {
+      constraints: [{ type: 'approval_required', description: 'Manager sign-off', parameter: 'manager' }],
+    });
+    const proposal = { agent_id: 'agent-1', authorisation_id: a.id, action_type: 'pay', description: 'Pay', parameters: { amount: 200 } };
+    const request = ledger.requestApproval(proposal);
+    const paid = ledger.recordAction(proposal);
+    expect(ledger.checkConsent(paid.id).status).toBe('exceeded');
+    // Decided in the same instant as the action, so it covers it
+    ledger.approve(request.id, 'user-1');
+    expect(ledger.checkConsent(paid.id).status).toBe('within_bounds');
+    expect(ConsentLedger.fromJSON(ledger.toJSON()).checkConsent(paid.id).status).toBe('within_bounds');
+  });
+
+  test('window counts use binary search and fall back to a scan once timestamps go backwards', () => {
+    const index = new ActionIndex();
+    const at = (id: string, timestamp: string, outcome: ActionRecord['outcome'] = 'performed') =>
+      ({ id, timestamp, outcome, parameters: {} }) as ActionRecord;
+    const limit = parseFrequencyLimit('3/hour')!;
+    const actions = [at('a', '2026-03-02T10:00:00Z'), at('b', '2026-03-02T10:30:00Z', 'denied'), at('c', '2026-03-02T10:45:00Z'), at('d', '2026-03-02T11:10:00Z')];
+    for (const x of actions) index.add(x, ['auth-1']);
+    expect(index.countInWindow('auth-1', actions[2], limit)).toBe(2);
+    expect(index.countInWindow('auth-1', actions[3], limit)).toBe(2);
+    expect(index.actionsUpTo('auth-1', actions[1]).map((x) => x.id)).toEqual(['a', 'b']);
+
+    jest.useFakeTimers();
+    const ledger = new ConsentLedger('user-1');
+    const limited = auth(ledger, { constraints: [{ type: 'frequency_limit', description: 'Rate', parameter: '2/hour' }] });
+    for (const iso of ['2026-03-02T10:00:00Z', '2026-03-02T10:20:00Z', '2026-03-02T09:50:00Z', '2026-03-02T10:30:00Z']) {
+      jest.setSystemTime(new Date(iso));
+      action(ledger, limited.id, { parameters: {} });
+    }
+    expect(ledger.checkAllActions().map((m) => m.status)).toEqual(['within_bounds', 'within_bounds', 'within_bounds', 'exceeded']);
+    index.add(at('e', '2026-03-02T09:00:00Z'), ['auth-1']);
+    expect(index.countInWindow('auth-1', actions[3], limit)).toBeNull();
+  });
+
+  test('requestAction() matches the proposal without leaving it in the index', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, {
+      constraints: [
+        { type: 'frequency_limit', description: 'One an hour', parameter: '1/hour' },
+        { type: 'approval_required', description: 'Manager sign-off', parameter: 'manager' },
+      ],
+    });
+    const proposal = { agent_id: 'agent-1', authorisation_id: a.id, action_type: 'pay', description: 'Pay', parameters: { amount: 200 } };
+    ledger.approve(ledger.requestApproval(proposal).id, 'user-1');
+    ledger.approve(ledger.requestApproval(proposal).id, 'user-1');
+    expect(ledger.requestAction(proposal).decision).toBe('allow');
+    expect(ledger.requestAction(proposal).decision).toBe('deny');
+    expect(ledger.getActions()).toHaveLength(1);
+    // The refused proposal neither counts towards the limit nor uses up the second approval
+    const next = ledger.recordAction(proposal);
+    expect(ledger.checkConsent(next.id).violations.map((v) => v.constraint_type)).toEqual(['frequency_limit']);
+  });
+});
+
+// --- Event hooks ---
+
+describe('ConsentLedger — Event hooks', () => {
+  afterEach(() => jest.useRealTimers());
+
+  test('authorisations, actions, violations and cascaded revocations are announced as they are appended', () => {
+    const ledger = new ConsentLedger('user-1');
+    const seen: string[] = [];
+    ledger.on('authorised', ({ authorisation }) => { seen.push(`authorised ${authorisation.agent_id}`); });
+    ledger.on('actionRecorded', ({ match }) => { seen.push(`recorded ${match.status}`); });
+    ledger.on('violation', ({ match }) => { seen.push(`violation ${match.violations[0].constraint_type}`); });
+    ledger.on('revoked', ({ authorisation, event }) => {
+      seen.push(`revoked ${authorisation.agent_id}${event.cascaded_from ? ' (cascaded)' : ''}`);
+    });
+    const parent = auth(ledger);
+    auth(ledger, { agent_id: 'agent-2', scope: 'delegated', parent_authorisation_id: parent.id });
+    action(ledger, parent.id);
+    action(ledger, parent.id, { parameters: { amount: 900, domain: 'europe' } });
+    ledger.revoke(parent.id);
+    expect(seen).toEqual([
+      'authorised agent-1',
+      'authorised agent-2',
+      'recorded within_bounds',
+      'recorded exceeded',
+      'violation monetary_limit',
+      'revoked agent-1',
+      'revoked agent-2 (cascaded)',
+    ]);
+  });
+
+  test('handler errors, sync or async, are reported and never reach the ledger', async () => {
+    const errors: string[] = [];
+    const ledger = new ConsentLedger('user-1', {
+      onHookError: (error, event) => errors.push(`${event}: ${(error as Error).message}`),
+    });
+    const finished: string[] = [];
+    ledger.on('authorised', () => {
+      throw new Error('sync failure');
+    });
+    ledger.on('authorised', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      throw new Error('async failure');
+    });
+    const off = ledger.on('authorised', async ({ authorisation }) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      finished.push(authorisation.id);
+    });
+    const a = auth(ledger);
+    expect(ledger.getAuthorisation(a.id)).not.toBeNull();
+    expect(errors).toEqual(['authorised: sync failure']);
+    await ledger.hooksSettled();
+    expect(errors).toEqual(['authorised: sync failure', 'authorised: async failure']);
+    expect(finished).toEqual([a.id]);
+    off();
+    auth(ledger);
+    await ledger.hooksSettled();
+    expect(finished).toEqual([a.id]);
+    expect(() => ledger.on('nonsense' as never, () => {})).toThrow('Unknown ledger event: nonsense');
+  });
+
+  test('scope creep is announced once per new piece of evidence, and automatically with detectScopeCreepEvery', () => {
+    const ledger = new ConsentLedger('user-1', { detectScopeCreepEvery: 1 });
+    const reported: string[][] = [];
+    ledger.on('scopeCreepDetected', ({ patterns }) => {
+      reported.push(patterns.filter((p) => p.pattern_type === 'gradual_expansion').flatMap((p) => p.evidence_ids));
+    });
+    const a = auth(ledger, { constraints: [{ type: 'monetary_limit', description: 'Max 500', parameter: '500' }] });
+    const amounts = [100, 250, 400];
+    const ids = amounts.map((amount) => action(ledger, a.id, { parameters: { amount } }).id);
+    expect(reported.length).toBeGreaterThanOrEqual(1);
+    expect(ids.every((id) => reported.flat().includes(id))).toBe(true);
+    const count = reported.length;
+    ledger.detectScopeCreep();
+    expect(reported).toHaveLength(count);
+    expect(() => new ConsentLedger('user-1', { detectScopeCreepEvery: 0 })).toThrow('Invalid detectScopeCreepEvery: 0');
+  });
+
+  test('verify() announces integrity failures', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    action(ledger, a.id);
+    const tampered = ConsentLedger.fromJSON(ledger.toJSON().replace('Book flight to Paris', 'Book flight to Rome'));
+    const failures: number[] = [];
+    tampered.on('integrityFailure', ({ result }) => { failures.push(result.findings.length); });
+    ledger.on('integrityFailure', () => { failures.push(-1); });
+    expect(ledger.verify().valid).toBe(true);
+    expect(tampered.verify().valid).toBe(false);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toBeGreaterThan(0);
+  });
+
+  test('reading reports fires no events; only appends and explicit checks do', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { constraints: [{ type: 'monetary_limit', description: 'Max 500', parameter: '500' }] });
+    for (const amount of [100, 250, 400]) action(ledger, a.id, { parameters: { amount } });
+    const tampered = ConsentLedger.fromJSON(ledger.toJSON().replace('"amount": 250', '"amount": 260'));
+    const seen: string[] = [];
+    tampered.on('scopeCreepDetected', () => { seen.push('scopeCreepDetected'); });
+    tampered.on('integrityFailure', () => { seen.push('integrityFailure'); });
+    expect(tampered.getComplianceReport().integrity?.valid).toBe(false);
+    expect(tampered.toMarkdown()).toContain('gradual_expansion');
+    expect(seen).toEqual([]);
+    tampered.detectScopeCreep();
+    tampered.verify();
+    expect(seen).toEqual(['scopeCreepDetected', 'integrityFailure']);
+  });
+
+  test('the webhook dispatcher signs, retries with backoff and gives up on final responses', async () => {
+    const received: Array<{ event: string; delivery: string; signature: string; body: string }> = [];
+    const replies = [503, 200, 400];
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({
+          event: String(req.headers['x-consent-ledger-event']),
+          delivery: String(req.headers['x-consent-ledger-delivery']),
+          signature: String(req.headers['x-consent-ledger-signature']),
+          body,
+        });
+        res.statusCode = replies.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const deliveries: WebhookDelivery[] = [];
+      const webhook = new WebhookDispatcher({
+        url: `http://127.0.0.1:${port}/hooks`,
+        events: ['violation', 'revoked'],
+        secret: 'shh',
+        backoffMs: 5,
+        onDelivery: (d) => deliveries.push(d),
+      });
+      const ledger = new ConsentLedger('user-1');
+      webhook.attach(ledger);
+      const a = auth(ledger);
+      action(ledger, a.id, { parameters: { amount: 900, domain: 'europe' } });
+      await webhook.flush();
+      ledger.revoke(a.id);
+      await webhook.flush();
+
+      expect(received.map((r) => r.event)).toEqual(['violation', 'violation', 'revoked']);
+      expect(received[0].delivery).toBe(received[1].delivery);
+      const expected = `sha256=${createHmac('sha256', 'shh').update(received[1].body).digest('hex')}`;
+      expect(received[1].signature).toBe(expected);
+      const body = JSON.parse(received[1].body) as WebhookBody<'violation'>;
+      expect(body.principal_id).toBe('user-1');
+      expect(body.payload.match.status).toBe('exceeded');
+      expect(deliveries.map((d) => [d.event, d.ok, d.attempts, d.status])).toEqual([
+        ['violation', true, 2, 200],
+        ['revoked', false, 1, 400],
+      ]);
+
+      const unreachable = new WebhookDispatcher({ url: 'http://127.0.0.1:1/', maxAttempts: 3, backoffMs: 1 });
+      const failed = await unreachable.send('authorised', { authorisation: a }, 'user-1');
+      expect(failed).toMatchObject({ ok: false, attempts: 3, status: null });
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+// --- Command-line tool ---
+
+describe('ConsentLedger — Command-line tool', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cnl-cli-'));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  function run(...argv: string[]): { code: number; out: string; err: string } {
+    let out = '';
+    let err = '';
+    const code = runCli(argv, { out: (t) => (out += t), err: (t) => (err += t) });
+    return { code, out, err };
+  }
+
+  /** One action within bounds and one over the monetary limit */
+  function exported(): { path: string; ledger: ConsentLedger; ok: ActionRecord; over: ActionRecord } {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger);
+    const ok = action(ledger, a.id);
+    const over = action(ledger, a.id, { agent_id: 'agent-1', action_type: 'book_hotel', parameters: { amount: 900, domain: 'europe' } });
+    const path = join(dir, 'ledger.json');
+    writeFileSync(path, ledger.toJSON());
+    return { path, ledger, ok, over };
+  }
+
+  test('verify exits 0 for an intact export and 1 for a tampered or torn one, without touching the file', () => {
+    const { path, ledger } = exported();
+    const clean = run('verify', path);
+    expect(clean.code).toBe(0);
+    expect(clean.out).toContain('VALID: 1 authorisations');
+    writeFileSync(path, ledger.toJSON().replace('Book flight to Paris', 'Book flight to Rome'));
+    const tampered = run('verify', path, '--json');
+    expect(tampered.code).toBe(1);
+    expect(JSON.parse(tampered.out).findings[0].kind).toBe('hash_mismatch');
+
+    const ndjson = join(dir, 'ledger.ndjson');
+    const stored = ConsentLedger.open(new FileStorageAdapter(ndjson), 'user-1');
+    action(stored, auth(stored).id);
+    stored.close();
+    appendFileSync(ndjson, '{"kind":"action","ent');
+    const before = readFileSync(ndjson, 'utf8');
+    const torn = run('verify', ndjson);
+    expect(torn.code).toBe(1);
+    expect(torn.err).toContain('Ignored torn record at line 4');
+    expect(readFileSync(ndjson, 'utf8')).toBe(before);
+  });
+
+  test('check lists matches and exits 1 when any action has violations', () => {
+    const { path, over } = exported();
+    const result = run('check', path, '--json', '--violations');
+    expect(result.code).toBe(1);
+    const body = JSON.parse(result.out);
+    expect(body).toMatchObject({ total: 2, with_violations: 1, summary: { within_bounds: 1, exceeded: 1 } });
+    expect(body.matches.map((m: ConsentMatch) => m.action_id)).toEqual([over.id]);
+    expect(run('check', path).out).toContain('monetary_limit: expected');
+
+    const ledger = new ConsentLedger('user-1');
+    action(ledger, auth(ledger).id);
+    writeFileSync(path, ledger.toJSON());
+    expect(run('check', path).code).toBe(0);
+  });
+
+  test('drift and report summarise scope creep and compliance', () => {
+    const ledger = new ConsentLedger('user-1');
+    const a = auth(ledger, { constraints: [{ type: 'monetary_limit', description: 'Max 500', parameter: '500' }] });
+    for (const amount of [100, 250, 400]) action(ledger, a.id, { parameters: { amount } });
+    const path = join(dir, 'creep.json');
+    writeFileSync(path, ledger.toJSON());
+    const drift = run('drift', path, '--json');
+    expect(drift.code).toBe(1);
+    expect(JSON.parse(drift.out).patterns.some((p: { pattern_type: string }) => p.pattern_type === 'gradual_expansion')).toBe(true);
+
+    const markdown = run('report', path);
+    expect(markdown.code).toBe(0);
+    expect(markdown.out).toContain('# Consent Ledger Compliance Report');
+    const compliance = JSON.parse(run('report', path, '--json').out);
+    expect(compliance.summary.total_actions).toBe(3);
+    expect(compliance.integrity.valid).toBe(true);
+    const audit = JSON.parse(run('report', path, '--audit', '--json').out);
+    expect(audit.matches).toHaveLength(3);
+    expect(run('report', path, '--audit').code).toBe(2);
+  });
+
+  test('query filters actions by agent, type, status and time', () => {
+    const { path, ok, over } = exported();
+    const ids = (...argv: string[]) => JSON.parse(run('query', path, '--json', ...argv).out).actions.map((a: ActionRecord) => a.id);
+    expect(ids()).toEqual([ok.id, over.id]);
+    expect(ids('--status', 'exceeded')).toEqual([over.id]);
+    expect(ids('--type=book_flight')).toEqual([ok.id]);
+    expect(ids('--agent', 'agent-9')).toEqual([]);
+    expect(ids('--since', '2000-01-01T00:00:00Z', '--until', '2000-01-02T00:00:00Z')).toEqual([]);
+    const text = run('query', path, '--status', 'exceeded');
+    expect(text.out).toContain(`${over.id}  agent-1  book_hotel  exceeded`);
+  });
+
+  test('usage and input errors exit 2', () => {
+    const { path } = exported();
+    expect(run().code).toBe(2);
+    expect(run('--help')).toMatchObject({ code: 0 });
+    expect(run('audit', path).err).toContain('Unknown command: audit');
+    expect(run('check').err).toContain('Missing ledger file');
+    expect(run('check', path, '--status', 'exceeded').err).toContain('Unknown option for check: --status');
+    expect(run('query', path, '--status', 'bogus').code).toBe(2);
+    expect(run('verify', join(dir, 'missing.json')).err).toContain('Ledger file not found');
+    writeFileSync(path, '{ not json');
+    expect(run('verify', path).code).toBe(2);
+  });
+});
+
+// --- HTTP service ---
+
+describe('ConsentLedger — HTTP service', () => {
+  let dir: string;
+  let service: LedgerServer;
+  let port: number;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cnl-server-'));
+  });
+  afterEach(async () => {
+    await service?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function start(options?: ConstructorParameters<typeof LedgerServer>[0]): Promise<void> {
+    service = new LedgerServer(options);
+    port = (await service.listen()).port;
+  }
+
+  type RecordedAction = { action: ActionRecord; match: ConsentMatch };
+  type OpenApiDocument = {
+    openapi: string;
+    paths: Record<string, Record<string, unknown>>;
+    components: { schemas: Record<string, unknown> };
+  };
+
+  /** The response body is parsed JSON, typed as the route's documented shape */
+  function call<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; body: T; headers: IncomingHttpHeaders }> {
+    return new Promise((resolve, reject) => {
+      const text = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+      const req = httpRequest({ host: '127.0.0.1', port, method, path, headers: { 'Content-Type': 'application/json', ...headers } }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: data ? JSON.parse(data) : undefined, headers: res.headers }));
+      });
+      req.on('error', reject);
+      req.end(text);
+    });
+  }
+
+  const grant = {
+    agent_id: 'agent-1',
+    scope: 'categorical',
+    description: 'Book flights under £500',
+    constraints: [{ type: 'monetary_limit', description: 'Max £500', parameter: '500' }],
+    expires_at: null,
+  };
+  const booking = (authorisation_id: string, amount: number) => ({
+    agent_id: 'agent-1',
+    authorisation_id,
+    action_type: 'book_flight',
+    description: `Book flight £${amount}`,
+    parameters: { amount },
+  });
+
+  test('authorises, records and checks actions, and revokes over HTTP', async () => {
+    await start();
+    const created = await call<AuthorisationEntry>('POST', '/principals/user-1/authorisations', grant);
+    expect(created.status).toBe(201);
+    const id = created.body.id;
+    const ok = await call<RecordedAction>('POST', '/principals/user-1/actions', booking(id, 300));
+    expect(ok.status).toBe(201);
+    expect(ok.body.match.status).toBe('within_bounds');
+    const over = await call<RecordedAction>('POST', '/principals/user-1/actions', booking(id, 900));
+    expect((await call<ConsentMatch>('GET', `/principals/user-1/actions/${over.body.action.id}/consent`)).body.status).toBe('exceeded');
+    const violations = await call<ConsentMatch[]>('GET', '/principals/user-1/violations');
+    expect(violations.body.map((m) => m.action_id)).toEqual([over.body.action.id]);
+    expect((await call('GET', '/principals/user-1/actions?status=exceeded')).body).toHaveLength(1);
+    const revoked = await call<AuthorisationEntry>('POST', `/principals/user-1/authorisations/${id}/revoke`, { reason: 'Trip cancelled' });
+    expect(revoked.body.revoked).toBe(true);
+    const history = await call<{ grant: AuthorisationEntry; events: AuthorisationEvent[] }>('GET', `/principals/user-1/authorisations/${id}`);
+    expect(history.body.grant.revoked).toBe(false);
+    expect(history.body.events.map((e) => e.event_type)).toEqual(['revocation']);
+  });
+
+  test('each principal has its own ledger in pluggable storage that survives a restart', async () => {
+    const opened: string[] = [];
+    const options = {
+      storage: (principal_id: string) => new FileStorageAdapter(join(dir, `${principal_id}.ndjson`)),
+      onLedgerOpened: (_ledger: ConsentLedger, principal_id: string) => opened.push(principal_id),
+    };
+    await start(options);
+    const a = await call<AuthorisationEntry>('POST', '/principals/alice/authorisations', grant);
+    await call('POST', '/principals/bob/authorisations', { ...grant, agent_id: 'agent-2' });
+    await call('POST', '/principals/alice/actions', booking(a.body.id, 200));
+    await call('POST', '/principals/alice/actions', booking(a.body.id, 250));
+    expect(opened).toEqual(['alice', 'bob']);
+    expect((await call<LedgerSnapshot>('GET', '/principals/bob/export')).body.actions).toHaveLength(0);
+    await service.close();
+
+    await start(options);
+    const alice = await call<LedgerSnapshot>('GET', '/principals/alice/export');
+    expect(alice.body.principal_id).toBe('alice');
+    expect(alice.body.actions).toHaveLength(2);
+    expect((await call<VerifyResult>('GET', '/principals/alice/verify')).body.valid).toBe(true);
+    expect((await call('GET', '/principals/alice/scope-creep')).status).toBe(200);
+    expect(readFileSync(join(dir, 'bob.ndjson'), 'utf8').split('\n')[0]).toContain('"principal_id":"bob"');
+  });
+
+  test('the enforcement gate records allowed actions and refuses the rest', async () => {
+    await start();
+    const id = (await call<AuthorisationEntry>('POST', '/principals/user-1/authorisations', grant)).body.id;
+    const allowed = await call<ActionDecision>('POST', '/principals/user-1/actions/request', booking(id, 100));
+    expect(allowed.status).toBe(201);
+    expect(allowed.body.decision).toBe('allow');
+    const refused = await call<ActionDecision>('POST', '/principals/user-1/actions/request', booking(id, 700));
+    expect(refused.status).toBe(200);
+    expect(refused.body).toMatchObject({ decision: 'deny', record: null });
+    expect((await call<LedgerSnapshot>('GET', '/principals/user-1/export')).body.actions).toHaveLength(1);
+  });
+
+  test('bad requests get JSON errors with the right status', async () => {
+    await start({ authToken: 'secret', maxBodyBytes: 2048 });
+    const auth = { Authorization: 'Bearer secret' };
+    expect((await call('GET', '/principals/user-1/violations')).status).toBe(401);
+    expect((await call('GET', '/principals/user-1/violations', undefined, { Authorization: 'Bearer secreT' })).status).toBe(401);
+    expect((await call('GET', '/principals/user-1/violations', undefined, { Authorization: 'Bearer secret-and-more' })).status).toBe(401);
+    expect((await call('GET', '/openapi.json')).status).toBe(200);
+    const cases: Array<[string, string, unknown, number, string]> = [
+      ['POST', '/principals/user-1/authorisations', '{ nope', 400, 'not valid JSON'],
+      ['POST', '/principals/user-1/authorisations', { ...grant, scope: 'everything' }, 400, 'Invalid scope: everything'],
+      ['POST', '/principals/user-1/authorisations', { ...grant, principal_id: 'user-2' }, 400, 'does not match the path'],
+      ['POST', '/principals/user-1/actions', { agent_id: 'agent-1' }, 400, 'Missing or invalid field: authorisation_id'],
+      ['POST', '/principals/user-1/authorisations/nope/revoke', undefined, 404, 'Authorisation not found: nope'],
+      ['GET', '/principals/user-1/actions/nope/consent', undefined, 404, 'Action not found: nope'],
+      ['GET', '/principals/bad%20id/verify', undefined, 400, 'Invalid principal_id'],
+      ['DELETE', '/principals/user-1/verify', undefined, 405, 'Method not allowed'],
+      ['GET', '/principals/user-1/nothing', undefined, 404, 'Route not found'],
+      ['GET', '/principals/user-1/actions/request', undefined, 405, 'Method not allowed'],
+      ['POST', '/principals/user-1/actions/nope', booking('x', 1), 404, 'Route not found'],
+      ['POST', '/principals/user-1/actions', { ...booking('x', 1), description: 'x'.repeat(4096) }, 413, 'exceeds 2048 bytes'],
+    ];
+    for (const [method, path, body, status, error] of cases) {
+      const res = await call<{ error: string }>(method, path, body, auth);
+      expect([path, res.status]).toEqual([path, status]);
+      expect(res.body.error).toContain(error);
+    }
+    const tooLarge = await call('POST', '/principals/user-1/actions', 'x'.repeat(256 * 1024), auth);
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.headers.connection).toBe('close');
+  });
+
+  test('the OpenAPI document describes every route', async () => {
+    await start();
+    const doc = (await call<OpenApiDocument>('GET', '/openapi.json')).body;
+    expect(doc.openapi).toBe('3.0.3');
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      '/openapi.json',
+      '/principals/{principal_id}/actions',
+      '/principals/{principal_id}/actions/request',
+      '/principals/{principal_id}/actions/{action_id}/consent',
+      '/principals/{principal_id}/authorisations',
+      '/principals/{principal_id}/authorisations/{authorisation_id}',
+      '/principals/{principal_id}/authorisations/{authorisation_id}/revoke',
+      '/principals/{principal_id}/export',
+      '/principals/{principal_id}/scope-creep',
+      '/principals/{principal_id}/verify',
+      '/principals/{principal_id}/violations',
+    ]);
+    expect(Object.keys(doc.paths['/principals/{principal_id}/actions'])).toEqual(['get', 'post']);
+    const refs = JSON.stringify(doc).match(/#\/components\/schemas\/\w+/g)!;
+    for (const r of refs) expect(doc.components.schemas[r.split('/').pop()!]).toBeDefined();
+  });
+});
+
+// --- Multi-principal registry ---
+
+describe('ConsentLedger — Multi-principal registry', () => {
+  afterEach(() => jest.useRealTimers());
+
+  /** agent-1 acts for alice within bounds, and for bob once over the limit */
+  function twoPrincipals(registry: LedgerRegistry): { alice: ConsentLedger; bob: ConsentLedger } {
+    const alice = registry.ledger('alice');
+    const bob = registry.ledger('bob');
+    action(alice, auth(alice, { principal_id: 'alice' }).id);
+    const b = auth(bob, { principal_id: 'bob' });
+    action(bob, b.id);
+    action(bob, b.id, { parameters: { amount: 900, domain: 'europe' } });
+    return { alice, bob };
+  }
+
+  test("an agent's actions are indexed across ledgers, including ones registered with history", () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    const carol = new ConsentLedger('carol');
+    action(carol, auth(carol, { principal_id: 'carol' }).id, { description: 'Old booking' });
+    const registry = new LedgerRegistry();
+    registry.add(carol);
+    jest.setSystemTime(new Date('2026-03-10T10:00:00Z'));
+    twoPrincipals(registry);
+    auth(registry.ledger('dave'), { principal_id: 'dave', agent_id: 'agent-2' });
+
+    expect(registry.principals()).toEqual(['alice', 'bob', 'carol', 'dave']);
+    expect(registry.agents()).toEqual(['agent-1', 'agent-2']);
+    expect(registry.agentPrincipals('agent-1')).toEqual(['alice', 'bob', 'carol']);
+    expect(registry.agentActions('agent-1').map((x) => x.principal_id)).toEqual(['carol', 'alice', 'bob', 'bob']);
+    const lastWeek = registry.agentActions('agent-1', { since: '2026-03-04T00:00:00Z', until: '2026-03-11T00:00:00Z' });
+    expect(lastWeek.map((x) => x.principal_id)).toEqual(['alice', 'bob', 'bob']);
+    expect(registry.agentActions('agent-1', { principal_id: 'bob', status: 'within_bounds' })).toHaveLength(1);
+    expect(registry.agentActions('agent-2')).toEqual([]);
+    expect(() => registry.agentActions('agent-1', { since: 'last week' })).toThrow('Invalid since: last week');
+  });
+
+  test('indexing appended actions matches nothing until a match is read', () => {
+    let evaluations = 0;
+    const constraintRegistry = new ConstraintRegistry().register({
+      type: 'counted',
+      validateParameter: () => null,
+      evaluate: () => {
+        evaluations++;
+        return null;
+      },
+    });
+    const registry = new LedgerRegistry({ ledgerOptions: { constraintRegistry } });
+    const ledger = registry.ledger('alice');
+    const a = auth(ledger, { principal_id: 'alice', constraints: [{ type: 'counted', description: 'Counted', parameter: '' }] });
+    const matches: ConsentMatch[] = [];
+    for (let i = 0; i < 3; i++) action(ledger, a.id);
+    expect(evaluations).toBe(0);
+    expect(registry.agentActions('agent-1')).toHaveLength(3);
+    expect(evaluations).toBe(3);
+    ledger.on('actionRecorded', ({ match }) => { matches.push(match); });
+    action(ledger, a.id);
+    expect(evaluations).toBe(4);
+    expect(matches[0]).toBe(ledger.checkConsent(ledger.getActions()[3].id));
+  });
+
+  test('violations are found per agent across principals', () => {
+    const registry = new LedgerRegistry();
+    twoPrincipals(registry);
+    expect(registry.violatedPrincipals('agent-1')).toEqual(['bob']);
+    const [violation] = registry.agentViolations('agent-1');
+    expect(violation.principal_id).toBe('bob');
+    expect(violation.match.violations[0].constraint_type).toBe('monetary_limit');
+    expect(registry.violatedPrincipals('agent-9')).toEqual([]);
+  });
+
+  test('compliance is aggregated over principals and summarised per agent', () => {
+    const registry = new LedgerRegistry();
+    twoPrincipals(registry);
+    const report = registry.complianceReport();
+    expect(report.principals).toBe(2);
+    expect(report.summary).toMatchObject({ total_authorisations: 2, total_actions: 3, within_bounds: 2, exceeded: 1 });
+    expect(report.violations_summary.critical).toBe(1);
+    expect(report.integrity).toEqual({ valid: 2, invalid: [] });
+    expect(report.by_principal.bob.summary.exceeded).toBe(1);
+    expect(report.agents).toEqual([
+      { agent_id: 'agent-1', principals: 2, actions: 3, actions_with_violations: 1, principals_violated: ['bob'] },
+    ]);
+  });
+
+  test('combined verification names the ledgers that fail and roots every chain head', () => {
+    const registry = new LedgerRegistry();
+    const { alice } = twoPrincipals(registry);
+    const anchors = { alice: [alice.anchor()] };
+    const before = registry.verify({ anchors });
+    expect(before).toMatchObject({ valid: true, principals_checked: 2, invalid: [] });
+    expect(before.root).toBe(registry.root());
+    action(alice, alice.getAuthorisations()[0].id);
+    expect(registry.root()).not.toBe(before.root);
+
+    const eve = new ConsentLedger('eve');
+    action(eve, auth(eve, { principal_id: 'eve' }).id);
+    registry.add(ConsentLedger.fromJSON(eve.toJSON().replace('Book flight to Paris', 'Book flight to Rome')));
+    const after = registry.verify({ anchors });
+    expect(after.valid).toBe(false);
+    expect(after.invalid).toEqual(['eve']);
+    expect(after.results.alice.valid).toBe(true);
+    expect(registry.complianceReport().integrity).toEqual({ valid: 2, invalid: ['eve'] });
+  });
+
+  test('ledgers open from storage, register once and can be removed; the HTTP service shares a registry', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cnl-registry-'));
+    try {
+      const storage = (principal_id: string) => new FileStorageAdapter(join(dir, `${principal_id}.ndjson`));
+      const registry = new LedgerRegistry({ storage });
+      twoPrincipals(registry);
+      expect(() => registry.add(new ConsentLedger('alice'))).toThrow('Principal already registered: alice');
+      registry.close();
+      expect(registry.principals()).toEqual([]);
+
+      const reopened = new LedgerRegistry({ storage });
+      reopened.ledger('alice');
+      reopened.ledger('bob');
+      expect(reopened.violatedPrincipals('agent-1')).toEqual(['bob']);
+      expect(reopened.remove('bob')).toBe(true);
+      expect(reopened.agentActions('agent-1').map((x) => x.principal_id)).toEqual(['alice']);
+
+      const service = new LedgerServer({ registry: reopened });
+      const { status } = service.handle('POST', '/principals/carol/authorisations', {
+        agent_id: 'agent-1',
+        scope: 'categorical',
+        description: 'Book hotels',
+      });
+      expect(status).toBe(201);
+      expect(reopened.agentPrincipals('agent-1')).toEqual(['alice', 'carol']);
+      reopened.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// --- Agent registry ---
+
+describe('ConsentLedger — Agent registry', () => {
+  afterEach(() => jest.useRealTimers());
+
+  function agents(): AgentRegistry {
+    const registry = new AgentRegistry({ requiredLevels: { transfer_funds: 3 }, defaultRequiredLevel: 1 });
+    const registered_at = '2026-01-01T00:00:00Z';
+    registry.register({ agent_id: 'agent-1', owner: 'acme', authority_level: 1, registered_at });
+    registry.register({ agent_id: 'agent-2', owner: 'acme', authority_level: 3, registered_at });
+    return registry;
+  }
+
+  test('actions by unknown agents fail closed, and the gate denies them', () => {
+    const ledger = new ConsentLedger('user-1', { agentRegistry: agents() });
+    const a = auth(ledger);
+    expect(ledger.checkConsent(action(ledger, a.id).id).status).toBe('within_bounds');
+    const rogue = ledger.checkConsent(action(ledger, a.id, { agent_id: 'agent-9' }).id);
+    expect(rogue.status).toBe('exceeded');
+    expect(rogue.violations).toEqual([
+      expect.objectContaining({ constraint_type: 'agent', actual: 'unknown agent agent-9', severity: 'critical' }),
+    ]);
+    const decision = ledger.requestAction({
+      agent_id: 'agent-9',
+      authorisation_id: a.id,
+      action_type: 'book_flight',
+      description: 'Book flight to Rome',
+      parameters: { amount: 200, domain: 'europe' },
+    });
+    expect(decision.decision).toBe('deny');
+    expect(decision.record).toBeNull();
+  });
+
+  test('actions taken before the agent was registered fail closed', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-12-31T10:00:00Z'));
+    const ledger = new ConsentLedger('user-1', { agentRegistry: agents() });
+    const a = auth(ledger);
+    const early = action(ledger, a.id);
+    jest.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+    expect(ledger.checkConsent(action(ledger, a.id).id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(early.id).violations).toEqual([
+      expect.objectContaining({ constraint_type: 'agent', actual: 'unknown agent agent-1', severity: 'critical' }),
+    ]);
+  });
+
+  test('suspension covers actions taken while it lasts, including cached matches', () => {
+    jest.useFakeTimers();
+    const registry = agents();
+    const ledger = new ConsentLedger('user-1', { agentRegistry: registry });
+    const a = auth(ledger);
+    jest.setSystemTime(new Date('2026-04-01T10:00:00Z'));
+    const before = action(ledger, a.id);
+    jest.setSystemTime(new Date('2026-04-02T10:00:00Z'));
+    const during = action(ledger, a.id);
+    jest.setSystemTime(new Date('2026-04-04T10:00:00Z'));
+    const after = action(ledger, a.id);
+    expect(ledger.checkConsent(during.id).status).toBe('within_bounds');
+
+    registry.suspend('agent-1', 'Compromised credentials', '2026-04-02T00:00:00Z');
+    expect(registry.get('agent-1')!.status).toBe('suspended');
+    expect(ledger.checkAllActions().map((m) => m.status)).toEqual(['within_bounds', 'exceeded', 'exceeded']);
+    expect(ledger.checkConsent(during.id).violations[0]).toMatchObject({
+      constraint_type: 'agent',
+      actual: 'suspended at 2026-04-02T00:00:00Z',
+      description: 'Compromised credentials',
+    });
+
+    registry.reactivate('agent-1', '2026-04-03T00:00:00Z');
+    expect(ledger.checkConsent(before.id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(during.id).status).toBe('exceeded');
+    expect(ledger.checkConsent(after.id).status).toBe('within_bounds');
+
+    registry.suspend('agent-1', undefined, '2026-04-05T00:00:00Z');
+    expect(() => registry.reactivate('agent-1', '2026-04-04T00:00:00Z')).toThrow(
+      'Reactivation precedes the suspension: 2026-04-04T00:00:00Z'
+    );
+    expect(registry.get('agent-1')!.status).toBe('suspended');
+  });
+
+  test('actions above the authority level are violations, and authority_inflation flags repeat offenders', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-04-01T10:00:00Z'));
+    const registry = agents();
+    const ledger = new ConsentLedger('user-1', { agentRegistry: registry });
+    const a = auth(ledger, { constraints: [] });
+    const transfers = Array.from({ length: 3 }, () => {
+      action(ledger, a.id, { agent_id: 'agent-2', action_type: 'transfer_funds' });
+      return action(ledger, a.id, { action_type: 'transfer_funds' });
+    });
+    expect(ledger.checkConsent(transfers[0].id).violations).toEqual([
+      expect.objectContaining({ constraint_type: 'agent', expected: 'authority level 3', actual: 'authority level 1', severity: 'major' }),
+    ]);
+    expect(ledger.getViolations().map((m) => m.action_id)).toEqual(transfers.map((t) => t.id));
+    const inflation = ledger.detectScopeCreep().filter((p) => p.pattern_type === 'authority_inflation');
+    expect(inflation).toHaveLength(1);
+    expect(inflation[0].description).toBe('Agent agent-1 (authority level 1) took 3 actions requiring up to level 3');
+    expect(inflation[0].severity).toBeCloseTo(0.9);
+    expect(inflation[0].evidence_ids).toHaveLength(3);
+
+    // A promotion covers later actions only: past ones stay judged at the level held then
+    jest.setSystemTime(new Date('2026-04-02T10:00:00Z'));
+    registry.setAuthorityLevel('agent-1', 3);
+    expect(registry.levelAt('agent-1', '2026-04-01T10:00:00Z')).toBe(1);
+    expect(ledger.checkConsent(transfers[0].id).status).toBe('exceeded');
+    expect(ledger.detectScopeCreep().filter((p) => p.pattern_type === 'authority_inflation')).toHaveLength(1);
+    expect(ledger.checkConsent(action(ledger, a.id, { action_type: 'transfer_funds' }).id).status).toBe('within_bounds');
+    expect(() => registry.setAuthorityLevel('agent-1', 1, '2026-04-01T00:00:00Z')).toThrow(
+      'Level change precedes the previous one: 2026-04-01T00:00:00Z'
+    );
+  });
+
+  test('a raised required level applies to actions taken after it only', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-04-01T10:00:00Z'));
+    const registry = agents();
+    const ledger = new ConsentLedger('user-1', { agentRegistry: registry });
+    const a = auth(ledger, { constraints: [] });
+    const before = action(ledger, a.id, { action_type: 'book_flight' });
+    jest.setSystemTime(new Date('2026-04-02T10:00:00Z'));
+    registry.requireLevel('book_flight', 2);
+    const after = action(ledger, a.id, { action_type: 'book_flight' });
+    expect(registry.requiredLevel('book_flight')).toBe(2);
+    expect(registry.requiredLevel('book_flight', before.timestamp)).toBe(1);
+    expect(ledger.checkConsent(before.id).status).toBe('within_bounds');
+    expect(ledger.checkConsent(after.id).violations).toEqual([
+      expect.objectContaining({ constraint_type: 'agent', expected: 'authority level 2', actual: 'authority level 1' }),
+    ]);
+    expect(() => registry.requireLevel('book_flight', 1, '2026-04-01T00:00:00Z')).toThrow(
+      'Required level change precedes the previous one: 2026-04-01T00:00:00Z'
+    );
+  });
+
+  test('one agent registry can govern every principal in a ledger registry', () => {
+    const registry = agents();
+    const ledgers = new LedgerRegistry({ ledgerOptions: { agentRegistry: registry } });
+    for (const principal_id of ['alice', 'bob']) {
+      const ledger = ledgers.ledger(principal_id);
+      action(ledger, auth(ledger, { principal_id }).id);
+    }
+    expect(ledgers.violatedPrincipals('agent-1')).toEqual([]);
+    registry.suspend('agent-1', undefined, '2026-01-02T00:00:00Z');
+    expect(ledgers.violatedPrincipals('agent-1')).toEqual(['alice', 'bob']);
+    expect(ledgers.agentViolations('agent-1')[0].match.violations[0].description).toBe(
+      'Action taken while the agent was suspended'
+    );
+  });
+
+  test('registrations and state changes are validated', () => {
+    const registry = agents();
+    expect(registry.agents()).toEqual(['agent-1', 'agent-2']);
+    expect(registry.requiredLevel('transfer_funds')).toBe(3);
+    expect(registry.requiredLevel('book_flight')).toBe(1);
+    expect(() => registry.register({ agent_id: 'agent-1', owner: 'acme', authority_level: 2 })).toThrow(
+      'Agent already registered: agent-1'
+    );
+    expect(() => registry.register({ agent_id: 'agent-3', owner: 'acme', authority_level: 1.5 })).toThrow(
+      'Invalid authority_level: 1.5'
+    );
+    expect(() => registry.suspend('agent-9')).toThrow('Agent not found: agent-9');
+    expect(() => registry.reactivate('agent-1')).toThrow('Agent not suspended: agent-1');
+    registry.suspend('agent-1');
+    expect(() => registry.suspend('agent-1')).toThrow('Agent already suspended: agent-1');
+    expect(() => registry.requireLevel('wire', -1)).toThrow('Invalid required level for wire: -1');
+    expect(() => registry.register({ agent_id: 'agent-3', owner: 'acme', authority_level: 1, registered_at: 'soon' })).toThrow(
+      'Invalid registration time: soon'
+    );
+  });
+});
+
 // --- Querying ---
 
 describe('ConsentLedger — Querying', () => {